@@ -28,6 +28,8 @@ class MCPCreatorHeadless {
       installGlobally: config.installGlobally || false,
       addToClaudeDesktop: config.addToClaudeDesktop || false
     };
+    this.activeBuild = null;
+    this.stopReason = null;
   }
 
   getDefaultServerDirectory(serverName) {
@@ -269,10 +271,13 @@ SCRAPING_DELAY_MS=100
 
   async buildAndInitialize() {
     return new Promise((resolve, reject) => {
+      // Its own process group, so stop() reaches init-fetch under npm and the shell
       const npm = spawn('npm', ['run', 'build:init'], {
         cwd: this.config.targetDir,
-        stdio: 'pipe'
+        stdio: 'pipe',
+        detached: true
       });
+      this.activeBuild = npm;
 
       let output = '';
       npm.stdout.on('data', (data) => {
@@ -293,8 +298,11 @@ SCRAPING_DELAY_MS=100
       });
 
       npm.on('close', (code) => {
+        this.activeBuild = null;
         if (code === 0) {
           resolve();
+        } else if (this.stopReason) {
+          reject(new Error(`Cancelled (${this.stopReason}); pages fetched so far are kept for the next run`));
         } else {
           reject(new Error(`Build failed: ${output}`));
         }
@@ -302,6 +310,18 @@ SCRAPING_DELAY_MS=100
     });
   }
 
+  // Stops the build and initial fetch; init-fetch saves what it fetched before exiting
+  stop(signal) {
+    if (!this.activeBuild) return false;
+    this.stopReason = signal;
+    try {
+      process.kill(-this.activeBuild.pid, signal);
+    } catch (error) {
+      // The build already exited
+    }
+    return true;
+  }
+
   async optionalInstallation() {
     if (this.config.installGlobally) {
       process.stdout.write(`${blue}📦 Installing globally...${reset}`);
@@ -406,6 +426,14 @@ if (require.main === module) {
   try {
     const config = JSON.parse(args[0]);
     const creator = new MCPCreatorHeadless(config);
+    
+    // The web UI cancels with SIGTERM; run() then fails and cleans up once the build has stopped
+    for (const signal of ['SIGTERM', 'SIGINT']) {
+      process.on(signal, () => {
+        if (!creator.stop(signal)) process.exit(1);
+      });
+    }
+    
     creator.run().then(result => {
       process.stdout.write(JSON.stringify(result));
     }).catch(error => {
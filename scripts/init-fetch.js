@@ -12,7 +12,7 @@ async function runInitialFetch() {
     console.log('🚀 Running initial fetch and cache population...');
     
     // Import the modules after config is loaded
-    const { GitBookScraper } = await import('../dist/scraper.js');
+    const { createContentSource, syncStoreFromScraper } = await import('../dist/contentSource.js');
     const { SQLiteStore } = await import('../dist/sqliteStore.js');
     const { DomainDetector } = await import('../dist/domainDetector.js');
     const { gitBookConfig, getCacheFilePath } = await import('../dist/config.js');
@@ -23,11 +23,11 @@ async function runInitialFetch() {
       process.exit(1);
     }
     
-    // Check if cache already exists and has content
+    // Check if cache already exists and has content; an interrupted crawl is resumed instead
     const store = new SQLiteStore(gitBookConfig.gitbookUrl);
     const pageCount = await store.getPageCount();
     
-    if (pageCount > 0) {
+    if (pageCount > 0 && !store.getFrontierProgress()) {
       console.log(`✅ Cache already populated with ${pageCount} pages, skipping fetch`);
       console.log('💡 Use refresh_content tool or delete cache file to force re-fetch');
       store.close();
@@ -61,14 +61,19 @@ async function runInitialFetch() {
     // Show initial status
     console.log('🔍 Starting discovery phase...');
     
-    // Create scraper with progress callback
-    console.log('🏗️  INIT: About to create GitBookScraper with URL:', gitBookConfig.gitbookUrl);
-    const scraper = new GitBookScraper(gitBookConfig.gitbookUrl, progressCallback);
-    console.log('🏗️  INIT: GitBookScraper created successfully');
-    console.log('🏗️  INIT: About to call scraper.scrapeAll()');
-    await scraper.scrapeAll();
+    // Same source and crawl state as the servers, so a stopped fetch resumes where it left off
+    console.log(`🏗️  INIT: Reading ${gitBookConfig.docsSource} source for:`, gitBookConfig.gitbookUrl);
+    const scraper = createContentSource(progressCallback);
+    scraper.setCrawlStateStore?.(store);
+    
+    // Ctrl+C or SIGTERM (the web UI's cancel) stops the crawl; pages fetched so far are saved
+    const controller = new AbortController();
+    const stop = (signal) => controller.abort(new Error(`interrupted (${signal})`));
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+    
+    await scraper.scrapeAll(controller.signal);
     console.log('🏗️  INIT: scraper.scrapeAll() completed');
-    const content = scraper.getContent();
     
     // Clear progress line and show completion
     if (progressLine) {
@@ -76,16 +81,23 @@ async function runInitialFetch() {
     }
     
     // Check if we got content
-    if (Object.keys(content).length === 0) {
+    if (Object.keys(scraper.getContent()).length === 0) {
       console.log('⚠️  No content scraped, check URL and connectivity');
       store.close();
       process.exit(1);
     }
     
-    console.log(`📄 Scraped ${Object.keys(content).length} pages`);
+    // Store content in SQLite, with removed pages, aliases, table of contents and API catalog
+    const content = await syncStoreFromScraper(store, scraper);
+    
+    const { aborted } = scraper.getCrawlReport();
+    if (aborted) {
+      console.log(`🛑 Initial fetch stopped (${aborted}); saved ${Object.keys(content).length} pages, run again to resume`);
+      store.close();
+      process.exit(1);
+    }
     
-    // Store content in SQLite
-    await store.updateContent(content);
+    console.log(`📄 Scraped ${Object.keys(content).length} pages`);
     
     // Detect and cache domain info
     const domainInfo = DomainDetector.detectDomain(content, gitBookConfig.gitbookUrl);
@@ -0,0 +1,58 @@
+/**
+ * Helpers for threading cancellation through the crawler. Node 18 lacks
+ * AbortSignal.any, so signals are combined by hand.
+ */
+
+/**
+ * A signal that aborts as soon as any of the given signals does, carrying
+ * that signal's reason. Undefined entries are ignored.
+ */
+export function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const controller = new AbortController();
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      return controller.signal;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+  }
+
+  return controller.signal;
+}
+
+/**
+ * Waits `ms`, rejecting with the signal's reason if it aborts first.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Human-readable reason an aborted signal carries.
+ */
+export function describeAbortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+  if (reason instanceof Error) return reason.message;
+  return reason ? String(reason) : 'cancelled';
+}
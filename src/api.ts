@@ -2,22 +2,30 @@
 
 import express from 'express';
 import cors from 'cors';
-import { GitBookScraper } from './scraper.js';
+import { GitBookContent } from './scraper.js';
+import { ContentSource, createContentSource } from './contentSource.js';
 import { ContentStore } from './store.js';
-import { gitBookConfig, validateConfig } from './config.js';
+import { gitBookConfig, validateConfig, describeAuthSettings } from './config.js';
 import { DomainDetector, DomainInfo } from './domainDetector.js';
+import { anySignal } from './abortUtils.js';
+import { TocParser } from './toc.js';
+import { ApiCatalogSyncReport, syncApiCatalog } from './openapi.js';
+import { PageTables } from './tables.js';
+import { CodeExamples } from './codeExamples.js';
 
 export class GitBookRestAPI {
   private app: express.Application;
-  private scraper: GitBookScraper;
+  private scraper: ContentSource;
   private store: ContentStore;
   private domainInfo: DomainInfo;
   private port: number;
+  private activeCrawl?: { controller: AbortController; done: Promise<GitBookContent> };
+  private apiCatalogReport?: ApiCatalogSyncReport;
 
   constructor(port: number = 3000) {
     this.port = port;
     this.app = express();
-    this.scraper = new GitBookScraper(gitBookConfig.gitbookUrl);
+    this.scraper = createContentSource();
     this.store = new ContentStore();
     
     // Initialize with default domain info
@@ -51,13 +59,21 @@ export class GitBookRestAPI {
         description: this.domainInfo.description,
         version: gitBookConfig.serverVersion,
         endpoints: {
-          search: '/api/search?q=query',
-          page: '/api/page/:path',
+          search: '/api/search?q=query&version=&locale=',
+          page: '/api/page/:path?version=&locale=',
+          versions: '/api/versions',
           sections: '/api/sections',
           sectionPages: '/api/sections/:section/pages',
-          codeBlocks: '/api/page/:path/code',
+          toc: '/api/toc?path=&depth=',
+          apiSpecs: '/api/openapi/specs',
+          apiOperations: '/api/openapi/operations?q=&spec=&tag=&method=&limit=&offset=',
+          apiOperation: '/api/openapi/operation?operationId=&method=&path=&spec=',
+          codeBlocks: '/api/page/:path/code?language=',
+          images: '/api/page/:path/images',
+          tables: '/api/page/:path/tables?q=&index=',
           markdown: '/api/page/:path/markdown',
           refresh: '/api/refresh',
+          cancelRefresh: '/api/refresh/cancel',
           status: '/api/status'
         }
       });
@@ -73,14 +89,18 @@ export class GitBookRestAPI {
 
         const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
         const offset = parseInt(req.query.offset as string) || 0;
+        const version = req.query.version as string | undefined;
+        const locale = req.query.locale as string | undefined;
         
-        const results = await (this.store as any).searchContent(query, limit, offset);
+        const results = await (this.store as any).searchContent(query, limit, offset, { version, locale });
         const totalResults = await (this.store as any).searchContentCount ? 
-          await (this.store as any).searchContentCount(query) : 
+          await (this.store as any).searchContentCount(query, { version, locale }) : 
           results.length;
 
         res.json({
           query,
+          version: version ?? null,
+          locale: locale ?? null,
           results,
           pagination: {
             total: totalResults,
@@ -98,8 +118,8 @@ export class GitBookRestAPI {
       }
     });
 
-    // Get specific page
-    this.app.get('/api/page/*', async (req, res) => {
+    // Get page images; registered before /api/page/* so that route doesn't swallow it
+    this.app.get('/api/page/*/images', async (req, res) => {
       try {
         const path = '/' + (req.params as any)[0];
         const page = await this.store.getPage(path);
@@ -108,6 +128,78 @@ export class GitBookRestAPI {
           return res.status(404).json({ error: 'Page not found', path });
         }
 
+        const images = page.images || [];
+        res.json({
+          page: {
+            title: page.title,
+            path: page.path,
+            section: page.section,
+            url: page.url
+          },
+          images: images.map((image, index) => ({ index: index + 1, ...image })),
+          summary: {
+            totalImages: images.length,
+            withAltText: images.filter(image => image.alt).length,
+            withCaption: images.filter(image => image.caption).length
+          }
+        });
+      } catch (error) {
+        res.status(500).json({ 
+          error: 'Failed to get images', 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    });
+
+    // Get page tables as data, optionally only those matching ?q= or the one at ?index=
+    this.app.get('/api/page/*/tables', async (req, res) => {
+      try {
+        const path = '/' + (req.params as any)[0];
+        const query = req.query.q as string | undefined;
+        const index = req.query.index ? parseInt(req.query.index as string, 10) : undefined;
+        const page = await this.store.getPage(path);
+        
+        if (!page) {
+          return res.status(404).json({ error: 'Page not found', path });
+        }
+
+        const tables = page.tables || [];
+        const matching = (query ? PageTables.filter(tables, query) : tables)
+          .map(table => ({ index: tables.indexOf(table) + 1, ...table }))
+          .filter(table => index === undefined || table.index === index);
+
+        res.json({
+          page: {
+            title: page.title,
+            path: page.path,
+            section: page.section
+          },
+          tables: matching,
+          summary: {
+            totalTables: tables.length,
+            matching: matching.length
+          }
+        });
+      } catch (error) {
+        res.status(500).json({ 
+          error: 'Failed to get tables', 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    });
+
+    // Get specific page
+    this.app.get('/api/page/*', async (req, res) => {
+      try {
+        const path = '/' + (req.params as any)[0];
+        const version = req.query.version as string | undefined;
+        const locale = req.query.locale as string | undefined;
+        const page = await this.store.getPage(path, { version, locale });
+        
+        if (!page) {
+          return res.status(404).json({ error: 'Page not found', path, version, locale });
+        }
+
         res.json(page);
       } catch (error) {
         res.status(500).json({ 
@@ -160,25 +252,39 @@ export class GitBookRestAPI {
           return res.status(404).json({ error: 'Page not found', path });
         }
 
+        const language = req.query.language as string | undefined;
+        const blocks = page.codeBlocks
+          .map((block, index) => ({ block, index }))
+          .filter(({ block }) => !language || CodeExamples.sameLanguage(block.language, language));
+
         res.json({
           page: {
             title: page.title,
             path: page.path,
             section: page.section
           },
-          codeBlocks: page.codeBlocks.map((block, index) => ({
+          language,
+          codeBlocks: blocks.map(({ block, index }) => ({
             index: index + 1,
             language: block.language,
             title: block.title,
+            tab: block.tab,
+            example: block.example !== undefined ? block.example + 1 : undefined,
             lineNumbers: block.lineNumbers,
             code: block.code,
             codeLength: block.code.length,
             lineCount: block.code.split('\n').length
           })),
+          codeExamples: page.codeExamples?.map((example, index) => ({
+            index: index + 1,
+            heading: example.heading,
+            tabs: example.variants.map(variant => ({ label: variant.label, language: variant.language, block: variant.block + 1 }))
+          })),
           summary: {
-            totalBlocks: page.codeBlocks.length,
-            languages: [...new Set(page.codeBlocks.map(b => b.language))],
-            totalLines: page.codeBlocks.reduce((sum, b) => sum + b.code.split('\n').length, 0)
+            totalBlocks: blocks.length,
+            languages: [...new Set(blocks.map(({ block }) => block.language))],
+            totalLines: blocks.reduce((sum, { block }) => sum + block.code.split('\n').length, 0),
+            examples: page.codeExamples?.length ?? 0
           }
         });
       } catch (error) {
@@ -224,14 +330,144 @@ export class GitBookRestAPI {
       }
     });
 
+    // Docs versions and the one searches default to
+    this.app.get('/api/versions', async (req, res) => {
+      try {
+        const versions = await this.store.listVersions();
+        res.json({
+          versions: versions.length,
+          defaultVersion: versions.find(entry => entry.isDefault)?.version ?? null,
+          data: versions
+        });
+      } catch (error) {
+        res.status(500).json({ 
+          error: 'Failed to list versions', 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    });
+
+    // Sidebar navigation tree, optionally the subtree under ?path= (page path or group title)
+    this.app.get('/api/toc', async (req, res) => {
+      try {
+        const path = req.query.path as string | undefined;
+        const depth = req.query.depth ? parseInt(req.query.depth as string) : undefined;
+        const entries = await this.store.getToc();
+        const rootPath = path && !entries.some(entry => entry.path === path)
+          ? (await this.store.getPage(path))?.path ?? path
+          : path;
+
+        const tree = TocParser.buildTree(entries, rootPath, depth);
+        if (!tree) {
+          return res.status(404).json({ error: 'No table of contents entry', path });
+        }
+
+        res.json({
+          root: path ?? null,
+          entries: entries.length,
+          data: tree
+        });
+      } catch (error) {
+        res.status(500).json({ 
+          error: 'Failed to get table of contents', 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    });
+
+    // OpenAPI/Swagger specs in the endpoint catalog
+    this.app.get('/api/openapi/specs', async (req, res) => {
+      try {
+        const specs = await this.store.listApiSpecs();
+        res.json({
+          specs: specs.length,
+          lastSync: this.apiCatalogReport ?? null,
+          data: specs
+        });
+      } catch (error) {
+        res.status(500).json({ 
+          error: 'Failed to list API specs', 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    });
+
+    // Operations of the catalog, searched with ?q= or listed page by page
+    this.app.get('/api/openapi/operations', async (req, res) => {
+      try {
+        const filters = {
+          spec: req.query.spec as string | undefined,
+          tag: req.query.tag as string | undefined,
+          method: req.query.method as string | undefined
+        };
+        const query = req.query.q as string | undefined;
+        const limit = parseInt(req.query.limit as string) || (query ? 10 : 50);
+        const offset = parseInt(req.query.offset as string) || 0;
+
+        if (query) {
+          const operations = await this.store.searchApiOperations(query, filters, limit);
+          return res.json({ query, results: operations.length, data: operations });
+        }
+
+        const { operations, total } = await this.store.listApiOperations(filters, limit, offset);
+        res.json({ total, offset, limit, data: operations });
+      } catch (error) {
+        res.status(500).json({ 
+          error: 'Failed to list API operations', 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    });
+
+    // One operation with resolved schemas, by ?operationId= or ?method=&path=
+    this.app.get('/api/openapi/operation', async (req, res) => {
+      try {
+        const ref = {
+          spec: req.query.spec as string | undefined,
+          operationId: req.query.operationId as string | undefined,
+          method: req.query.method as string | undefined,
+          path: req.query.path as string | undefined
+        };
+        if (!ref.operationId && !(ref.method && ref.path)) {
+          return res.status(400).json({ error: 'Either operationId or both method and path are required' });
+        }
+
+        const matches = await this.store.findApiOperations(ref);
+        if (matches.length === 0) {
+          return res.status(404).json({ error: 'API operation not found', ...ref });
+        }
+        if (matches.length > 1) {
+          return res.status(300).json({
+            error: 'Several specs define this operation; pass ?spec=',
+            candidates: matches.map(({ specId, operationId, method, path }) => ({ specId, operationId, method, path }))
+          });
+        }
+        res.json(matches[0]);
+      } catch (error) {
+        res.status(500).json({ 
+          error: 'Failed to get API operation', 
+          details: error instanceof Error ? error.message : String(error) 
+        });
+      }
+    });
+
     // Refresh content
     this.app.post('/api/refresh', async (req, res) => {
+      if (this.activeCrawl) {
+        return res.status(409).json({ error: 'A refresh is already running', cancel: '/api/refresh/cancel' });
+      }
+      
+      // A client that hangs up no longer wants the crawl
+      const disconnected = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) disconnected.abort(new Error('client disconnected'));
+      });
+      
       try {
-        await this.scraper.scrapeAll();
-        const content = this.scraper.getContent();
-        await this.store.updateContent(content);
+        const content = await this.crawlAndSync(disconnected.signal);
         
         const failureStats = this.scraper.getFailureStats();
+        const crawlReport = this.scraper.getCrawlReport();
         
         res.json({
           success: true,
@@ -239,7 +475,16 @@ export class GitBookRestAPI {
           refreshed: Object.keys(content).length,
           failures: failureStats.failedPages.length,
           failedPages: failureStats.failedPages,
-          totalRetries: failureStats.totalRetries
+          totalRetries: failureStats.totalRetries,
+          aborted: crawlReport.aborted ?? null,
+          revalidated: crawlReport.pagesRevalidated,
+          notModified: crawlReport.notModified,
+          throttled: crawlReport.throttled,
+          removed: crawlReport.removed,
+          apiCatalog: this.apiCatalogReport ?? null,
+          authFailures: crawlReport.authFailures,
+          robotsSkipped: crawlReport.robotsSkipped,
+          scopeRejected: crawlReport.scopeRejected
         });
       } catch (error) {
         res.status(500).json({ 
@@ -249,6 +494,12 @@ export class GitBookRestAPI {
       }
     });
 
+    // Cancel a running refresh; pages fetched so far are kept
+    this.app.post('/api/refresh/cancel', (req, res) => {
+      const cancelled = this.cancelCrawl('cancelled via /api/refresh/cancel');
+      res.json({ cancelled });
+    });
+
     // Get status
     this.app.get('/api/status', async (req, res) => {
       try {
@@ -261,6 +512,9 @@ export class GitBookRestAPI {
             description: this.domainInfo.description,
             version: gitBookConfig.serverVersion,
             url: gitBookConfig.gitbookUrl,
+            platform: this.scraper.getDetectedPlatform() ?? null,
+            source: gitBookConfig.docsSource,
+            commit: this.scraper.getRevision?.() ?? null,
             uptime: process.uptime()
           },
           content: {
@@ -269,6 +523,7 @@ export class GitBookRestAPI {
             lastUpdated: stats.lastUpdated,
             avgContentAgeHours: stats.avgContentAge
           },
+          apiCatalog: this.apiCatalogReport ?? null,
           failures: {
             failedPages: failureStats.failedPages,
             totalFailures: failureStats.failedPages.length,
@@ -279,7 +534,10 @@ export class GitBookRestAPI {
             cacheTtlHours: gitBookConfig.cacheTtlHours,
             maxRetries: gitBookConfig.maxRetries,
             maxConcurrentRequests: gitBookConfig.maxConcurrentRequests,
-            scrapingDelayMs: gitBookConfig.scrapingDelayMs
+            scrapingDelayMs: gitBookConfig.scrapingDelayMs,
+            userAgent: gitBookConfig.userAgent,
+            respectRobotsTxt: gitBookConfig.respectRobotsTxt,
+            authentication: describeAuthSettings()
           }
         });
       } catch (error) {
@@ -301,25 +559,82 @@ export class GitBookRestAPI {
           '/api/search?q=query',
           '/api/page/:path',
           '/api/page/:path/markdown',
-          '/api/page/:path/code',
+          '/api/page/:path/code?language=',
+          '/api/page/:path/images',
+          '/api/page/:path/tables',
           '/api/sections',
           '/api/sections/:section/pages',
+          '/api/toc',
+          '/api/versions',
+          '/api/openapi/specs',
+          '/api/openapi/operations',
+          '/api/openapi/operation',
           '/api/refresh',
+          '/api/refresh/cancel',
           '/api/status'
         ]
       });
     });
   }
 
+  /**
+   * Runs one crawl at a time and loads the result into the store. The crawl
+   * stops early when `signal` aborts or cancelCrawl() is called. A call made
+   * while a crawl is running waits for that crawl instead of starting another.
+   */
+  private crawlAndSync(signal?: AbortSignal): Promise<GitBookContent> {
+    if (this.activeCrawl) return this.activeCrawl.done;
+    
+    const controller = new AbortController();
+    const done = (async () => {
+      try {
+        await this.scraper.scrapeAll(anySignal([signal, controller.signal]));
+        const content = this.scraper.getContent();
+        await this.store.updateContent(content);
+        await this.store.updateAliases(this.scraper.getAliases());
+        await this.store.updateToc(this.scraper.getToc());
+        this.apiCatalogReport = await syncApiCatalog(
+          this.store,
+          [...gitBookConfig.openApiSpecs, ...this.scraper.getApiSpecUrls()],
+          !this.scraper.getCrawlReport().aborted
+        );
+        return content;
+      } finally {
+        // Only this crawl's handle; never one that started after it
+        if (this.activeCrawl?.controller === controller) this.activeCrawl = undefined;
+      }
+    })();
+    
+    this.activeCrawl = { controller, done };
+    return done;
+  }
+
+  private cancelCrawl(reason: string): boolean {
+    if (!this.activeCrawl) return false;
+    this.activeCrawl.controller.abort(new Error(reason));
+    return true;
+  }
+
   async start(): Promise<void> {
     // Validate configuration
     validateConfig();
     
+    // Ctrl+C or SIGTERM stops a running crawl cleanly (keeping what it fetched) before exiting
+    const shutdown = async (signal: NodeJS.Signals) => {
+      if (this.activeCrawl) {
+        console.log('🛑 Stopping crawl and saving pages fetched so far...');
+        const { done } = this.activeCrawl;
+        this.cancelCrawl(`interrupted (${signal})`);
+        await done.catch(() => undefined);
+      }
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    
     // Initial content load
     console.log('Loading initial content...');
-    await this.scraper.scrapeAll();
-    const content = this.scraper.getContent();
-    await this.store.updateContent(content);
+    const content = await this.crawlAndSync();
     
     // Detect domain after content is loaded
     this.domainInfo = DomainDetector.detectDomain(content);
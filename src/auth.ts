@@ -0,0 +1,137 @@
+import type { CheerioAPI } from 'cheerio';
+import type { AuthSettings } from './config.js';
+
+export interface Cookie {
+  domain: string;
+  includeSubdomains: boolean;
+  path: string;
+  secure: boolean;
+  expires: number; // Unix seconds, 0 = session cookie
+  name: string;
+  value: string;
+}
+
+// Paths and hosts that indicate we were bounced to a sign-in flow
+const LOGIN_PATH_PATTERN = /\/(login|log-in|signin|sign-in|sso|saml|oauth2?|authorize|session\/new)(\/|$)/i;
+const LOGIN_HOST_PATTERN = /(^|\.)(login|auth|sso|signin|accounts)\.|(^|\.)(okta|auth0|onelogin)\.com$/i;
+
+/**
+ * Credentials for crawling private documentation. Headers are only attached to
+ * requests for the docs origin, so secrets never reach other hosts such as
+ * ALLOWED_ORIGINS, CDNs or an SSO provider we get redirected to.
+ */
+export class SiteAuth {
+  private origin: string;
+  private headers: Record<string, string> = {};
+  private cookies: Cookie[];
+
+  constructor(siteUrl: string, settings: AuthSettings) {
+    this.origin = new URL(siteUrl).origin;
+    this.cookies = settings.cookieJar ? SiteAuth.parseCookieJar(settings.cookieJar) : [];
+
+    Object.assign(this.headers, settings.headers);
+    if (settings.basicUser && settings.basicPassword) {
+      const credentials = Buffer.from(`${settings.basicUser}:${settings.basicPassword}`).toString('base64');
+      this.headers['Authorization'] = `Basic ${credentials}`;
+    } else if (settings.bearerToken) {
+      this.headers['Authorization'] = `Bearer ${settings.bearerToken}`;
+    }
+  }
+
+  isConfigured(): boolean {
+    return Object.keys(this.headers).length > 0 || this.cookies.length > 0;
+  }
+
+  headersFor(url: string): Record<string, string> {
+    const target = new URL(url);
+    if (target.origin !== this.origin) {
+      return {};
+    }
+
+    const headers = { ...this.headers };
+    const cookieHeader = this.cookieHeaderFor(target);
+    if (cookieHeader) {
+      headers['Cookie'] = headers['Cookie'] ? `${headers['Cookie']}; ${cookieHeader}` : cookieHeader;
+    }
+    return headers;
+  }
+
+  private cookieHeaderFor(target: URL): string {
+    const now = Date.now() / 1000;
+    const host = target.hostname.toLowerCase();
+
+    return this.cookies
+      .filter(cookie => {
+        const domain = cookie.domain.replace(/^\./, '').toLowerCase();
+        const domainMatches = host === domain || (cookie.includeSubdomains && host.endsWith(`.${domain}`));
+        return domainMatches &&
+          target.pathname.startsWith(cookie.path) &&
+          (!cookie.secure || target.protocol === 'https:') &&
+          (cookie.expires === 0 || cookie.expires > now);
+      })
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  /**
+   * Parses the Netscape cookies.txt format written by browsers' export
+   * extensions and curl: tab-separated domain, subdomain flag, path, secure
+   * flag, expiry, name and value.
+   */
+  static parseCookieJar(text: string): Cookie[] {
+    const cookies: Cookie[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      // curl marks HttpOnly cookies with a prefix on an otherwise commented-out line
+      const line = rawLine.startsWith('#HttpOnly_') ? rawLine.substring('#HttpOnly_'.length) : rawLine;
+      if (!line.trim() || line.startsWith('#')) continue;
+
+      const fields = line.split('\t');
+      if (fields.length < 7) continue;
+
+      const [domain, includeSubdomains, path, secure, expires, name, ...valueParts] = fields;
+      cookies.push({
+        domain,
+        includeSubdomains: includeSubdomains.toUpperCase() === 'TRUE',
+        path: path || '/',
+        secure: secure.toUpperCase() === 'TRUE',
+        expires: parseInt(expires, 10) || 0,
+        name,
+        value: valueParts.join('\t')
+      });
+    }
+
+    return cookies;
+  }
+
+  /**
+   * Returns why a response looks like an authentication wall rather than
+   * content, or null when it looks fine.
+   */
+  static detectAuthFailure(requestedUrl: string, response: Response): string | null {
+    if (response.status === 401 || response.status === 403) {
+      return `HTTP ${response.status}`;
+    }
+
+    const finalUrl = response.url || requestedUrl;
+    if (finalUrl !== requestedUrl && SiteAuth.isLoginUrl(finalUrl)) {
+      return `redirected to login page ${new URL(finalUrl).origin}${new URL(finalUrl).pathname}`;
+    }
+
+    return null;
+  }
+
+  static isLoginUrl(url: string): boolean {
+    try {
+      const { hostname, pathname } = new URL(url);
+      return LOGIN_PATH_PATTERN.test(pathname) || LOGIN_HOST_PATTERN.test(hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  // A sign-in form served with 200 at the requested URL
+  static looksLikeLoginPage($: CheerioAPI): boolean {
+    return $('form input[type="password"]').length > 0;
+  }
+}
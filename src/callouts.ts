@@ -0,0 +1,278 @@
+import * as cheerio from 'cheerio';
+import { forEachMarkdownLine, markdownToPlainText } from './markdownUtils.js';
+
+// The GitHub alert types callouts render as; `caution` covers danger and error blocks
+export type CalloutType = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+// A note, tip or warning block from a page
+export interface PageCallout {
+  type: CalloutType;
+  title?: string;       // Custom title; left out when it only repeats the type ("Warning")
+  text: string;
+  heading?: string;     // Nearest heading above the callout
+}
+
+// Callout kinds as platforms name them, mapped to the type they render as
+const CALLOUT_KINDS: Record<string, CalloutType> = {
+  note: 'note', info: 'note', information: 'note', abstract: 'note', summary: 'note', tldr: 'note',
+  seealso: 'note', todo: 'note', example: 'note', question: 'note', quote: 'note', secondary: 'note',
+  tip: 'tip', hint: 'tip', success: 'tip', check: 'tip', done: 'tip', help: 'tip', faq: 'tip',
+  important: 'important',
+  warning: 'warning', warn: 'warning', caution: 'warning', attention: 'warning',
+  danger: 'caution', error: 'caution', failure: 'caution', fail: 'caution', bug: 'caution', critical: 'caution'
+};
+
+interface CalloutForm {
+  matches: (tagName: string, classes: string[]) => boolean;
+  kindPrefixes: string[];   // Class prefixes naming the kind ('' when the kind is a class of its own)
+  titleSelector?: string;
+}
+
+// How each platform marks callouts up; the first class naming a known kind gives the type
+const CALLOUT_FORMS: CalloutForm[] = [
+  // GitBook hints: <div class="hint hint-warning">
+  { matches: (tagName, classes) => tagName === 'div' && classes.includes('hint'), kindPrefixes: ['hint-'] },
+  // Docusaurus: theme-admonition theme-admonition-warning alert alert--warning (v1: admonition admonition-warning alert)
+  {
+    matches: (_, classes) => classes.includes('theme-admonition') || (classes.includes('admonition') && classes.includes('alert')),
+    kindPrefixes: ['theme-admonition-', 'admonition-', 'alert--'],
+    titleSelector: '[class*="admonitionHeading"], .admonition-heading'
+  },
+  // MkDocs and Sphinx: <div class="admonition warning"> with a p.admonition-title; MkDocs ??? blocks are <details class="warning">
+  {
+    matches: (tagName, classes) => classes.includes('admonition') || (tagName === 'details' && classes.some(name => name in CALLOUT_KINDS)),
+    kindPrefixes: [''],
+    titleSelector: '.admonition-title, summary'
+  },
+  // GitHub alerts rendered to HTML: <div class="markdown-alert markdown-alert-warning">
+  { matches: (_, classes) => classes.includes('markdown-alert'), kindPrefixes: ['markdown-alert-'], titleSelector: '.markdown-alert-title' }
+];
+
+const CALLOUT_SELECTOR = '.hint, .admonition, .theme-admonition, details, .markdown-alert';
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+// Docusaurus `:::warning Title` / `:::warning[Title]`, MkDocs `!!! warning "Title"` / `??? warning`, GitBook `{% hint style="warning" %}`
+const DOCUSAURUS_OPEN = /^\s*:{3,}\s*([A-Za-z]+)\s*(?:\[(.*)\]|(.*))$/;
+const DOCUSAURUS_CLOSE = /^\s*:{3,}\s*$/;
+const MKDOCS_OPEN = /^(\s*)(?:!!!|\?\?\?\+?)\s+([\w-]+)(?:\s+"([^"]*)")?\s*$/;
+const GITBOOK_OPEN = /^\s*\{%\s*hint\s+style=["']?(\w+)["']?\s*%\}\s*$/;
+const GITBOOK_CLOSE = /^\s*\{%\s*endhint\s*%\}\s*$/;
+const ALERT_MARKER = /^\s*>\s*\[!(\w+)\]\s*(.*)$/;
+const ALERT_TYPES: CalloutType[] = ['note', 'tip', 'important', 'warning', 'caution'];
+
+/**
+ * Finds warning, tip and note blocks across the platforms' markup and renders
+ * them as GitHub alerts (`> [!WARNING]`), so they survive conversion to
+ * markdown with their type instead of reading as plain paragraphs.
+ */
+export class PageCallouts {
+  // Type of the callout an element marks up, or undefined when it isn't one
+  static typeOf(tagName: string, className: string): CalloutType | undefined {
+    const classes = className.split(/\s+/).filter(Boolean);
+    const form = CALLOUT_FORMS.find(candidate => candidate.matches(tagName.toLowerCase(), classes));
+    if (!form) return undefined;
+
+    for (const name of classes) {
+      for (const prefix of form.kindPrefixes) {
+        const kind = name.startsWith(prefix) ? CALLOUT_KINDS[name.slice(prefix.length).toLowerCase()] : undefined;
+        if (kind) return kind;
+      }
+    }
+    return 'note';
+  }
+
+  // Callouts inside `root`, the page's content element
+  static fromHtml($: cheerio.CheerioAPI, root: cheerio.Cheerio<any>): PageCallout[] {
+    const callouts: PageCallout[] = [];
+    let heading: string | undefined;
+
+    root.find(`${HEADING_SELECTOR}, ${CALLOUT_SELECTOR}`).each((_, element) => {
+      const $el = $(element);
+      if (/^h[1-6]$/.test(element.tagName)) {
+        // Headings inside a callout don't move the callouts after it
+        if (!$el.parents().toArray().some(parent => PageCallouts.isCallout(parent))) {
+          heading = cleanText($el.text()) || heading;
+        }
+        return;
+      }
+
+      // Nested callouts are listed on their own rather than as part of this one's text
+      const callout = PageCallouts.read($, $el, body => {
+        body.find(CALLOUT_SELECTOR).filter((_, nested) => PageCallouts.isCallout(nested)).remove();
+        return blockText(body);
+      });
+      if (callout && callout.body) {
+        callouts.push({ type: callout.type, title: callout.title, text: callout.body, heading });
+      }
+    });
+
+    return callouts;
+  }
+
+  /**
+   * The type, title and body of a callout element, or null when it isn't one.
+   * `bodyValue` turns the body (the element without its title) into the stored
+   * string: plain text for data, markdown when rendering.
+   */
+  static read(
+    $: cheerio.CheerioAPI,
+    element: cheerio.Cheerio<any>,
+    bodyValue: (body: cheerio.Cheerio<any>) => string
+  ): { type: CalloutType; title?: string; body: string } | null {
+    const node = element[0];
+    const type = node ? PageCallouts.typeOf(node.tagName || '', element.attr('class') || '') : undefined;
+    if (!type) return null;
+
+    const form = CALLOUT_FORMS.find(candidate => candidate.matches(node.tagName.toLowerCase(), (element.attr('class') || '').split(/\s+/)));
+    const body = element.clone();
+    let title: string | undefined;
+    if (form?.titleSelector) {
+      // The callout's own title, not one of a callout nested in it
+      const ownTitle = element.find(form.titleSelector).filter((_, candidate) =>
+        $(candidate).parents().toArray().find(parent => PageCallouts.isCallout(parent)) === node
+      ).first();
+      if (ownTitle.length > 0) {
+        title = cleanText(ownTitle.text());
+        const index = element.find('*').index(ownTitle);
+        body.find('*').eq(index).remove();
+      }
+    }
+
+    // Default titles only repeat the type
+    if (title && (CALLOUT_KINDS[title.toLowerCase()] || title.toLowerCase() === type)) title = undefined;
+    return { type, title: title || undefined, body: bodyValue(body) };
+  }
+
+  /**
+   * Rewrites the callout syntaxes of Docusaurus (`:::note`), MkDocs (`!!! note`,
+   * `??? note`) and GitBook (`{% hint %}`) as GitHub alerts.
+   */
+  static normalizeMarkdown(markdown: string): string {
+    const output: string[] = [];
+    // Open callouts, innermost last; MkDocs blocks end by indentation instead of a closing line
+    const open: Array<{ close?: RegExp; indent?: number }> = [];
+    const quote = () => '> '.repeat(open.length);
+    const close = () => {
+      // Blank lines at the end of the block go with it
+      while (output.length > 0 && output[output.length - 1] === quote().trimEnd()) output.pop();
+      open.pop();
+      output.push(quote().trimEnd());
+    };
+
+    forEachMarkdownLine(markdown, (line, inFence) => {
+      while (open.length > 0 && open[open.length - 1].indent !== undefined && line.trim() && indentOf(line) < open[open.length - 1].indent!) {
+        close();
+      }
+      const indent = Math.max(0, ...open.map(block => block.indent ?? 0));
+      const body = line.slice(Math.min(indentOf(line), indent));
+
+      if (!inFence) {
+        const top = open[open.length - 1];
+        if (top?.close?.test(body)) {
+          close();
+          return;
+        }
+
+        const docusaurus = body.match(DOCUSAURUS_OPEN);
+        const mkdocs = body.match(MKDOCS_OPEN);
+        const gitbook = body.match(GITBOOK_OPEN);
+        if (docusaurus || mkdocs || gitbook) {
+          const kind = (docusaurus?.[1] ?? mkdocs?.[2] ?? gitbook?.[1] ?? '').toLowerCase();
+          const title = cleanText(docusaurus?.[2] ?? docusaurus?.[3] ?? mkdocs?.[3] ?? '');
+          const type = CALLOUT_KINDS[kind] ?? 'note';
+          output.push(`${quote()}> [!${type.toUpperCase()}]`);
+          if (title && title.toLowerCase() !== kind) output.push(`${quote()}> **${title}**`);
+          open.push(mkdocs
+            ? { indent: indent + mkdocs[1].length + 4 }
+            : { close: docusaurus ? DOCUSAURUS_CLOSE : GITBOOK_CLOSE });
+          return;
+        }
+      }
+
+      output.push(body.trim() || inFence ? quote() + body : quote().trimEnd());
+    });
+
+    return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  // GitHub alerts (`> [!WARNING]`) in markdown, including nested ones
+  static fromMarkdown(markdown: string): PageCallout[] {
+    const lines: string[] = [];
+    forEachMarkdownLine(markdown, (line, inFence) => lines.push(inFence ? '' : line));
+
+    const callouts: PageCallout[] = [];
+    let heading: string | undefined;
+    for (let i = 0; i < lines.length; i++) {
+      const headingMatch = lines[i].match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+      if (headingMatch) {
+        heading = cleanText(markdownToPlainText(headingMatch[1]));
+        continue;
+      }
+      const marker = lines[i].match(ALERT_MARKER);
+      const type = marker ? alertType(marker[1]) : undefined;
+      if (!marker || !type) continue;
+
+      const body: string[] = [];
+      while (i + 1 < lines.length && /^\s*>/.test(lines[i + 1])) {
+        body.push(lines[++i].replace(/^\s*>\s?/, ''));
+      }
+      let title = cleanText(marker[2]) || undefined;
+      const boldTitle = body[0]?.match(/^\*\*(.+)\*\*\s*$/);
+      if (!title && boldTitle) {
+        title = cleanText(boldTitle[1]);
+        body.shift();
+      }
+
+      // Nested alerts are listed on their own rather than as part of this one's text
+      const ownLines = body.filter((line, index) => !body.slice(0, index + 1).some((previous, start) =>
+        ALERT_MARKER.test(previous) && body.slice(start, index + 1).every(quoted => /^\s*>/.test(quoted))
+      ));
+      const text = cleanText(markdownToPlainText(ownLines.join('\n')));
+      if (text) callouts.push({ type, title, text, heading });
+      callouts.push(...PageCallouts.fromMarkdown(body.join('\n')).map(nested => ({ ...nested, heading: nested.heading ?? heading })));
+    }
+    return callouts;
+  }
+
+  static toMarkdown(callout: { type: CalloutType; title?: string; body: string }): string {
+    const lines = [
+      `[!${callout.type.toUpperCase()}]`,
+      ...(callout.title ? [`**${callout.title}**`] : []),
+      ...callout.body.trim().split('\n')
+    ];
+    return lines.map(line => line.trim() ? `> ${line}` : '>').join('\n');
+  }
+
+  // Counts for page outlines; `warnings` covers warning and caution blocks
+  static summarize(callouts: PageCallout[]): { total: number; warnings: number; byType: Partial<Record<CalloutType, number>> } {
+    const byType: Partial<Record<CalloutType, number>> = {};
+    for (const callout of callouts) byType[callout.type] = (byType[callout.type] || 0) + 1;
+    return { total: callouts.length, warnings: (byType.warning || 0) + (byType.caution || 0), byType };
+  }
+
+  private static isCallout(element: any): boolean {
+    return Boolean(element.tagName && PageCallouts.typeOf(element.tagName, element.attribs?.class || ''));
+  }
+}
+
+// Paragraphs and list items inside the callout are separated instead of running words together
+function blockText(body: cheerio.Cheerio<any>): string {
+  body.find('br').replaceWith(' ');
+  body.find('p, li, div, pre').before(' ').after(' ');
+  return cleanText(body.text());
+}
+
+// GitHub alert names map to their own type; other names (Obsidian's `[!danger]`) through the platform kinds
+function alertType(name: string): CalloutType | undefined {
+  const lower = name.toLowerCase() as CalloutType;
+  return ALERT_TYPES.includes(lower) ? lower : CALLOUT_KINDS[lower];
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].length;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
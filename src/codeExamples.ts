@@ -0,0 +1,269 @@
+import * as cheerio from 'cheerio';
+import type { CodeBlock } from './scraper.js';
+import { extractCodeFences, forEachMarkdownLine, markdownToPlainText } from './markdownUtils.js';
+
+// One example shown in several languages as a group of tabs
+export interface CodeExample {
+  heading?: string;     // Nearest heading above the tabs
+  variants: CodeVariant[];
+}
+
+export interface CodeVariant {
+  label: string;        // Tab label as shown ("Python", "cURL")
+  language: string;
+  block: number;        // Index of the tab's code in the page's codeBlocks
+}
+
+// A tab group as read from the page, before its tabs are matched to code blocks
+export interface CodeTabGroup {
+  heading?: string;
+  tabs: Array<{ label: string; language?: string; code: string }>;
+}
+
+// Tab labels and language aliases, mapped to the language name code blocks use
+const LANGUAGE_NAMES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', node: 'javascript', 'node.js': 'javascript', nodejs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python', python3: 'python',
+  golang: 'go', rb: 'ruby', rs: 'rust', kt: 'kotlin', 'c++': 'cpp', yml: 'yaml',
+  'c#': 'csharp', cs: 'csharp', '.net': 'csharp', dotnet: 'csharp',
+  curl: 'bash', shell: 'bash', sh: 'bash', zsh: 'bash', console: 'bash', terminal: 'bash', cli: 'bash',
+  npm: 'bash', yarn: 'bash', pnpm: 'bash'
+};
+
+const TAB_LANGUAGES = new Set([
+  'javascript', 'typescript', 'python', 'go', 'ruby', 'rust', 'kotlin', 'java', 'php', 'swift', 'scala',
+  'csharp', 'cpp', 'c', 'bash', 'powershell', 'dart', 'elixir', 'http', 'graphql', 'sql', 'json', 'yaml', 'xml'
+]);
+
+// How each platform marks tab groups up; labels and panels are paired in order
+const TAB_GROUP_FORMS = [
+  // Docusaurus <Tabs>, and GitBook tabs rendered from hydration data
+  { selector: '.tabs-container', tabs: '[role="tab"]', panels: '[role="tabpanel"]' },
+  // MkDocs Material content tabs; older versions put each label right before its .tabbed-content
+  { selector: '.tabbed-set', tabs: '.tabbed-labels > label, .tabbed-set > label', panels: '.tabbed-block, .tabbed-set > .tabbed-content:not(:has(.tabbed-block))' },
+  // sphinx-design and sphinx-tabs
+  { selector: '.sd-tab-set', tabs: '.sd-tab-label', panels: '.sd-tab-content' },
+  { selector: '.sphinx-tabs', tabs: '[role="tab"]', panels: '[role="tabpanel"]' }
+];
+
+const GROUP_SELECTOR = TAB_GROUP_FORMS.map(form => form.selector).join(', ');
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+// MkDocs `=== "Python"`, GitBook `{% tab title="Python" %}`, and the `**Python**` labels mdxToMarkdown leaves for <TabItem>
+const MKDOCS_TAB = /^(\s*)===\+?\s+"([^"]*)"\s*$/;
+const GITBOOK_TABS_OPEN = /^\s*\{%\s*tabs\s*%\}\s*$/;
+const GITBOOK_TABS_CLOSE = /^\s*\{%\s*endtabs\s*%\}\s*$/;
+const GITBOOK_TAB_OPEN = /^\s*\{%\s*tab\s+title=["']([^"']*)["']\s*%\}\s*$/;
+const GITBOOK_TAB_CLOSE = /^\s*\{%\s*endtab\s*%\}\s*$/;
+const LABEL_LINE = /^\s*\*\*([^*]+)\*\*\s*$/;
+
+/**
+ * Finds examples shown in several languages as tabs (JS, Python, Go, cURL)
+ * and ties their code blocks together, so any tab can answer for the others.
+ */
+export class CodeExamples {
+  // Tab groups inside `root`, the page's content element, keeping tabs that hold code
+  static fromHtml($: cheerio.CheerioAPI, root: cheerio.Cheerio<any>): CodeTabGroup[] {
+    const groups: CodeTabGroup[] = [];
+    let heading: string | undefined;
+
+    root.find(`${HEADING_SELECTOR}, ${GROUP_SELECTOR}, [role="tablist"]`).each((_, element) => {
+      const $el = $(element);
+      if (/^h[1-6]$/.test(element.tagName)) {
+        if ($el.closest(`${GROUP_SELECTOR}, [role="tabpanel"]`).length === 0) heading = cleanText($el.text()) || heading;
+        return;
+      }
+
+      const form = TAB_GROUP_FORMS.find(candidate => $el.is(candidate.selector));
+      let tabs: cheerio.Cheerio<any>;
+      let panels: cheerio.Cheerio<any>;
+      if (form) {
+        // Labels and panels of this group, not of a group nested in one of its panels
+        const own = (selector: string) => $el.find(selector).filter((_, child) => $(child).parent().closest(GROUP_SELECTOR)[0] === element);
+        tabs = own(form.tabs);
+        panels = own(form.panels);
+      } else {
+        // A bare ARIA tablist; the ones inside known groups were read with their group
+        if ($el.closest(GROUP_SELECTOR).length > 0) return;
+        tabs = $el.find('[role="tab"]');
+        const controls = tabs.toArray().map(tab => $(tab).attr('aria-controls')).filter((id): id is string => Boolean(id));
+        panels = controls.length === tabs.length && controls.length > 0
+          ? $(controls.map(id => root.find(`[id="${id.replace(/["\\]/g, '\\$&')}"]`)[0]).filter(Boolean))
+          : $el.parent().find('[role="tabpanel"]');
+      }
+
+      const group: CodeTabGroup = { heading, tabs: [] };
+      panels.each((index, panel) => {
+        const $panel = $(panel);
+        const pre = $panel.find('pre').first();
+        if (pre.length === 0) return;
+        const code = pre.find('code').first().length > 0 ? pre.find('code').first() : pre;
+        const text = code.text().trim();
+        if (!text) return;
+
+        const label = cleanText(tabs.eq(index).text()) || cleanText($panel.attr('aria-label') || $panel.attr('data-label') || '');
+        const language = explicitLanguage(code, pre, pre.parent().closest('[class*="language-"], [data-language]')) ||
+          CodeExamples.languageForLabel(label);
+        group.tabs.push({ label: label || language || `Tab ${index + 1}`, language, code: text });
+      });
+
+      if (group.tabs.length >= 2) groups.push(group);
+    });
+
+    return groups;
+  }
+
+  // Tab groups in Markdown/MDX: MkDocs `===` tabs, GitBook `{% tabs %}` and labelled MDX <TabItem>s
+  static fromMarkdown(markdown: string): CodeTabGroup[] {
+    const lines = markdown.split('\n');
+    const fenced: boolean[] = [];
+    forEachMarkdownLine(markdown, (_, inFence) => fenced.push(inFence));
+
+    const headings: Array<{ line: number; text: string }> = [];
+    lines.forEach((line, index) => {
+      const match = !fenced[index] && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+      if (match) headings.push({ line: index, text: cleanText(markdownToPlainText(match[1])) });
+    });
+    const headingAt = (line: number) => headings.filter(heading => heading.line < line).pop()?.text;
+
+    const groups: Array<{ line: number; tabs: Array<{ label: string; body: string[] }> }> = [];
+    const nextContent = (from: number) => {
+      let index = from;
+      while (index < lines.length && !lines[index].trim()) index++;
+      return index;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      if (fenced[i]) continue;
+
+      const mkdocs = lines[i].match(MKDOCS_TAB);
+      if (mkdocs) {
+        // Consecutive === blocks at the same indent form one group
+        const group = { line: i, tabs: [] as Array<{ label: string; body: string[] }> };
+        const indent = mkdocs[1].length;
+        let tab: RegExpMatchArray | null = mkdocs;
+        while (tab && tab[1].length === indent) {
+          const body: string[] = [];
+          i++;
+          while (i < lines.length && (!lines[i].trim() || indentOf(lines[i]) > indent)) {
+            body.push(lines[i].slice(Math.min(indentOf(lines[i]), indent + 4)));
+            i++;
+          }
+          group.tabs.push({ label: tab[2], body });
+          tab = i < lines.length ? lines[i].match(MKDOCS_TAB) : null;
+        }
+        i--;
+        groups.push(group);
+        continue;
+      }
+
+      if (GITBOOK_TABS_OPEN.test(lines[i])) {
+        const group = { line: i, tabs: [] as Array<{ label: string; body: string[] }> };
+        for (i++; i < lines.length && !(!fenced[i] && GITBOOK_TABS_CLOSE.test(lines[i])); i++) {
+          const open = !fenced[i] && lines[i].match(GITBOOK_TAB_OPEN);
+          if (open) {
+            group.tabs.push({ label: open[1], body: [] });
+          } else if (group.tabs.length > 0 && !(!fenced[i] && GITBOOK_TAB_CLOSE.test(lines[i]))) {
+            group.tabs[group.tabs.length - 1].body.push(lines[i]);
+          }
+        }
+        groups.push(group);
+        continue;
+      }
+
+      // Label lines each directly followed by a code fence
+      if (LABEL_LINE.test(lines[i])) {
+        const group = { line: i, tabs: [] as Array<{ label: string; body: string[] }> };
+        let labelLine = i;
+        while (labelLine < lines.length && !fenced[labelLine]) {
+          const label = lines[labelLine].match(LABEL_LINE);
+          const fenceStart = nextContent(labelLine + 1);
+          if (!label || !fenced[fenceStart]) break;
+          let fenceEnd = fenceStart;
+          while (fenceEnd < lines.length && fenced[fenceEnd]) fenceEnd++;
+          group.tabs.push({ label: label[1], body: lines.slice(fenceStart, fenceEnd) });
+          i = fenceEnd - 1;
+          labelLine = nextContent(fenceEnd);
+        }
+        groups.push(group);
+      }
+    }
+
+    return groups.map(group => ({
+      heading: headingAt(group.line),
+      tabs: group.tabs.flatMap(tab => {
+        const block = extractCodeFences(tab.body.join('\n'))[0];
+        if (!block) return [];
+        const language = (block.language !== 'text' ? block.language : undefined) || CodeExamples.languageForLabel(tab.label);
+        return [{ label: cleanText(tab.label) || language || 'Tab', language, code: block.code }];
+      })
+    })).filter(group => group.tabs.length >= 2);
+  }
+
+  /**
+   * Ties tab groups to the page's code blocks: each block found in a group is
+   * marked with its example and tab, and gets the tab's language when its own
+   * couldn't be read (inactive tabs often lose it).
+   */
+  static link(blocks: CodeBlock[], groups: CodeTabGroup[]): CodeExample[] {
+    const examples: CodeExample[] = [];
+    for (const group of groups) {
+      const variants: CodeVariant[] = [];
+      for (const tab of group.tabs) {
+        const index = blocks.findIndex((block, blockIndex) =>
+          block.example === undefined && block.code === tab.code && !variants.some(variant => variant.block === blockIndex)
+        );
+        if (index === -1) continue;
+        variants.push({ label: tab.label, language: tab.language || blocks[index].language, block: index });
+      }
+      if (variants.length < 2) continue;
+
+      for (const variant of variants) {
+        blocks[variant.block].example = examples.length;
+        blocks[variant.block].tab = variant.label;
+        blocks[variant.block].language = variant.language;
+      }
+      examples.push({ heading: group.heading, variants });
+    }
+    return examples;
+  }
+
+  // The language a tab label names ("Node.js" is javascript, "cURL" is bash), if it names one
+  static languageForLabel(label: string): string | undefined {
+    const lower = label.trim().toLowerCase();
+    const candidates = [lower, lower.replace(/\s*\(.*\)\s*$/, ''), lower.split(/\s+/)[0]];
+    return candidates.map(canonicalLanguage).find(language => TAB_LANGUAGES.has(language));
+  }
+
+  static sameLanguage(a: string, b: string): boolean {
+    return canonicalLanguage(a) === canonicalLanguage(b);
+  }
+
+  // The index of the block showing `example` in `language`, or -1
+  static variantIn(example: CodeExample | undefined, language: string): number {
+    return example?.variants.find(variant => CodeExamples.sameLanguage(variant.language, language))?.block ?? -1;
+  }
+}
+
+function canonicalLanguage(name: string): string {
+  const lower = name.trim().toLowerCase();
+  return LANGUAGE_NAMES[lower] ?? lower;
+}
+
+function explicitLanguage(...elements: cheerio.Cheerio<any>[]): string | undefined {
+  for (const element of elements) {
+    const fromClass = (element.attr('class') || '').match(/(?:^|\s)(?:language|lang)-([\w+#-]+)/)?.[1];
+    const language = fromClass || element.attr('data-lang') || element.attr('data-language');
+    if (language) return language.toLowerCase();
+  }
+  return undefined;
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].length;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -1,6 +1,8 @@
 import { config } from 'dotenv';
+import { existsSync, readFileSync, statSync } from 'fs';
 import os from 'os';
 import path from 'path';
+import { pathToFileURL } from 'url';
 
 // Load environment variables from the binary's directory (not CWD)
 // In CommonJS, __dirname points to the compiled dist directory
@@ -8,14 +10,53 @@ const envPath = path.join(__dirname, '..', '.env'); // dist/../.env
 
 config({ path: envPath });
 
+// Optional JSON config file for settings that don't fit in env vars (lists, nested rules)
+const configFilePath = process.env.CONFIG_FILE || path.join(__dirname, '..', 'mcpbook.config.json');
+let configFileError: string | null = null;
+
+function loadConfigFile(): any {
+  if (!existsSync(configFilePath)) return {};
+  try {
+    return JSON.parse(readFileSync(configFilePath, 'utf-8'));
+  } catch (error) {
+    configFileError = error instanceof Error ? error.message : String(error);
+    return {};
+  }
+}
+
+const fileConfig = loadConfigFile();
+
+export type DocsSource = 'web' | 'local' | 'git';
+
 export interface GitBookConfig {
   gitbookUrl: string;
+  docsSource: DocsSource;   // Crawl the site at GITBOOK_URL, read LOCAL_DOCS_PATH, or read GIT_REPO
+  localDocsPath: string;    // Directory of Markdown/MDX files when docsSource is 'local'
+  gitRepo: string;          // Local repository path or clone URL when docsSource is 'git'
+  gitDocsPath: string;      // Docs folder inside the repository; empty = repository root
+  gitBranch: string;        // Branch to track in a cloned repository; empty = the remote's default
   cacheTtlHours: number;
   cacheFile: string;
   scrapingDelayMs: number;
   maxRetries: number;
   requestTimeoutMs: number;
+  crawlDeadlineMs: number; // 0 = no limit on a whole crawl
   maxConcurrentRequests: number;
+  userAgent: string;
+  respectRobotsTxt: boolean;
+  useLlmsTxt: boolean;
+  crawlInclude: string[];
+  crawlExclude: string[];
+  crawlMaxDepth: number;
+  crawlMaxPages: number;
+  allowedOrigins: string[];
+  stalePageMissLimit: number;
+  versionPattern: string;   // Regex whose first group is the version in a page path; empty = auto-detect
+  defaultVersion: string;   // Version searched when none is requested; empty = latest release
+  openApiSpecs: string[];   // OpenAPI/Swagger spec files or URLs to ingest besides discovered ones
+  discoverOpenApi: boolean; // Ingest specs linked from crawled pages or found in the docs directory
+  indexPdfs: boolean;       // Download linked PDFs within the crawl scope and index their text
+  pdfMaxSizeMb: number;     // PDFs larger than this are skipped
   serverName: string;
   serverDescription: string;
   domainKeywords: string[];
@@ -46,6 +87,113 @@ function getEnvArray(key: string, defaultValue: string[]): string[] {
   return value ? value.split(',').map(s => s.trim()) : defaultValue;
 }
 
+function getFileArray(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.map(String) : undefined;
+}
+
+function getFileNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+export interface AuthSettings {
+  headers: Record<string, string>;
+  cookieJar?: string; // Contents of a Netscape cookies.txt file
+  basicUser?: string;
+  basicPassword?: string;
+  bearerToken?: string;
+}
+
+// Credentials stay out of gitBookConfig so they can't end up in logs, status output or metadata
+let authSettingsError: string | null = null;
+const authSettings: AuthSettings = loadAuthSettings();
+
+// Secrets can be given inline or, preferably, through a KEY_FILE pointing at a file
+function readSecret(key: string): string | undefined {
+  const filePath = process.env[`${key}_FILE`];
+  if (filePath) {
+    try {
+      return readFileSync(filePath, 'utf-8').trim();
+    } catch (error) {
+      throw new Error(`Cannot read ${key}_FILE (${filePath})`);
+    }
+  }
+  return process.env[key] || undefined;
+}
+
+function loadAuthSettings(): AuthSettings {
+  try {
+    let headers: Record<string, string> = {};
+    const rawHeaders = readSecret('AUTH_HEADERS');
+    if (rawHeaders) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(rawHeaders);
+      } catch {
+        // The parser's message quotes the input, which may contain secrets
+        throw new Error('AUTH_HEADERS is not valid JSON');
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) ||
+          Object.values(parsed).some(value => typeof value !== 'string')) {
+        throw new Error('AUTH_HEADERS must be a JSON object mapping header names to string values');
+      }
+      headers = parsed as Record<string, string>;
+    }
+
+    let cookieJar: string | undefined;
+    const cookieFile = process.env.AUTH_COOKIE_FILE;
+    if (cookieFile) {
+      try {
+        cookieJar = readFileSync(cookieFile, 'utf-8');
+      } catch (error) {
+        throw new Error(`Cannot read AUTH_COOKIE_FILE (${cookieFile})`);
+      }
+    }
+
+    return {
+      headers,
+      cookieJar,
+      basicUser: readSecret('AUTH_BASIC_USER'),
+      basicPassword: readSecret('AUTH_BASIC_PASSWORD'),
+      bearerToken: readSecret('AUTH_BEARER_TOKEN'),
+    };
+  } catch (error) {
+    authSettingsError = error instanceof Error ? error.message : String(error);
+    return { headers: {} };
+  }
+}
+
+export function getAuthSettings(): AuthSettings {
+  return authSettings;
+}
+
+// Names the configured auth methods without revealing any values
+export function describeAuthSettings(): string {
+  const methods: string[] = [];
+  const headerNames = Object.keys(authSettings.headers);
+  if (headerNames.length > 0) methods.push(`headers (${headerNames.join(', ')})`);
+  if (authSettings.cookieJar) methods.push('cookie jar');
+  if (authSettings.basicUser) methods.push('basic auth');
+  if (authSettings.bearerToken) methods.push('bearer token');
+  return methods.join(', ') || 'none';
+}
+
+// Clone URLs (https://, ssh://, git@host:org/repo) as opposed to a path on disk
+export function isRemoteRepo(repo: string): boolean {
+  return /^(https?|ssh|git|file):\/\//.test(repo) || /^[\w.-]+@[\w.-]+:/.test(repo);
+}
+
+/**
+ * Working copy of GIT_REPO: the repository itself when it is a local path,
+ * else a clone kept in the cache directory.
+ */
+export function getGitCheckoutPath(repo: string = gitBookConfig.gitRepo): string {
+  if (!isRemoteRepo(repo)) {
+    return path.resolve(repo);
+  }
+  const name = repo.replace(/\.git$/, '').replace(/^[a-z]+:\/\//, '').replace(/[^a-zA-Z0-9-]/g, '-').replace(/^-+/, '');
+  return path.join(getCacheDirectory(), 'repos', name);
+}
+
 function generateCacheFileName(gitbookUrl: string): string {
   // Create a safe filename from the GitBook URL
   const urlObject = new URL(gitbookUrl);
@@ -69,14 +217,44 @@ function getCacheDirectory(): string {
   }
 }
 
+const docsSource = getEnvVar('DOCS_SOURCE', 'web') as DocsSource;
+const gitRepo = getEnvVar('GIT_REPO', '');
+const gitDocsPath = getEnvVar('GIT_DOCS_PATH', '');
+const localDocsPath = docsSource === 'git' && gitRepo
+  ? path.join(getGitCheckoutPath(gitRepo), gitDocsPath)
+  : getEnvVar('LOCAL_DOCS_PATH', '');
+
 export const gitBookConfig: GitBookConfig = {
-  gitbookUrl: getEnvVar('GITBOOK_URL', ''),
+  // Local docs don't need a site URL: the directory's file URL names the cache and store
+  gitbookUrl: getEnvVar('GITBOOK_URL', docsSource !== 'web' && localDocsPath ? pathToFileURL(path.resolve(localDocsPath)).href : ''),
+  docsSource,
+  localDocsPath,
+  gitRepo,
+  gitDocsPath,
+  gitBranch: getEnvVar('GIT_BRANCH', ''),
   cacheTtlHours: getEnvNumber('CACHE_TTL_HOURS', 1),
   cacheFile: getEnvVar('CACHE_FILE', ''), // Will be generated based on GitBook URL
   scrapingDelayMs: getEnvNumber('SCRAPING_DELAY_MS', 25),
   maxRetries: getEnvNumber('MAX_RETRIES', 3),
   requestTimeoutMs: getEnvNumber('REQUEST_TIMEOUT_MS', 30000),
+  crawlDeadlineMs: getEnvNumber('CRAWL_DEADLINE_MS', 0),
   maxConcurrentRequests: getEnvNumber('MAX_CONCURRENT_REQUESTS', 15),
+  userAgent: getEnvVar('USER_AGENT', `mcpbook/${getEnvVar('SERVER_VERSION', '1.0.0')} (+https://github.com/tcsenpai/mcpbook)`),
+  respectRobotsTxt: getEnvBoolean('RESPECT_ROBOTS_TXT', true),
+  useLlmsTxt: getEnvBoolean('USE_LLMS_TXT', true),
+  // Env vars win over the config file's "crawl" block
+  crawlInclude: getEnvArray('CRAWL_INCLUDE', getFileArray(fileConfig.crawl?.include) || []),
+  crawlExclude: getEnvArray('CRAWL_EXCLUDE', getFileArray(fileConfig.crawl?.exclude) || []),
+  crawlMaxDepth: getEnvNumber('CRAWL_MAX_DEPTH', getFileNumber(fileConfig.crawl?.maxDepth) ?? 0),
+  crawlMaxPages: getEnvNumber('CRAWL_MAX_PAGES', getFileNumber(fileConfig.crawl?.maxPages) ?? 0),
+  allowedOrigins: getEnvArray('ALLOWED_ORIGINS', getFileArray(fileConfig.crawl?.allowedOrigins) || []),
+  stalePageMissLimit: getEnvNumber('STALE_PAGE_MISS_LIMIT', 2),
+  versionPattern: getEnvVar('VERSION_PATTERN', fileConfig.versions?.pattern || ''),
+  defaultVersion: getEnvVar('DEFAULT_VERSION', fileConfig.versions?.default || ''),
+  openApiSpecs: getEnvArray('OPENAPI_SPECS', getFileArray(fileConfig.openapi?.specs) || []).filter(Boolean),
+  discoverOpenApi: getEnvBoolean('DISCOVER_OPENAPI', fileConfig.openapi?.discover ?? true),
+  indexPdfs: getEnvBoolean('INDEX_PDFS', false),
+  pdfMaxSizeMb: getEnvNumber('PDF_MAX_SIZE_MB', 20),
   serverName: getEnvVar('SERVER_NAME', ''),
   serverDescription: getEnvVar('SERVER_DESCRIPTION', ''),
   domainKeywords: getEnvArray('DOMAIN_KEYWORDS', []),
@@ -91,6 +269,35 @@ export const gitBookConfig: GitBookConfig = {
 
 // Validate configuration
 export function validateConfig(): void {
+  if (configFileError) {
+    throw new Error(`Invalid config file ${configFilePath}: ${configFileError}`);
+  }
+
+  if (!['web', 'local', 'git'].includes(gitBookConfig.docsSource)) {
+    throw new Error(`DOCS_SOURCE must be "web", "local" or "git", got: ${gitBookConfig.docsSource}`);
+  }
+
+  if (gitBookConfig.docsSource === 'local') {
+    if (!gitBookConfig.localDocsPath) {
+      throw new Error('LOCAL_DOCS_PATH is required when DOCS_SOURCE is "local"');
+    }
+    if (!existsSync(gitBookConfig.localDocsPath) || !statSync(gitBookConfig.localDocsPath).isDirectory()) {
+      throw new Error(`LOCAL_DOCS_PATH is not a directory: ${gitBookConfig.localDocsPath}`);
+    }
+  }
+
+  if (gitBookConfig.docsSource === 'git') {
+    if (!gitBookConfig.gitRepo) {
+      throw new Error('GIT_REPO is required when DOCS_SOURCE is "git"');
+    }
+    if (!isRemoteRepo(gitBookConfig.gitRepo) && !existsSync(path.join(gitBookConfig.gitRepo, '.git'))) {
+      throw new Error(`GIT_REPO is neither a clone URL nor a git repository: ${gitBookConfig.gitRepo}`);
+    }
+    if (path.isAbsolute(gitBookConfig.gitDocsPath) || gitBookConfig.gitDocsPath.split(/[\\/]/).includes('..')) {
+      throw new Error(`GIT_DOCS_PATH must be a folder inside the repository: ${gitBookConfig.gitDocsPath}`);
+    }
+  }
+
   if (!gitBookConfig.gitbookUrl || gitBookConfig.gitbookUrl.trim() === '') {
     throw new Error('GITBOOK_URL is required');
   }
@@ -117,9 +324,92 @@ export function validateConfig(): void {
     throw new Error('REQUEST_TIMEOUT_MS must be at least 1000ms');
   }
 
+  if (gitBookConfig.crawlDeadlineMs < 0) {
+    throw new Error('CRAWL_DEADLINE_MS must be non-negative (0 = unlimited)');
+  }
+
   if (gitBookConfig.maxConcurrentRequests < 1) {
     throw new Error('MAX_CONCURRENT_REQUESTS must be at least 1');
   }
+
+  if (gitBookConfig.crawlMaxDepth < 0) {
+    throw new Error('CRAWL_MAX_DEPTH must be non-negative (0 = unlimited)');
+  }
+
+  if (gitBookConfig.crawlMaxPages < 0) {
+    throw new Error('CRAWL_MAX_PAGES must be non-negative (0 = unlimited)');
+  }
+
+  for (const origin of gitBookConfig.allowedOrigins) {
+    let parsed: URL;
+    try {
+      parsed = new URL(origin);
+    } catch (error) {
+      throw new Error(`Invalid ALLOWED_ORIGINS entry: ${origin}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error(`ALLOWED_ORIGINS entries must be http(s) URLs: ${origin}`);
+    }
+  }
+
+  if (gitBookConfig.stalePageMissLimit < 1) {
+    throw new Error('STALE_PAGE_MISS_LIMIT must be at least 1');
+  }
+
+  for (const pattern of [...gitBookConfig.crawlInclude, ...gitBookConfig.crawlExclude]) {
+    const regexLiteral = pattern.match(/^\/(.+)\/([imsu]*)$/);
+    if (regexLiteral) {
+      try {
+        new RegExp(regexLiteral[1], regexLiteral[2]);
+      } catch (error) {
+        throw new Error(`Invalid crawl pattern ${pattern}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  if (gitBookConfig.versionPattern) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(gitBookConfig.versionPattern);
+    } catch (error) {
+      throw new Error(`Invalid VERSION_PATTERN: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!/\((?!\?)/.test(pattern.source)) {
+      throw new Error('VERSION_PATTERN needs a capture group around the version');
+    }
+  }
+
+  if (!gitBookConfig.userAgent.trim()) {
+    throw new Error('USER_AGENT must not be empty');
+  }
+
+  for (const spec of gitBookConfig.openApiSpecs) {
+    if (/^https?:\/\//.test(spec)) {
+      try {
+        new URL(spec);
+      } catch (error) {
+        throw new Error(`Invalid OPENAPI_SPECS URL: ${spec}`);
+      }
+    } else if (!existsSync(spec) || !statSync(spec).isFile()) {
+      throw new Error(`OPENAPI_SPECS entry is neither a URL nor a file: ${spec}`);
+    }
+  }
+
+  if (gitBookConfig.pdfMaxSizeMb <= 0) {
+    throw new Error('PDF_MAX_SIZE_MB must be positive');
+  }
+
+  if (authSettingsError) {
+    throw new Error(`Invalid auth configuration: ${authSettingsError}`);
+  }
+
+  if (Boolean(authSettings.basicUser) !== Boolean(authSettings.basicPassword)) {
+    throw new Error('AUTH_BASIC_USER and AUTH_BASIC_PASSWORD must be set together');
+  }
+
+  if (authSettings.basicUser && authSettings.bearerToken) {
+    throw new Error('Configure either basic auth or a bearer token, not both');
+  }
 }
 
 export function getCacheFilePath(gitbookUrl?: string): string {
@@ -140,12 +430,38 @@ export function logConfig(): void {
   if (gitBookConfig.debug) {
     console.error('GitBook MCP Server Configuration:');
     console.error('- GitBook URL:', gitBookConfig.gitbookUrl);
+    console.error('- Docs Source:', gitBookConfig.docsSource);
+    if (gitBookConfig.docsSource === 'local') {
+      console.error('- Local Docs Path:', path.resolve(gitBookConfig.localDocsPath));
+    }
+    if (gitBookConfig.docsSource === 'git') {
+      console.error('- Git Repository:', gitBookConfig.gitRepo);
+      console.error('- Git Docs Path:', gitBookConfig.gitDocsPath || '(repository root)');
+      console.error('- Git Branch:', gitBookConfig.gitBranch || '(default)');
+    }
     console.error('- Cache TTL:', gitBookConfig.cacheTtlHours, 'hours');
     console.error('- Cache File:', getCacheFilePath());
     console.error('- Scraping Delay:', gitBookConfig.scrapingDelayMs, 'ms');
     console.error('- Max Retries:', gitBookConfig.maxRetries);
     console.error('- Request Timeout:', gitBookConfig.requestTimeoutMs, 'ms');
+    console.error('- Crawl Deadline:', gitBookConfig.crawlDeadlineMs > 0 ? `${gitBookConfig.crawlDeadlineMs} ms` : '(none)');
     console.error('- Max Concurrent Requests:', gitBookConfig.maxConcurrentRequests);
+    console.error('- User-Agent:', gitBookConfig.userAgent);
+    console.error('- Respect robots.txt:', gitBookConfig.respectRobotsTxt);
+    console.error('- Auth:', describeAuthSettings());
+    console.error('- Use llms.txt:', gitBookConfig.useLlmsTxt);
+    console.error('- Config File:', existsSync(configFilePath) ? configFilePath : '(none)');
+    console.error('- Crawl Include:', gitBookConfig.crawlInclude.join(', ') || '(all)');
+    console.error('- Crawl Exclude:', gitBookConfig.crawlExclude.join(', ') || '(none)');
+    console.error('- Crawl Max Depth:', gitBookConfig.crawlMaxDepth || 'unlimited');
+    console.error('- Crawl Max Pages:', gitBookConfig.crawlMaxPages || 'unlimited');
+    console.error('- Allowed Origins:', gitBookConfig.allowedOrigins.join(', ') || '(docs origin only)');
+    console.error('- Stale Page Miss Limit:', gitBookConfig.stalePageMissLimit);
+    console.error('- Version Pattern:', gitBookConfig.versionPattern || '(auto)');
+    console.error('- Default Version:', gitBookConfig.defaultVersion || '(latest)');
+    console.error('- OpenAPI Specs:', gitBookConfig.openApiSpecs.join(', ') || '(none)');
+    console.error('- Discover OpenAPI:', gitBookConfig.discoverOpenApi);
+    console.error('- Index PDFs:', gitBookConfig.indexPdfs ? `yes (up to ${gitBookConfig.pdfMaxSizeMb} MB)` : 'no');
     console.error('- Debug Mode:', gitBookConfig.debug);
     console.error('- Log Level:', gitBookConfig.logLevel);
   }
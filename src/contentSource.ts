@@ -0,0 +1,71 @@
+import { gitBookConfig } from './config.js';
+import { GitBookScraper, GitBookContent, CrawlReport, CrawlStateStore, ProgressCallback } from './scraper.js';
+import { LocalDocsSource } from './localDocsSource.js';
+import { GitDocsSource } from './gitDocsSource.js';
+import { SitePlatform } from './siteProfiles.js';
+import { TocEntry } from './toc.js';
+import { SQLiteStore } from './sqliteStore.js';
+import { ApiCatalogSyncReport, syncApiCatalog } from './openapi.js';
+
+/**
+ * Where pages come from. Every source produces the same GitBookContent, so
+ * the store and the tools don't care whether the docs were crawled from a
+ * site or read from disk.
+ */
+export interface ContentSource {
+  scrapeAll(signal?: AbortSignal): Promise<void>;
+  getContent(): GitBookContent;
+  getCrawlReport(): CrawlReport;
+  getFailureStats(): { failedPages: string[]; totalRetries: number };
+  getAliases(): Record<string, string>;
+  getDetectedPlatform(): SitePlatform | undefined;
+  getToc(): TocEntry[];
+  // OpenAPI/Swagger specs the source came across, as URLs or file paths
+  getApiSpecUrls(): string[];
+  // Only crawls that can be interrupted halfway need somewhere to resume from
+  setCrawlStateStore?(store: CrawlStateStore): void;
+  // Commit the content was read at, for sources under version control
+  getRevision?(): string | undefined;
+}
+
+// The source selected by DOCS_SOURCE; only a crawl reports progress
+export function createContentSource(progressCallback?: ProgressCallback): ContentSource {
+  switch (gitBookConfig.docsSource) {
+    case 'local':
+      return new LocalDocsSource(gitBookConfig.localDocsPath, gitBookConfig.gitbookUrl);
+    case 'git':
+      return new GitDocsSource(gitBookConfig.gitRepo, gitBookConfig.gitDocsPath, gitBookConfig.gitBranch, gitBookConfig.gitbookUrl);
+    default:
+      return new GitBookScraper(gitBookConfig.gitbookUrl, progressCallback);
+  }
+}
+
+// Ingests the configured specs plus those the source came across
+export async function syncApiCatalogFromSource(store: SQLiteStore, source: ContentSource, prune: boolean): Promise<ApiCatalogSyncReport> {
+  const report = await syncApiCatalog(store, [...gitBookConfig.openApiSpecs, ...source.getApiSpecUrls()], prune);
+  store.setApiCatalogReport(report);
+  return report;
+}
+
+// Mirrors the source's content into the store, including pages it dropped
+export async function syncStoreFromScraper(store: SQLiteStore, source: ContentSource): Promise<GitBookContent> {
+  const content = source.getContent();
+  await store.updateContent(content);
+  await store.removePages(source.getCrawlReport().removed.map(({ path }) => path));
+  await store.updateAliases(source.getAliases());
+  const platform = source.getDetectedPlatform();
+  if (platform) {
+    store.setPlatform(platform);
+  }
+  const revision = source.getRevision?.();
+  if (revision) {
+    store.setSourceCommit(revision);
+  }
+  const toc = source.getToc();
+  if (toc.length > 0) {
+    await store.replaceToc(toc);
+  }
+  // Specs a stopped crawl didn't reach again are kept
+  await syncApiCatalogFromSource(store, source, !source.getCrawlReport().aborted);
+  return content;
+}
@@ -0,0 +1,101 @@
+import { gitBookConfig } from './config.js';
+
+export interface CrawlScopeOptions {
+  include: string[];
+  exclude: string[];
+  maxDepth: number; // 0 = unlimited
+  maxPages: number; // 0 = unlimited
+}
+
+export interface ScopeDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+interface CompiledPattern {
+  source: string;
+  regex: RegExp;
+}
+
+/**
+ * Decides which discovered URLs belong in the index. Patterns are globs
+ * (`*` within a segment, `**` across segments, `?` one character) or
+ * regular expressions written as `/pattern/flags`.
+ */
+export class CrawlScope {
+  private include: CompiledPattern[];
+  private exclude: CompiledPattern[];
+  private maxDepth: number;
+  private maxPages: number;
+
+  constructor(options: CrawlScopeOptions) {
+    this.include = options.include.map(CrawlScope.compilePattern);
+    this.exclude = options.exclude.map(CrawlScope.compilePattern);
+    this.maxDepth = options.maxDepth;
+    this.maxPages = options.maxPages;
+  }
+
+  static fromConfig(): CrawlScope {
+    return new CrawlScope({
+      include: gitBookConfig.crawlInclude,
+      exclude: gitBookConfig.crawlExclude,
+      maxDepth: gitBookConfig.crawlMaxDepth,
+      maxPages: gitBookConfig.crawlMaxPages
+    });
+  }
+
+  /**
+   * @param depth link hops from the root page
+   * @param acceptedCount pages already admitted to the crawl
+   */
+  check(path: string, depth: number, acceptedCount: number): ScopeDecision {
+    const excludedBy = this.exclude.find(pattern => pattern.regex.test(path));
+    if (excludedBy) {
+      return { allowed: false, reason: `excluded by pattern "${excludedBy.source}"` };
+    }
+
+    if (this.include.length > 0 && !this.include.some(pattern => pattern.regex.test(path))) {
+      return { allowed: false, reason: 'not matched by any include pattern' };
+    }
+
+    if (this.maxDepth > 0 && depth > this.maxDepth) {
+      return { allowed: false, reason: `depth ${depth} exceeds max depth ${this.maxDepth}` };
+    }
+
+    if (this.maxPages > 0 && acceptedCount >= this.maxPages) {
+      return { allowed: false, reason: `page budget of ${this.maxPages} reached` };
+    }
+
+    return { allowed: true };
+  }
+
+  static compilePattern(source: string): CompiledPattern {
+    const regexLiteral = source.match(/^\/(.+)\/([imsu]*)$/);
+    if (regexLiteral) {
+      return { source, regex: new RegExp(regexLiteral[1], regexLiteral[2]) };
+    }
+
+    let pattern = '';
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (char === '*' && source[i + 1] === '*') {
+        // "/blog/**" also matches "/blog" itself
+        if (pattern.endsWith('/')) {
+          pattern = pattern.slice(0, -1) + '(?:/.*)?';
+        } else {
+          pattern += '.*';
+        }
+        i++;
+      } else if (char === '*') {
+        pattern += '[^/]*';
+      } else if (char === '?') {
+        pattern += '[^/]';
+      } else {
+        pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    return { source, regex: new RegExp(`^${pattern}$`) };
+  }
+}
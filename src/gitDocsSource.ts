@@ -0,0 +1,239 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { getGitCheckoutPath, isRemoteRepo } from './config.js';
+import { SourceCommit } from './scraper.js';
+import { LocalDocsSource, ParsedDoc } from './localDocsSource.js';
+
+const execFileAsync = promisify(execFile);
+
+// git log output is read whole; large histories need more than the 1 MB default
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Separators for git log --format: one record per commit, one unit per field
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Reads Markdown/MDX docs from a git repository. After the first run only
+ * files changed since the last indexed commit are re-read, as reported by
+ * `git diff --name-status`, and every page remembers the commit and author
+ * of its last change.
+ */
+export class GitDocsSource extends LocalDocsSource {
+  private repo: string;
+  private checkout: string;
+  private docsPath: string;
+  private branch: string;
+  private indexedCommit?: string;  // Commit the cached documents were read at
+  private headCommit?: string;     // Commit being read in this run
+  private documents = new Map<string, ParsedDoc>();         // repo-relative file -> parsed document
+  private previousDocuments = new Map<string, ParsedDoc>();
+  private changedFiles = new Set<string>();
+  private deletedFiles = new Map<string, string>();          // repo-relative file -> reason
+  private commits = new Map<string, SourceCommit>();         // repo-relative file -> last commit
+  private dirtyFiles = new Set<string>();                    // repo-relative files read with uncommitted edits
+  private previousDirtyFiles = new Set<string>();
+
+  constructor(repo: string, docsPath: string, branch: string, baseUrl: string) {
+    const checkout = getGitCheckoutPath(repo);
+    super(path.join(checkout, docsPath), baseUrl);
+    this.repo = repo;
+    this.checkout = checkout;
+    this.docsPath = docsPath.split(path.sep).join('/').replace(/^\.?\/+|\/+$/g, '');
+    this.branch = branch;
+  }
+
+  // Commit the index reflects; undefined until the first successful read
+  getRevision(): string | undefined {
+    return this.indexedCommit;
+  }
+
+  protected async prepareRead(): Promise<void> {
+    await this.updateCheckout();
+    this.headCommit = (await this.git(['rev-parse', 'HEAD'])).trim();
+
+    this.previousDocuments = this.documents;
+    this.documents = new Map();
+    this.changedFiles.clear();
+    this.deletedFiles.clear();
+    this.commits.clear();
+    this.previousDirtyFiles = this.dirtyFiles;
+    this.dirtyFiles = new Set();
+
+    const incremental = this.indexedCommit !== undefined
+      && this.previousDocuments.size > 0
+      && await this.hasCommit(this.indexedCommit);
+
+    if (incremental) {
+      await this.diffSince(this.indexedCommit!);
+      this.commits = await this.lastCommits(`${this.indexedCommit}..${this.headCommit}`);
+      console.log(`📂 GIT: ${this.changedFiles.size} changed and ${this.deletedFiles.size} removed files since ${this.indexedCommit!.slice(0, 7)}`);
+    } else {
+      this.previousDocuments.clear();
+      this.commits = await this.lastCommits(this.headCommit);
+      console.log(`📂 GIT: Indexing ${this.repo} at ${this.headCommit.slice(0, 7)}`);
+    }
+    this.fullRead = !incremental;
+
+    // A local working copy may have edits that aren't committed yet
+    if (!isRemoteRepo(this.repo)) {
+      for (const file of await this.uncommittedFiles()) {
+        this.changedFiles.add(file);
+        this.dirtyFiles.add(file);
+      }
+    }
+
+    // An edit reverted without a commit is in neither the diff nor git status,
+    // so files last read dirty are read again
+    for (const file of this.previousDirtyFiles) {
+      this.changedFiles.add(file);
+    }
+  }
+
+  protected async loadDocument(file: string, segments: string[]): Promise<ParsedDoc | null> {
+    const relativeFile = this.repoPath(file);
+    const cached = this.previousDocuments.get(relativeFile);
+    if (cached && !this.changedFiles.has(relativeFile)) {
+      this.documents.set(relativeFile, cached);
+      return cached;
+    }
+
+    const parsed = await super.loadDocument(file, segments);
+    if (parsed) {
+      parsed.doc.lastCommit = this.commits.get(relativeFile) ?? cached?.doc.lastCommit;
+      this.documents.set(relativeFile, parsed);
+    }
+    return parsed;
+  }
+
+  protected async finishRead(): Promise<void> {
+    if (this.abortReason) {
+      // Documents not reached keep their old version; the next run diffs from the old commit again
+      for (const [file, parsed] of this.previousDocuments) {
+        if (!this.documents.has(file)) this.documents.set(file, parsed);
+      }
+      this.previousDirtyFiles.forEach(file => this.dirtyFiles.add(file));
+      return;
+    }
+
+    for (const [file, reason] of this.deletedFiles) {
+      const pagePath = this.previousDocuments.get(file)?.doc.path;
+      if (pagePath && this.removedPages.has(pagePath)) {
+        this.removedPages.set(pagePath, `${reason} in ${this.headCommit!.slice(0, 7)}`);
+      }
+    }
+    this.indexedCommit = this.headCommit;
+    this.previousDocuments = new Map();
+  }
+
+  protected cacheExtras(): Record<string, unknown> {
+    return {
+      commit: this.indexedCommit,
+      documents: Object.fromEntries(this.documents),
+      dirtyFiles: Array.from(this.dirtyFiles)
+    };
+  }
+
+  protected restoreCache(cached: Record<string, any>): void {
+    this.indexedCommit = cached.commit;
+    this.documents = new Map(Object.entries(cached.documents || {}));
+    this.dirtyFiles = new Set(cached.dirtyFiles || []);
+  }
+
+  // Clones a remote repository on first use and moves it to the tip of the tracked branch
+  private async updateCheckout(): Promise<void> {
+    if (!isRemoteRepo(this.repo)) return;
+
+    if (!existsSync(path.join(this.checkout, '.git'))) {
+      console.log(`📂 GIT: Cloning ${this.repo}`);
+      await fs.mkdir(path.dirname(this.checkout), { recursive: true });
+      const branchArgs = this.branch ? ['--branch', this.branch] : [];
+      await this.git(['clone', '--quiet', ...branchArgs, this.repo, this.checkout], path.dirname(this.checkout));
+      return;
+    }
+
+    await this.git(['fetch', '--quiet', 'origin', this.branch || 'HEAD']);
+    await this.git(['reset', '--quiet', '--hard', 'FETCH_HEAD']);
+  }
+
+  // Sorts the files between two commits into changed and removed; a rename is both
+  private async diffSince(commit: string): Promise<void> {
+    const output = await this.git(['diff', '--name-status', '-M', commit, this.headCommit!, '--', this.pathspec()]);
+    for (const line of output.split('\n').filter(Boolean)) {
+      const [status, ...files] = line.split('\t');
+      switch (status[0]) {
+        case 'D':
+          this.deletedFiles.set(files[0], 'deleted');
+          break;
+        case 'R':
+          this.deletedFiles.set(files[0], `renamed to ${files[1]}`);
+          this.changedFiles.add(files[1]);
+          break;
+        default:
+          // A(dded), M(odified), T(ype change), C(opied): the last path is the current file
+          this.changedFiles.add(files[files.length - 1]);
+      }
+    }
+  }
+
+  /**
+   * The newest commit touching each docs file, from one `git log` walk over
+   * `range` (a commit for its whole history, or "a..b").
+   */
+  private async lastCommits(range: string): Promise<Map<string, SourceCommit>> {
+    const format = `${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI`;
+    const output = await this.git(['log', `--format=${format}`, '--name-only', range, '--', this.pathspec()]);
+
+    const commits = new Map<string, SourceCommit>();
+    for (const record of output.split(RECORD_SEPARATOR).filter(Boolean)) {
+      const [header, ...files] = record.split('\n');
+      const [sha, author, date] = header.split(FIELD_SEPARATOR);
+      for (const file of files.filter(Boolean)) {
+        // git log lists newest first, so the first commit seen is the last change
+        if (!commits.has(file)) commits.set(file, { sha, author, date });
+      }
+    }
+    return commits;
+  }
+
+  private async uncommittedFiles(): Promise<string[]> {
+    const output = await this.git(['status', '--porcelain', '--untracked-files=all', '--', this.pathspec()]);
+    return output.split('\n').filter(Boolean).map(line => {
+      const file = line.slice(3);
+      // Renames read "old -> new"
+      return file.includes(' -> ') ? file.split(' -> ')[1] : file;
+    }).map(file => file.replace(/^"|"$/g, ''));
+  }
+
+  private async hasCommit(commit: string): Promise<boolean> {
+    try {
+      await this.git(['cat-file', '-e', `${commit}^{commit}`]);
+      return true;
+    } catch {
+      // History was rewritten (force push): read everything again
+      return false;
+    }
+  }
+
+  private pathspec(): string {
+    return this.docsPath || '.';
+  }
+
+  // A file's path relative to the repository root, with forward slashes as git prints it
+  private repoPath(file: string): string {
+    return path.relative(this.checkout, file).split(path.sep).join('/');
+  }
+
+  private async git(args: string[], cwd: string = this.checkout): Promise<string> {
+    try {
+      // Unquoted paths, so non-ASCII file names match the ones read from disk
+      const { stdout } = await execFileAsync('git', ['-c', 'core.quotePath=false', ...args], { cwd, maxBuffer: GIT_MAX_BUFFER });
+      return stdout;
+    } catch (error: any) {
+      const detail = (error?.stderr || error?.message || String(error)).toString().trim();
+      throw new Error(`git ${args[0]} failed: ${detail}`);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { abortableDelay } from './abortUtils.js';
+
+interface HostState {
+  limit: number;
+  active: number;
+  waiting: Array<() => void>;
+  successStreak: number;
+  pausedUntil: number;
+}
+
+// Never sleep longer than this on a server's say-so
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Caps concurrent requests per host and adapts the cap AIMD-style: a throttling
+ * response (429/503) halves the host's limit and honours its Retry-After pause,
+ * while every run of `limit` consecutive successes raises it by one again, up
+ * to the configured maximum.
+ */
+export class HostLimiter {
+  private maxConcurrency: number;
+  private hosts = new Map<string, HostState>();
+
+  constructor(maxConcurrency: number) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  async run<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const state = this.stateFor(url);
+    await this.acquire(state, signal);
+    try {
+      return await task();
+    } finally {
+      state.active--;
+      this.wake(state);
+    }
+  }
+
+  recordSuccess(url: string): void {
+    const state = this.stateFor(url);
+    state.successStreak++;
+
+    if (state.successStreak >= state.limit && state.limit < this.maxConcurrency) {
+      state.limit++;
+      state.successStreak = 0;
+      this.wake(state);
+    }
+  }
+
+  recordThrottle(url: string, retryAfterMs?: number): void {
+    const state = this.stateFor(url);
+    state.limit = Math.max(1, Math.floor(state.limit / 2));
+    state.successStreak = 0;
+
+    if (retryAfterMs !== undefined && retryAfterMs > 0) {
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + Math.min(retryAfterMs, MAX_RETRY_AFTER_MS));
+    }
+  }
+
+  getLimit(url: string): number {
+    return this.stateFor(url).limit;
+  }
+
+  private stateFor(url: string): HostState {
+    const host = new URL(url).host;
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { limit: this.maxConcurrency, active: 0, waiting: [], successStreak: 0, pausedUntil: 0 };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquire(state: HostState, signal?: AbortSignal): Promise<void> {
+    while (true) {
+      signal?.throwIfAborted();
+
+      const pauseMs = state.pausedUntil - Date.now();
+      if (pauseMs > 0) {
+        await abortableDelay(pauseMs, signal);
+        continue;
+      }
+
+      if (state.active < state.limit) {
+        state.active++;
+        return;
+      }
+
+      await this.waitForSlot(state, signal);
+    }
+  }
+
+  // Queued callers leave the queue as soon as their signal aborts
+  private waitForSlot(state: HostState, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        const index = state.waiting.indexOf(wake);
+        if (index !== -1) state.waiting.splice(index, 1);
+        resolve();
+      };
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      state.waiting.push(wake);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private wake(state: HostState): void {
+    let free = state.limit - state.active;
+    while (free > 0 && state.waiting.length > 0) {
+      state.waiting.shift()!();
+      free--;
+    }
+  }
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into
+ * milliseconds, capped so a hostile value can't park the crawler for hours.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  const delayMs = /^\d+$/.test(trimmed)
+    ? parseInt(trimmed, 10) * 1000
+    : Date.parse(trimmed) - Date.now();
+
+  if (isNaN(delayMs)) return undefined;
+  return Math.min(Math.max(0, delayMs), MAX_RETRY_AFTER_MS);
+}
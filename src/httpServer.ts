@@ -14,18 +14,25 @@ import {
   McpError,
   isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
-import { GitBookScraper } from './scraper.js';
+import { GitBookContent } from './scraper.js';
+import { ContentSource, createContentSource, syncStoreFromScraper } from './contentSource.js';
 import { SQLiteStore } from './sqliteStore.js';
 import { gitBookConfig, validateConfig, logConfig, getCacheFilePath } from './config.js';
 import { DomainDetector, DomainInfo } from './domainDetector.js';
 import { ResponseUtils } from './responseUtils.js';
+import { anySignal } from './abortUtils.js';
+import { TocParser, TocNode } from './toc.js';
+import { OpenApiParser } from './openapi.js';
+import { PageTables } from './tables.js';
+import { CodeExamples } from './codeExamples.js';
 
 class GitBookMCPHttpServer {
   private server: Server;
-  private scraper: GitBookScraper;
+  private scraper: ContentSource;
   private store: SQLiteStore;
   private domainInfo: DomainInfo;
   private transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+  private activeCrawl?: { controller: AbortController; done: Promise<GitBookContent> };
 
   constructor() {
     // Validate configuration
@@ -55,8 +62,9 @@ class GitBookMCPHttpServer {
       }
     );
 
-    this.scraper = new GitBookScraper(gitBookConfig.gitbookUrl);
+    this.scraper = createContentSource();
     this.store = new SQLiteStore(gitBookConfig.gitbookUrl);
+    this.scraper.setCrawlStateStore?.(this.store);
     this.setupHandlers();
   }
 
@@ -89,6 +97,14 @@ class GitBookMCPHttpServer {
                   description: 'Number of results to skip for pagination (default: 0)',
                   minimum: 0,
                 },
+                version: {
+                  type: 'string',
+                  description: 'Docs version to search (see list_versions); defaults to the latest version, "all" searches every version',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Only return pages in this language (e.g., "fr", "pt-BR"); by default all languages are searched',
+                },
               },
               required: [],
             },
@@ -113,7 +129,7 @@ class GitBookMCPHttpServer {
           },
           {
             name: `${this.domainInfo.toolPrefix}get_page_outline`,
-            description: `Get the structure and outline of a specific page in ${this.domainInfo.description}`,
+            description: `Get the structure and outline of a specific page in ${this.domainInfo.description}, including how many warning callouts it has`,
             inputSchema: {
               type: 'object',
               properties: {
@@ -133,7 +149,15 @@ class GitBookMCPHttpServer {
               properties: {
                 path: {
                   type: "string",
-                  description: "Page path (e.g., '/api/authentication' or '/sdk/quickstart')"
+                  description: "Page path (e.g., '/api/authentication' or '/sdk/quickstart'); old paths, redirects and full page URLs also resolve"
+                },
+                version: {
+                  type: "string",
+                  description: "Optional: return the same page from this docs version"
+                },
+                locale: {
+                  type: "string",
+                  description: "Optional: return the translation of the page in this language (from its hreflang links)"
                 }
               },
               required: ["path"]
@@ -151,7 +175,7 @@ class GitBookMCPHttpServer {
                 },
                 language: {
                   type: 'string',
-                  description: 'Filter by programming language (e.g., "javascript", "python")',
+                  description: 'Filter by programming language (e.g., "javascript", "python"); tabbed examples answer with their tab in this language',
                 },
                 path: {
                   type: 'string',
@@ -214,24 +238,193 @@ class GitBookMCPHttpServer {
               required: ["section"]
             }
           },
+          {
+            name: `${this.domainInfo.toolPrefix}list_versions`,
+            description: `List the documentation versions indexed from ${this.domainInfo.name} and which one searches default to`,
+            inputSchema: {
+              type: "object",
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_toc`,
+            description: `Get the navigation tree of ${this.domainInfo.name} as laid out in the site's sidebar`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description: "Optional: return only the subtree under this page path or group title"
+                },
+                depth: {
+                  type: "number",
+                  description: "Optional: number of levels to include",
+                  minimum: 1
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}list_api_specs`,
+            description: `List the OpenAPI/Swagger specs ingested from ${this.domainInfo.name} with their operation counts`,
+            inputSchema: {
+              type: "object",
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}list_api_operations`,
+            description: `List the API endpoints (method and path) defined by the ingested OpenAPI/Swagger specs`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                spec: {
+                  type: "string",
+                  description: "Optional: only operations of this spec id (see list_api_specs)"
+                },
+                tag: {
+                  type: "string",
+                  description: "Optional: only operations with this tag"
+                },
+                method: {
+                  type: "string",
+                  description: "Optional: only operations with this HTTP method (e.g., \"POST\")"
+                },
+                limit: {
+                  type: "number",
+                  description: "Maximum number of operations to return (default: 50)",
+                  minimum: 1,
+                  maximum: 500
+                },
+                offset: {
+                  type: "number",
+                  description: "Number of operations to skip (default: 0)",
+                  minimum: 0
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}search_api_operations`,
+            description: `Search API endpoints by operation id, path, summary, description and tags`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: {
+                  type: "string",
+                  description: "Search query (e.g., \"create user\", \"/orders\")"
+                },
+                spec: {
+                  type: "string",
+                  description: "Optional: only search this spec id"
+                },
+                method: {
+                  type: "string",
+                  description: "Optional: only operations with this HTTP method"
+                },
+                limit: {
+                  type: "number",
+                  description: "Maximum number of operations to return (default: 10)",
+                  minimum: 1,
+                  maximum: 50
+                }
+              },
+              required: ["query"]
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}describe_api_operation`,
+            description: `Get one API endpoint in full: parameters, request body and responses with schemas ($refs resolved) and examples`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                operation_id: {
+                  type: "string",
+                  description: "Operation id (e.g., \"createUser\")"
+                },
+                method: {
+                  type: "string",
+                  description: "HTTP method, used with path instead of operation_id"
+                },
+                path: {
+                  type: "string",
+                  description: "Endpoint path as written in the spec (e.g., \"/users/{id}\")"
+                },
+                spec: {
+                  type: "string",
+                  description: "Optional: spec id, when several specs define the operation"
+                }
+              },
+              required: []
+            }
+          },
           {
             name: `${this.domainInfo.toolPrefix}refresh_content`,
             description: `Force refresh the cached content from ${this.domainInfo.name}`,
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                cancel: {
+                  type: "boolean",
+                  description: "Stop the refresh that is currently running instead of starting one. Pages fetched so far are kept."
+                }
+              },
               required: []
             }
           },
           {
             name: `${this.domainInfo.toolPrefix}get_code_blocks`,
-            description: `Extract all code blocks from a specific page with syntax highlighting`,
+            description: `Extract all code blocks from a specific page with syntax highlighting; examples shown in several languages as tabs are grouped`,
             inputSchema: {
               type: "object",
               properties: {
                 path: {
                   type: "string",
                   description: "Page path (e.g., '/api/authentication')"
+                },
+                language: {
+                  type: "string",
+                  description: "Optional: only blocks in this language, e.g. 'python' picks the Python tab of each example"
+                }
+              },
+              required: ["path"]
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_page_images`,
+            description: `List the images, screenshots and diagrams on a page with their URLs, alt text, captions and the heading they appear under`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description: "Page path (e.g., '/architecture/overview')"
+                }
+              },
+              required: ["path"]
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_tables`,
+            description: `Get the tables on a page as structured data (headers and rows), e.g. rate limits, parameters or compatibility matrices`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description: "Page path (e.g., '/limits')"
+                },
+                query: {
+                  type: "string",
+                  description: "Only tables whose caption, heading or column names contain these words (e.g., 'rate limit')"
+                },
+                index: {
+                  type: "number",
+                  description: "Only the table at this position on the page (1-based)"
                 }
               },
               required: ["path"]
@@ -256,7 +449,7 @@ class GitBookMCPHttpServer {
     });
 
     // Add the same tool handlers as the stdio version
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -277,10 +470,26 @@ class GitBookMCPHttpServer {
             return await this.handleListSections();
           case `${this.domainInfo.toolPrefix}get_section_pages`:
             return await this.handleGetSectionPages(args);
+          case `${this.domainInfo.toolPrefix}list_versions`:
+            return await this.handleListVersions();
+          case `${this.domainInfo.toolPrefix}get_toc`:
+            return await this.handleGetToc(args);
+          case `${this.domainInfo.toolPrefix}list_api_specs`:
+            return await this.handleListApiSpecs();
+          case `${this.domainInfo.toolPrefix}list_api_operations`:
+            return await this.handleListApiOperations(args);
+          case `${this.domainInfo.toolPrefix}search_api_operations`:
+            return await this.handleSearchApiOperations(args);
+          case `${this.domainInfo.toolPrefix}describe_api_operation`:
+            return await this.handleDescribeApiOperation(args);
           case `${this.domainInfo.toolPrefix}refresh_content`:
-            return await this.handleRefreshContent();
+            return await this.handleRefreshContent(args as { cancel?: boolean }, extra.signal);
           case `${this.domainInfo.toolPrefix}get_code_blocks`:
             return await this.handleGetCodeBlocks(args);
+          case `${this.domainInfo.toolPrefix}get_page_images`:
+            return await this.handleGetPageImages(args);
+          case `${this.domainInfo.toolPrefix}get_tables`:
+            return await this.handleGetTables(args);
           case `${this.domainInfo.toolPrefix}get_markdown`:
             return await this.handleGetMarkdown(args);
           default:
@@ -349,7 +558,12 @@ class GitBookMCPHttpServer {
               {
                 name: "path",
                 description: "The page path containing API information",
-                required: true
+                required: false
+              },
+              {
+                name: "query",
+                description: "Endpoints to look up in the API specs (e.g., \"create order\"); defaults to the page title",
+                required: false
               }
             ]
           },
@@ -396,6 +610,8 @@ class GitBookMCPHttpServer {
     let query: string;
     let requestedLimit = Math.min(args.limit || 20, 50);
     let offset = args.offset || 0;
+    let version: string | undefined = typeof args.version === 'string' ? args.version : undefined;
+    let locale: string | undefined = typeof args.locale === 'string' ? args.locale : undefined;
 
     // Handle continuation token
     if (args.continuation_token) {
@@ -403,6 +619,8 @@ class GitBookMCPHttpServer {
         const tokenData = ResponseUtils.parseContinuationToken(args.continuation_token);
         query = tokenData.q;
         offset = tokenData.o;
+        version = tokenData.v;
+        locale = tokenData.l;
         // Keep the original limit if not overridden
         if (!args.limit) requestedLimit = 20;
       } catch (error) {
@@ -416,11 +634,11 @@ class GitBookMCPHttpServer {
     
     // Get total count first
     const totalResults = await (this.store as any).searchContentCount ? 
-      await (this.store as any).searchContentCount(query) : null;
+      await (this.store as any).searchContentCount(query, { version, locale }) : null;
     
     // For dynamic pagination, we need to get more results than requested to calculate proper limits
     const batchSize = Math.min(requestedLimit * 3, 150); // Get up to 3x requested or max 150
-    const results = await (this.store as any).searchContent(query, batchSize, offset);
+    const results = await (this.store as any).searchContent(query, batchSize, offset, { version, locale });
     
     // Use actual result count if we don't have a count method
     const actualTotal = totalResults !== null ? totalResults : (offset + results.length + (results.length === batchSize ? 1 : 0));
@@ -433,7 +651,8 @@ class GitBookMCPHttpServer {
       offset, 
       actualTotal, 
       this.domainInfo.toolPrefix,
-      'search_content'
+      'search_content',
+      { v: version, l: locale }
     );
     
     return ResponseUtils.formatMcpResponse(tokenSafeResponse);
@@ -526,14 +745,18 @@ class GitBookMCPHttpServer {
   }
 
   private async handleGetPage(args: any) {
-    const { path } = args;
+    const { path, version, locale } = args;
     if (!path || typeof path !== 'string') {
       throw new McpError(ErrorCode.InvalidParams, "Path is required and must be a string");
     }
 
-    const page = await this.store.getPage(path);
+    const page = await this.store.getPage(path, {
+      version: typeof version === 'string' ? version : undefined,
+      locale: typeof locale === 'string' ? locale : undefined
+    });
     if (!page) {
-      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+      const scope = [version && `version ${version}`, locale && `locale ${locale}`].filter(Boolean).join(', ');
+      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}${scope ? ` (${scope})` : ''}`);
     }
 
     // Use token-safe response formatting
@@ -604,9 +827,16 @@ class GitBookMCPHttpServer {
     const results: any[] = [];
     const queryLower = query.toLowerCase();
     
+    const answeredExamples = new Set<number>();
+    
     page.codeBlocks.forEach((block: any, index: number) => {
+      // A match in any tab of an example is answered with the tab in the requested language
+      const variantIndex = language && block.example !== undefined
+        ? CodeExamples.variantIn(page.codeExamples?.[block.example], language)
+        : -1;
+      
       // Filter by language if specified
-      if (language && block.language.toLowerCase() !== language.toLowerCase()) {
+      if (language && !CodeExamples.sameLanguage(block.language, language) && variantIndex === -1) {
         return;
       }
       
@@ -623,11 +853,42 @@ class GitBookMCPHttpServer {
         }
       });
       
-      // Also check title and language
+      // Also check title, language and tab label
       const titleMatch = block.title && block.title.toLowerCase().includes(queryLower);
-      const languageMatch = block.language.toLowerCase().includes(queryLower);
+      const languageMatch = block.language.toLowerCase().includes(queryLower) ||
+        (block.tab && block.tab.toLowerCase().includes(queryLower));
       
       if (matchingLines.length > 0 || titleMatch || languageMatch) {
+        if (variantIndex !== -1 && variantIndex !== index) {
+          if (answeredExamples.has(block.example)) return;
+          answeredExamples.add(block.example);
+          const variant = page.codeBlocks[variantIndex];
+          const variantLines = variant.code.split('\n');
+          results.push({
+            page: {
+              title: page.title,
+              path: page.path,
+              section: page.section
+            },
+            codeBlock: {
+              index: variantIndex + 1,
+              language: variant.language,
+              title: variant.title,
+              tab: variant.tab,
+              otherTabs: this.exampleTabs(page, block.example, variantIndex),
+              lineCount: variantLines.length,
+              matches: [],
+              matchType: 'example',
+              matchedIn: block.tab,
+              preview: variantLines.slice(0, 3).join('\n') + (variantLines.length > 3 ? '\n...' : '')
+            }
+          });
+          return;
+        }
+        if (block.example !== undefined) {
+          if (answeredExamples.has(block.example)) return;
+          answeredExamples.add(block.example);
+        }
         results.push({
           page: {
             title: page.title,
@@ -638,6 +899,8 @@ class GitBookMCPHttpServer {
             index: index + 1,
             language: block.language,
             title: block.title,
+            tab: block.tab,
+            otherTabs: block.example !== undefined ? this.exampleTabs(page, block.example, index) : undefined,
             lineCount: codeLines.length,
             matches: matchingLines.slice(0, 5), // Limit matches shown
             matchType: titleMatch ? 'title' : languageMatch ? 'language' : 'content',
@@ -650,6 +913,13 @@ class GitBookMCPHttpServer {
     return results;
   }
 
+  // Labels of an example's other tabs, so callers know which languages they can ask for
+  private exampleTabs(page: any, example: number, shownIndex: number): string[] | undefined {
+    return page.codeExamples?.[example]?.variants
+      .filter((variant: any) => variant.block !== shownIndex)
+      .map((variant: any) => variant.label);
+  }
+
   private async searchCodeGlobally(query: string, limit: number, language?: string): Promise<any[]> {
     // Simplified global search for HTTP version
     const allResults: any[] = [];
@@ -837,158 +1107,559 @@ class GitBookMCPHttpServer {
     };
   }
 
-  private async handleRefreshContent() {
-    await this.scraper.scrapeAll();
-    const content = this.scraper.getContent();
-    await this.store.updateContent(content);
-    
-    const stats = await this.store.getStats();
+  private async handleListVersions() {
+    const versions = await this.store.listVersions();
+    if (versions.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${this.domainInfo.name} is not versioned: all pages belong to a single version.`
+          }
+        ]
+      };
+    }
+
+    const unversioned = await this.store.getUnversionedPageCount();
     return {
       content: [
         {
           type: "text",
-          text: `Content refreshed successfully!\n\nStats:\n- Total pages: ${stats.totalPages}\n- Last updated: ${stats.lastUpdated}`
+          text: `Documentation versions of ${this.domainInfo.name}:\n\n` +
+                versions.map(entry => `- **${entry.version}**${entry.isDefault ? ' (default)' : ''}: ${entry.pages} pages`).join('\n') +
+                (unversioned > 0 ? `\n\n${unversioned} pages are shared by all versions.` : '')
         }
       ]
     };
   }
 
-  private async handleGetCodeBlocks(args: any) {
-    const { path } = args;
-    if (!path || typeof path !== 'string') {
-      throw new McpError(ErrorCode.InvalidParams, "Path is required and must be a string");
-    }
-
-    const page = await this.store.getPage(path);
-    if (!page) {
-      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+  private async handleGetToc(args: any) {
+    const { path, depth } = args || {};
+    if (path !== undefined && typeof path !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, "Path must be a string");
     }
 
-    if (page.codeBlocks.length === 0) {
+    const entries = await this.store.getTocEntries();
+    if (entries.length === 0) {
       return {
         content: [
           {
             type: "text",
-            text: `No code blocks found in page: ${path}`
+            text: `No table of contents has been captured for ${this.domainInfo.name} yet.`
           }
         ]
       };
     }
 
+    let rootPath = path;
+    if (rootPath && !entries.some(entry => entry.path === rootPath)) {
+      rootPath = (await this.store.getPage(rootPath))?.path ?? rootPath;
+    }
+
+    const tree = TocParser.buildTree(entries, rootPath, typeof depth === 'number' ? depth : undefined);
+    if (!tree) {
+      throw new McpError(ErrorCode.InvalidParams, `No table of contents entry for: ${path}`);
+    }
+
+    const render = (nodes: TocNode[], indent: string): string[] => nodes.flatMap(node => [
+      `${indent}- ${node.path ? `**${node.title}** (${node.path})` : node.title}`,
+      ...render(node.children, indent + '  ')
+    ]);
+
     return {
       content: [
         {
           type: "text",
-          text: `Code blocks from "${page.title}":\n\n` +
-                page.codeBlocks.map((block, index) => 
-                  `**Block ${index + 1}** (${block.language})${block.title ? ` - ${block.title}` : ''}:\n\`\`\`${block.language}\n${block.code}\n\`\`\`\n`
-                ).join('\n')
+          text: `Table of contents of ${this.domainInfo.name}${path ? ` under "${path}"` : ''}:\n\n` +
+                render(tree, '').join('\n')
         }
       ]
     };
   }
 
-  private async handleGetMarkdown(args: any) {
-    const { path } = args;
-    if (!path || typeof path !== 'string') {
-      throw new McpError(ErrorCode.InvalidParams, "Path is required and must be a string");
-    }
-
-    const page = await this.store.getPage(path);
-    if (!page) {
-      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+  private async handleListApiSpecs() {
+    const specs = await this.store.listApiSpecs();
+    if (specs.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No OpenAPI/Swagger specs have been ingested for ${this.domainInfo.name}. Set OPENAPI_SPECS or link specs from the docs.`
+          }
+        ]
+      };
     }
 
     return {
       content: [
         {
           type: "text",
-          text: page.markdown
+          text: `API specs of ${this.domainInfo.name}:\n\n` +
+                specs.map(spec =>
+                  `- **${spec.title}**${spec.version ? ` v${spec.version}` : ''} (id: \`${spec.id}\`, ${spec.format})\n` +
+                  `  ${spec.operationCount} operations from ${spec.source}` +
+                  (spec.servers.length > 0 ? `\n  Servers: ${spec.servers.join(', ')}` : '')
+                ).join('\n')
         }
       ]
     };
   }
 
-  // Simplified prompt handlers
-  private async handleExplainSection(args: any) {
-    const { section } = args;
-    const pages = await this.store.getPagesBySection(section);
-    
-    return {
-      description: `Comprehensive explanation of the ${section} section`,
-      messages: [
-        {
-          role: "user",
-          content: {
+  private async handleListApiOperations(args: any) {
+    const { spec, tag, method } = args || {};
+    const limit = Math.min(typeof args?.limit === 'number' ? args.limit : 50, 500);
+    const offset = typeof args?.offset === 'number' ? args.offset : 0;
+    const { operations, total } = await this.store.listApiOperations({ spec, tag, method }, limit, offset);
+
+    if (operations.length === 0) {
+      return {
+        content: [
+          {
             type: "text",
-            text: `Based on the ${this.domainInfo.name} documentation, provide a comprehensive explanation and tutorial for the "${section}" section. Here are the pages in this section:\n\n` +
-                  pages.map(p => `- ${p.title} (${p.path}): ${p.content.substring(0, 200)}...`).join('\n\n')
+            text: total > 0 ? `No operations past offset ${offset} (${total} in total).` : "No API operations match these filters."
           }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `API operations ${offset + 1}-${offset + operations.length} of ${total}:\n\n` +
+                operations.map(operation =>
+                  `- \`${operation.method} ${operation.path}\` ${operation.summary || ''}${operation.deprecated ? ' (deprecated)' : ''}\n` +
+                  `  ${operation.operationId} in ${operation.specId}${operation.tags.length > 0 ? `, tags: ${operation.tags.join(', ')}` : ''}`
+                ).join('\n') +
+                (offset + operations.length < total ? `\n\nMore operations available: use offset ${offset + operations.length}.` : '')
         }
       ]
     };
   }
 
-  private async handleSummarizePage(args: any) {
-    const { path } = args;
-    const page = await this.store.getPage(path);
-    
-    if (!page) {
-      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+  private async handleSearchApiOperations(args: any) {
+    const { query, spec, method } = args || {};
+    if (!query || typeof query !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, "Query parameter is required and must be a string");
     }
 
+    const limit = Math.min(typeof args.limit === 'number' ? args.limit : 10, 50);
+    const operations = await this.store.searchApiOperations(query, { spec, method }, limit);
+
     return {
-      description: `Summary of ${page.title}`,
-      messages: [
+      content: [
         {
-          role: "user",
-          content: {
-            type: "text",
-            text: `Create a concise summary of this page from ${this.domainInfo.name}:\n\n**${page.title}**\n\n${page.content}`
-          }
+          type: "text",
+          text: operations.length === 0
+            ? `No API operations found for "${query}".`
+            : `API operations matching "${query}":\n\n` +
+              operations.map((operation, index) =>
+                `${index + 1}. \`${operation.method} ${operation.path}\` ${operation.summary || ''}\n   ${operation.operationId} in ${operation.specId}`
+              ).join('\n')
         }
       ]
     };
   }
 
-  private async handleCompareSections(args: any) {
-    const { section1, section2 } = args;
-    const pages1 = await this.store.getPagesBySection(section1);
-    const pages2 = await this.store.getPagesBySection(section2);
+  private async handleDescribeApiOperation(args: any) {
+    const { operation_id, method, path, spec } = args || {};
+    if (!operation_id && !(method && path)) {
+      throw new McpError(ErrorCode.InvalidParams, "Either operation_id or both method and path are required");
+    }
 
-    return {
-      description: `Comparison between ${section1} and ${section2} sections`,
-      messages: [
-        {
-          role: "user",
-          content: {
+    const matches = await this.store.findApiOperations({ spec, operationId: operation_id, method, path });
+    if (matches.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `API operation not found: ${operation_id ?? `${String(method).toUpperCase()} ${path}`}`);
+    }
+
+    if (matches.length > 1) {
+      return {
+        content: [
+          {
             type: "text",
-            text: `Compare and contrast these two sections from ${this.domainInfo.name}:\n\n**${section1}:**\n` +
-                  pages1.map(p => `- ${p.title}: ${p.content.substring(0, 150)}...`).join('\n') +
-                  `\n\n**${section2}:**\n` +
-                  pages2.map(p => `- ${p.title}: ${p.content.substring(0, 150)}...`).join('\n')
+            text: `Several specs define this operation; call again with one of these spec ids:\n\n` +
+                  matches.map(operation => `- \`${operation.specId}\`: ${operation.method} ${operation.path} (${operation.operationId})`).join('\n')
           }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: OpenApiParser.toMarkdown(matches[0])
         }
       ]
     };
   }
 
-  private async handleApiReference(args: any) {
-    const { path } = args;
-    const page = await this.store.getPage(path);
+  /**
+   * Runs one crawl at a time and syncs the store afterwards. The crawl stops
+   * early when `signal` aborts or cancelCrawl() is called. A call made while
+   * a crawl is running waits for that crawl instead of starting another.
+   */
+  private crawlAndSync(signal?: AbortSignal): Promise<GitBookContent> {
+    if (this.activeCrawl) return this.activeCrawl.done;
     
-    if (!page) {
+    const controller = new AbortController();
+    const done = (async () => {
+      try {
+        await this.scraper.scrapeAll(anySignal([signal, controller.signal]));
+        return await syncStoreFromScraper(this.store, this.scraper);
+      } finally {
+        // Only this crawl's handle; never one that started after it
+        if (this.activeCrawl?.controller === controller) this.activeCrawl = undefined;
+      }
+    })();
+    
+    this.activeCrawl = { controller, done };
+    return done;
+  }
+
+  private cancelCrawl(reason: string): boolean {
+    if (!this.activeCrawl) return false;
+    this.activeCrawl.controller.abort(new Error(reason));
+    return true;
+  }
+
+  private async handleRefreshContent(args: { cancel?: boolean } = {}, signal?: AbortSignal) {
+    if (args.cancel || this.activeCrawl) {
+      let text = "A refresh is already running. Call refresh_content with cancel: true to stop it.";
+      if (args.cancel) {
+        text = this.cancelCrawl('cancelled by refresh_content')
+          ? "Cancelling the running refresh; pages fetched so far are kept"
+          : "No refresh is running";
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text
+          }
+        ]
+      };
+    }
+    
+    await this.crawlAndSync(signal);
+    
+    const stats = await this.store.getStats();
+    const crawlReport = this.scraper.getCrawlReport();
+    const headline = crawlReport.aborted
+      ? `Refresh stopped early (${crawlReport.aborted}); pages fetched so far were kept.`
+      : `Content refreshed successfully!`;
+    let text = `${headline}\n\nStats:\n- Total pages: ${stats.totalPages}\n- Last updated: ${stats.lastUpdated}`;
+    
+    if (crawlReport.resumed) {
+      text += `\n- Resumed an interrupted crawl`;
+    }
+    
+    if (crawlReport.pagesRevalidated > 0) {
+      text += `\n- Revalidated: ${crawlReport.pagesRevalidated} pages (${crawlReport.notModified} returned 304 Not Modified)`;
+    }
+    
+    if (crawlReport.throttled > 0) {
+      text += `\n- Throttled: ${crawlReport.throttled} responses (backed off and retried)`;
+    }
+    
+    if (crawlReport.authFailures.length > 0) {
+      text += `\n\nBlocked by authentication on ${crawlReport.authFailures.length} pages (not indexed):\n` +
+              crawlReport.authFailures.slice(0, 50).map(({ url, reason }) => `- ${url} (${reason})`).join('\n');
+      if (crawlReport.authFailures.length > 50) {
+        text += `\n- ... and ${crawlReport.authFailures.length - 50} more`;
+      }
+      text += `\nCheck the AUTH_* settings (headers, cookie jar, basic auth or bearer token).`;
+    }
+    
+    const apiReport = this.store.getApiCatalogReport();
+    if (apiReport && (apiReport.specs > 0 || apiReport.failures.length > 0)) {
+      text += `\n- API catalog: ${apiReport.operations} operations in ${apiReport.specs} specs` +
+              (apiReport.updated.length > 0 ? ` (updated: ${apiReport.updated.join(', ')})` : '');
+      if (apiReport.failures.length > 0) {
+        text += `\n\nFailed to load ${apiReport.failures.length} API specs:\n` +
+                apiReport.failures.map(({ source, error }) => `- ${source} (${error})`).join('\n');
+      }
+    }
+    
+    if (crawlReport.removed.length > 0) {
+      text += `\n\nRemoved ${crawlReport.removed.length} pages that no longer exist:\n` +
+              crawlReport.removed.map(({ path, reason }) => `- ${path} (${reason})`).join('\n');
+    }
+    
+    if (crawlReport.robotsSkipped.length > 0) {
+      text += `\n\nSkipped ${crawlReport.robotsSkipped.length} URLs disallowed by robots.txt:\n` +
+              crawlReport.robotsSkipped.slice(0, 50).map(url => `- ${url}`).join('\n');
+      if (crawlReport.robotsSkipped.length > 50) {
+        text += `\n- ... and ${crawlReport.robotsSkipped.length - 50} more`;
+      }
+    }
+    
+    if (crawlReport.scopeRejected.length > 0) {
+      text += `\n\nRejected ${crawlReport.scopeRejected.length} URLs outside the crawl scope:\n` +
+              crawlReport.scopeRejected.slice(0, 50).map(({ path, reason }) => `- ${path} (${reason})`).join('\n');
+      if (crawlReport.scopeRejected.length > 50) {
+        text += `\n- ... and ${crawlReport.scopeRejected.length - 50} more`;
+      }
+    }
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text
+        }
+      ]
+    };
+  }
+
+  private async handleGetCodeBlocks(args: any) {
+    const { path, language } = args;
+    if (!path || typeof path !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, "Path is required and must be a string");
+    }
+
+    const page = await this.store.getPage(path);
+    if (!page) {
       throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
     }
 
+    // Block numbers stay those of the whole page when filtering by language
+    const blocks = page.codeBlocks
+      .map((block, index) => ({ block, index }))
+      .filter(({ block }) => !language || CodeExamples.sameLanguage(block.language, String(language)));
+
+    if (blocks.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: language ? `No ${language} code blocks found in page: ${path}` : `No code blocks found in page: ${path}`
+          }
+        ]
+      };
+    }
+
+    const tabLabel = (example: number, tab: string) => {
+      const others = page.codeExamples?.[example]?.variants.filter(variant => variant.label !== tab).map(variant => variant.label) || [];
+      return ` - tab "${tab}" of example ${example + 1}${others.length > 0 ? ` (also: ${others.join(', ')})` : ''}`;
+    };
+
     return {
-      description: `API reference for ${page.title}`,
+      content: [
+        {
+          type: "text",
+          text: `Code blocks from "${page.title}":\n\n` +
+                blocks.map(({ block, index }) => 
+                  `**Block ${index + 1}** (${block.language})${block.title ? ` - ${block.title}` : ''}` +
+                  `${block.example !== undefined && block.tab ? tabLabel(block.example, block.tab) : ''}:\n\`\`\`${block.language}\n${block.code}\n\`\`\`\n`
+                ).join('\n')
+        }
+      ]
+    };
+  }
+
+  private async handleGetPageImages(args: any) {
+    const { path } = args;
+    if (!path || typeof path !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, "Path is required and must be a string");
+    }
+
+    const page = await this.store.getPage(path);
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+    }
+
+    if (!page.images || page.images.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: page.images
+              ? `No images found in page: ${path}`
+              : `Images have not been collected for page ${path} yet; run refresh_content to collect them`
+          }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Images in "${page.title}" (${page.url}):\n\n` +
+                page.images.map((image, index) =>
+                  `**Image ${index + 1}**: ${image.src}\n` +
+                  (image.alt ? `- Alt text: ${image.alt}\n` : '') +
+                  (image.caption ? `- Caption: ${image.caption}\n` : '') +
+                  (image.title ? `- Title: ${image.title}\n` : '') +
+                  (image.heading ? `- Under heading: ${image.heading}\n` : '')
+                ).join('\n')
+        }
+      ]
+    };
+  }
+
+  private async handleGetTables(args: any) {
+    const { path, query, index } = args;
+    if (!path || typeof path !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, "Path is required and must be a string");
+    }
+
+    const page = await this.store.getPage(path);
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+    }
+
+    const tables = page.tables || [];
+    if (index !== undefined && (index < 1 || index > tables.length)) {
+      throw new McpError(ErrorCode.InvalidParams, `Table ${index} not found; ${path} has ${tables.length} tables`);
+    }
+
+    const matching = (query ? PageTables.filter(tables, query) : tables)
+      .filter(table => index === undefined || tables.indexOf(table) + 1 === index);
+
+    if (matching.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: !page.tables
+              ? `Tables have not been collected for page ${path} yet; run refresh_content to collect them`
+              : query ? `No tables matching "${query}" in page: ${path}` : `No tables found in page: ${path}`
+          }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Tables from "${page.title}":\n\n` +
+                matching.map(table =>
+                  `**Table ${tables.indexOf(table) + 1}**${table.caption ? ` - ${table.caption}` : ''}${table.heading ? ` (under "${table.heading}")` : ''}:\n\n` +
+                  `${PageTables.toMarkdown(table)}\n`
+                ).join('\n')
+        }
+      ]
+    };
+  }
+
+  private async handleGetMarkdown(args: any) {
+    const { path } = args;
+    if (!path || typeof path !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, "Path is required and must be a string");
+    }
+
+    const page = await this.store.getPage(path);
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: page.markdown
+        }
+      ]
+    };
+  }
+
+  // Simplified prompt handlers
+  private async handleExplainSection(args: any) {
+    const { section } = args;
+    const pages = await this.store.getPagesBySection(section);
+    
+    return {
+      description: `Comprehensive explanation of the ${section} section`,
       messages: [
         {
           role: "user",
           content: {
             type: "text",
-            text: `Format this content from ${this.domainInfo.name} as a structured API reference with parameters, examples, and usage information:\n\n**${page.title}**\n\n${page.content}`
+            text: `Based on the ${this.domainInfo.name} documentation, provide a comprehensive explanation and tutorial for the "${section}" section. Here are the pages in this section:\n\n` +
+                  pages.map(p => `- ${p.title} (${p.path}): ${p.content.substring(0, 200)}...`).join('\n\n')
+          }
+        }
+      ]
+    };
+  }
+
+  private async handleSummarizePage(args: any) {
+    const { path } = args;
+    const page = await this.store.getPage(path);
+    
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+    }
+
+    return {
+      description: `Summary of ${page.title}`,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Create a concise summary of this page from ${this.domainInfo.name}:\n\n**${page.title}**\n\n${page.content}`
+          }
+        }
+      ]
+    };
+  }
+
+  private async handleCompareSections(args: any) {
+    const { section1, section2 } = args;
+    const pages1 = await this.store.getPagesBySection(section1);
+    const pages2 = await this.store.getPagesBySection(section2);
+
+    return {
+      description: `Comparison between ${section1} and ${section2} sections`,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Compare and contrast these two sections from ${this.domainInfo.name}:\n\n**${section1}:**\n` +
+                  pages1.map(p => `- ${p.title}: ${p.content.substring(0, 150)}...`).join('\n') +
+                  `\n\n**${section2}:**\n` +
+                  pages2.map(p => `- ${p.title}: ${p.content.substring(0, 150)}...`).join('\n')
+          }
+        }
+      ]
+    };
+  }
+
+  private async handleApiReference(args: any) {
+    const { path, query } = args || {};
+    if (!path && !query) {
+      throw new McpError(ErrorCode.InvalidParams, "Either path or query is required");
+    }
+
+    const page = path ? await this.store.getPage(path) : undefined;
+    if (path && !page) {
+      throw new McpError(ErrorCode.InvalidParams, `Page not found: ${path}`);
+    }
+
+    // Endpoints from the API specs carry the exact parameters and schemas the page describes
+    const operations = await this.store.searchApiOperations(query || page!.title, {}, 3);
+    if (!page && operations.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No API operations found for: ${query}`);
+    }
+
+    const sections = [
+      ...operations.map(operation => OpenApiParser.toMarkdown(operation)),
+      ...(page ? [`**${page.title}**\n\n${page.content}`] : [])
+    ];
+
+    return {
+      description: `API reference for ${page?.title ?? query}`,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Format this content from ${this.domainInfo.name} as a structured API reference with parameters, examples, and usage information:\n\n${sections.join('\n\n')}`
           }
         }
       ]
@@ -1067,6 +1738,14 @@ class GitBookMCPHttpServer {
                   description: 'Number of results to skip for pagination (default: 0)',
                   minimum: 0,
                 },
+                version: {
+                  type: 'string',
+                  description: 'Docs version to search (see list_versions); defaults to the latest version, "all" searches every version',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Only return pages in this language (e.g., "fr", "pt-BR"); by default all languages are searched',
+                },
               },
               required: [],
             },
@@ -1091,7 +1770,7 @@ class GitBookMCPHttpServer {
           },
           {
             name: `${this.domainInfo.toolPrefix}get_page_outline`,
-            description: `Get the structure and outline of a specific page in ${this.domainInfo.description}`,
+            description: `Get the structure and outline of a specific page in ${this.domainInfo.description}, including how many warning callouts it has`,
             inputSchema: {
               type: 'object',
               properties: {
@@ -1111,7 +1790,15 @@ class GitBookMCPHttpServer {
               properties: {
                 path: {
                   type: "string",
-                  description: "Page path (e.g., '/api/authentication' or '/sdk/quickstart')"
+                  description: "Page path (e.g., '/api/authentication' or '/sdk/quickstart'); old paths, redirects and full page URLs also resolve"
+                },
+                version: {
+                  type: "string",
+                  description: "Optional: return the same page from this docs version"
+                },
+                locale: {
+                  type: "string",
+                  description: "Optional: return the translation of the page in this language (from its hreflang links)"
                 }
               },
               required: ["path"]
@@ -1129,7 +1816,7 @@ class GitBookMCPHttpServer {
                 },
                 language: {
                   type: 'string',
-                  description: 'Filter by programming language (e.g., "javascript", "python")',
+                  description: 'Filter by programming language (e.g., "javascript", "python"); tabbed examples answer with their tab in this language',
                 },
                 path: {
                   type: 'string',
@@ -1192,24 +1879,193 @@ class GitBookMCPHttpServer {
               required: ["section"]
             }
           },
+          {
+            name: `${this.domainInfo.toolPrefix}list_versions`,
+            description: `List the documentation versions indexed from ${this.domainInfo.name} and which one searches default to`,
+            inputSchema: {
+              type: "object",
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_toc`,
+            description: `Get the navigation tree of ${this.domainInfo.name} as laid out in the site's sidebar`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description: "Optional: return only the subtree under this page path or group title"
+                },
+                depth: {
+                  type: "number",
+                  description: "Optional: number of levels to include",
+                  minimum: 1
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}list_api_specs`,
+            description: `List the OpenAPI/Swagger specs ingested from ${this.domainInfo.name} with their operation counts`,
+            inputSchema: {
+              type: "object",
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}list_api_operations`,
+            description: `List the API endpoints (method and path) defined by the ingested OpenAPI/Swagger specs`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                spec: {
+                  type: "string",
+                  description: "Optional: only operations of this spec id (see list_api_specs)"
+                },
+                tag: {
+                  type: "string",
+                  description: "Optional: only operations with this tag"
+                },
+                method: {
+                  type: "string",
+                  description: "Optional: only operations with this HTTP method (e.g., \"POST\")"
+                },
+                limit: {
+                  type: "number",
+                  description: "Maximum number of operations to return (default: 50)",
+                  minimum: 1,
+                  maximum: 500
+                },
+                offset: {
+                  type: "number",
+                  description: "Number of operations to skip (default: 0)",
+                  minimum: 0
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}search_api_operations`,
+            description: `Search API endpoints by operation id, path, summary, description and tags`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                query: {
+                  type: "string",
+                  description: "Search query (e.g., \"create user\", \"/orders\")"
+                },
+                spec: {
+                  type: "string",
+                  description: "Optional: only search this spec id"
+                },
+                method: {
+                  type: "string",
+                  description: "Optional: only operations with this HTTP method"
+                },
+                limit: {
+                  type: "number",
+                  description: "Maximum number of operations to return (default: 10)",
+                  minimum: 1,
+                  maximum: 50
+                }
+              },
+              required: ["query"]
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}describe_api_operation`,
+            description: `Get one API endpoint in full: parameters, request body and responses with schemas ($refs resolved) and examples`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                operation_id: {
+                  type: "string",
+                  description: "Operation id (e.g., \"createUser\")"
+                },
+                method: {
+                  type: "string",
+                  description: "HTTP method, used with path instead of operation_id"
+                },
+                path: {
+                  type: "string",
+                  description: "Endpoint path as written in the spec (e.g., \"/users/{id}\")"
+                },
+                spec: {
+                  type: "string",
+                  description: "Optional: spec id, when several specs define the operation"
+                }
+              },
+              required: []
+            }
+          },
           {
             name: `${this.domainInfo.toolPrefix}refresh_content`,
             description: `Force refresh the cached content from ${this.domainInfo.name}`,
             inputSchema: {
               type: "object",
-              properties: {},
+              properties: {
+                cancel: {
+                  type: "boolean",
+                  description: "Stop the refresh that is currently running instead of starting one. Pages fetched so far are kept."
+                }
+              },
               required: []
             }
           },
           {
             name: `${this.domainInfo.toolPrefix}get_code_blocks`,
-            description: `Extract all code blocks from a specific page with syntax highlighting`,
+            description: `Extract all code blocks from a specific page with syntax highlighting; examples shown in several languages as tabs are grouped`,
             inputSchema: {
               type: "object",
               properties: {
                 path: {
                   type: "string",
                   description: "Page path (e.g., '/api/authentication')"
+                },
+                language: {
+                  type: "string",
+                  description: "Optional: only blocks in this language, e.g. 'python' picks the Python tab of each example"
+                }
+              },
+              required: ["path"]
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_page_images`,
+            description: `List the images, screenshots and diagrams on a page with their URLs, alt text, captions and the heading they appear under`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description: "Page path (e.g., '/architecture/overview')"
+                }
+              },
+              required: ["path"]
+            }
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_tables`,
+            description: `Get the tables on a page as structured data (headers and rows), e.g. rate limits, parameters or compatibility matrices`,
+            inputSchema: {
+              type: "object",
+              properties: {
+                path: {
+                  type: "string",
+                  description: "Page path (e.g., '/limits')"
+                },
+                query: {
+                  type: "string",
+                  description: "Only tables whose caption, heading or column names contain these words (e.g., 'rate limit')"
+                },
+                index: {
+                  type: "number",
+                  description: "Only the table at this position on the page (1-based)"
                 }
               },
               required: ["path"]
@@ -1233,7 +2089,7 @@ class GitBookMCPHttpServer {
       };
     });
 
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -1254,10 +2110,26 @@ class GitBookMCPHttpServer {
             return await this.handleListSections();
           case `${this.domainInfo.toolPrefix}get_section_pages`:
             return await this.handleGetSectionPages(args);
+          case `${this.domainInfo.toolPrefix}list_versions`:
+            return await this.handleListVersions();
+          case `${this.domainInfo.toolPrefix}get_toc`:
+            return await this.handleGetToc(args);
+          case `${this.domainInfo.toolPrefix}list_api_specs`:
+            return await this.handleListApiSpecs();
+          case `${this.domainInfo.toolPrefix}list_api_operations`:
+            return await this.handleListApiOperations(args);
+          case `${this.domainInfo.toolPrefix}search_api_operations`:
+            return await this.handleSearchApiOperations(args);
+          case `${this.domainInfo.toolPrefix}describe_api_operation`:
+            return await this.handleDescribeApiOperation(args);
           case `${this.domainInfo.toolPrefix}refresh_content`:
-            return await this.handleRefreshContent();
+            return await this.handleRefreshContent(args as { cancel?: boolean }, extra.signal);
           case `${this.domainInfo.toolPrefix}get_code_blocks`:
             return await this.handleGetCodeBlocks(args);
+          case `${this.domainInfo.toolPrefix}get_page_images`:
+            return await this.handleGetPageImages(args);
+          case `${this.domainInfo.toolPrefix}get_tables`:
+            return await this.handleGetTables(args);
           case `${this.domainInfo.toolPrefix}get_markdown`:
             return await this.handleGetMarkdown(args);
           default:
@@ -1326,7 +2198,12 @@ class GitBookMCPHttpServer {
               {
                 name: "path",
                 description: "The page path containing API information",
-                required: true
+                required: false
+              },
+              {
+                name: "query",
+                description: "Endpoints to look up in the API specs (e.g., \"create order\"); defaults to the page title",
+                required: false
               }
             ]
           },
@@ -1369,6 +2246,28 @@ class GitBookMCPHttpServer {
   }
 
   async run(port: number = 3001) {
+    // Graceful shutdown, also during the initial crawl
+    const shutdown = async (signal: NodeJS.Signals) => {
+      console.error('Shutting down StreamableHTTP server...');
+      if (this.activeCrawl) {
+        // Keep what the crawl fetched; the next start picks up where it left off
+        const { done } = this.activeCrawl;
+        this.cancelCrawl(`interrupted (${signal})`);
+        await done.catch(() => undefined);
+      }
+      for (const sessionId in this.transports) {
+        try {
+          await this.transports[sessionId].close();
+          delete this.transports[sessionId];
+        } catch (error) {
+          console.error(`Error closing session ${sessionId}:`, error);
+        }
+      }
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
     // Initialize content first
     await this.initializeContent();
 
@@ -1472,20 +2371,6 @@ class GitBookMCPHttpServer {
       console.error(`Detected domain: ${this.domainInfo.description}`);
       console.error(`Keywords: ${this.domainInfo.keywords.join(', ')}`);
     });
-
-    // Graceful shutdown
-    process.on('SIGINT', async () => {
-      console.error('Shutting down StreamableHTTP server...');
-      for (const sessionId in this.transports) {
-        try {
-          await this.transports[sessionId].close();
-          delete this.transports[sessionId];
-        } catch (error) {
-          console.error(`Error closing session ${sessionId}:`, error);
-        }
-      }
-      process.exit(0);
-    });
   }
 
   private async initializeContent(): Promise<void> {
@@ -1497,9 +2382,7 @@ class GitBookMCPHttpServer {
     const pageCount = await this.store.getPageCount();
     if (pageCount === 0) {
       console.error('No cached content found, running initial scrape...');
-      await this.scraper.scrapeAll();
-      const content = this.scraper.getContent();
-      await this.store.updateContent(content);
+      const content = await this.crawlAndSync();
       
       // Detect domain after initial scraping
       this.domainInfo = DomainDetector.detectDomain(content, gitBookConfig.gitbookUrl);
@@ -1524,10 +2407,8 @@ class GitBookMCPHttpServer {
     setTimeout(async () => {
       try {
         console.error('Running background update check...');
-        await this.scraper.scrapeAll();
-        const content = this.scraper.getContent();
+        const content = await this.crawlAndSync();
         if (Object.keys(content).length > 0) {
-          await this.store.updateContent(content);
           console.error('Background update completed');
         }
       } catch (error) {
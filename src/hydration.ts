@@ -0,0 +1,371 @@
+import type { CheerioAPI } from 'cheerio';
+
+export interface HydratedDocument {
+  title?: string;
+  html: string; // Rebuilt document body, ready for the normal HTML pipeline
+  source: 'gitbook-document' | 'embedded-html' | 'rsc';
+}
+
+// Bounds so a huge or cyclic payload can't stall a crawl
+const MAX_WALK_DEPTH = 60;
+const MAX_RENDERED_NODES = 200_000;
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'source', 'track', 'wbr']);
+// Followed by a newline so extracted text doesn't run blocks together
+const BLOCK_ELEMENTS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'pre', 'div', 'section', 'article', 'blockquote', 'tr', 'table', 'ul', 'ol'
+]);
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'link', 'meta', 'template', 'noscript', 'svg']);
+const KEPT_ATTRIBUTES: Record<string, string> = {
+  className: 'class', id: 'id', href: 'href', src: 'src', alt: 'alt', title: 'title', 'data-language': 'data-language'
+};
+
+const HTML_KEY_PATTERN = /html|body|content/i;
+const HTML_BLOCK_PATTERN = /<(p|h[1-6]|pre|ul|ol|table|blockquote)[\s>]/i;
+
+/**
+ * Recovers page content from client-rendered docs (Next.js, GitBook) whose
+ * HTML is a thin shell. Looks at `__NEXT_DATA__` and other JSON scripts for
+ * GitBook document trees or pre-rendered HTML strings, and at React Server
+ * Component payloads pushed through `self.__next_f`. The result is plain HTML
+ * so it goes through the same markdown and code-block extraction as any page.
+ */
+export class HydrationExtractor {
+  static extract($: CheerioAPI): HydratedDocument | null {
+    const candidates: HydratedDocument[] = [];
+
+    $('script[type="application/json"], script#__NEXT_DATA__').each((_, element) => {
+      const text = $(element).text();
+      if (!text.trim()) return;
+      try {
+        HydrationExtractor.collectFromJson(JSON.parse(text), candidates);
+      } catch {
+        // Not JSON after all
+      }
+    });
+
+    const rsc = HydrationExtractor.extractRscPayload($);
+    if (rsc) {
+      const rendered = HydrationExtractor.renderRsc(rsc);
+      if (rendered) candidates.push({ html: rendered, source: 'rsc' });
+    }
+
+    let best: HydratedDocument | null = null;
+    let bestLength = 0;
+    for (const candidate of candidates) {
+      const length = HydrationExtractor.textLength(candidate.html);
+      if (length > bestLength) {
+        best = candidate;
+        bestLength = length;
+      }
+    }
+
+    return best;
+  }
+
+  private static collectFromJson(root: unknown, candidates: HydratedDocument[]): void {
+    const walk = (value: any, key: string, parent: any, depth: number) => {
+      if (depth > MAX_WALK_DEPTH || value === null) return;
+
+      if (typeof value === 'string') {
+        if (value.length > 200 && HTML_KEY_PATTERN.test(key) && HTML_BLOCK_PATTERN.test(value)) {
+          candidates.push({ html: value, title: HydrationExtractor.titleOf(parent), source: 'embedded-html' });
+        }
+        return;
+      }
+
+      if (typeof value !== 'object') return;
+
+      if (value.object === 'document' && Array.isArray(value.nodes)) {
+        const html = HydrationExtractor.renderGitBookNodes(value.nodes);
+        if (html) {
+          candidates.push({ html, title: HydrationExtractor.titleOf(parent), source: 'gitbook-document' });
+        }
+        return;
+      }
+
+      if (Array.isArray(value)) {
+        value.forEach(item => walk(item, key, parent, depth + 1));
+      } else {
+        for (const [childKey, child] of Object.entries(value)) {
+          walk(child, childKey, value, depth + 1);
+        }
+      }
+    };
+
+    walk(root, '', null, 0);
+  }
+
+  private static titleOf(container: any): string | undefined {
+    return container && typeof container.title === 'string' ? container.title : undefined;
+  }
+
+  /**
+   * Renders GitBook's document JSON (blocks, inlines and text leaves with
+   * marks) back to HTML.
+   */
+  static renderGitBookNodes(nodes: any[]): string {
+    return nodes
+      .map(node => HydrationExtractor.renderGitBookNode(node) + (node?.object === 'block' ? '\n' : ''))
+      .join('');
+  }
+
+  private static renderGitBookNode(node: any): string {
+    if (!node || typeof node !== 'object') return '';
+
+    if (node.object === 'text') {
+      const leaves = Array.isArray(node.leaves) ? node.leaves : [{ text: node.text, marks: node.marks }];
+      return leaves.map((leaf: any) => HydrationExtractor.renderLeaf(leaf)).join('');
+    }
+
+    const children = Array.isArray(node.nodes) ? HydrationExtractor.renderGitBookNodes(node.nodes) : '';
+    const data = node.data || {};
+
+    if (node.object === 'inline') {
+      const url = data.ref?.url || data.url || data.href;
+      return node.type === 'link' && typeof url === 'string'
+        ? `<a href="${escapeAttribute(url)}">${children}</a>`
+        : children;
+    }
+
+    switch (node.type) {
+      case 'heading-1': return `<h1>${children}</h1>`;
+      case 'heading-2': return `<h2>${children}</h2>`;
+      case 'heading-3': return `<h3>${children}</h3>`;
+      case 'paragraph': return `<p>${children}</p>`;
+      case 'list-unordered':
+      case 'list-tasks': return `<ul>${children}</ul>`;
+      case 'list-ordered': return `<ol>${children}</ol>`;
+      case 'list-item': return `<li>${children}</li>`;
+      case 'blockquote': return `<blockquote>${children}</blockquote>`;
+      case 'divider': return '<hr>';
+      case 'code': {
+        const lines = (node.nodes || []).map((line: any) => HydrationExtractor.plainText(line));
+        const language = typeof data.syntax === 'string' ? ` class="language-${escapeAttribute(data.syntax)}"` : '';
+        const title = typeof data.title === 'string' ? ` data-title="${escapeAttribute(data.title)}"` : '';
+        return `<pre${title}><code${language}>${escapeHtml(lines.join('\n'))}</code></pre>`;
+      }
+      case 'hint':
+        return `<div class="hint hint-${escapeAttribute(String(data.style || 'info'))}">${children}</div>`;
+      case 'tabs':
+        return `<div class="tabs-container">${children}</div>`;
+      case 'tabs-item':
+        return `<div role="tabpanel" aria-label="${escapeAttribute(String(data.title || ''))}">${data.title ? `<h4>${escapeHtml(String(data.title))}</h4>` : ''}${children}</div>`;
+      case 'expandable':
+        return `<div>${data.title ? `<h4>${escapeHtml(String(data.title))}</h4>` : ''}${children}</div>`;
+      default:
+        return children ? `<div>${children}</div>` : '';
+    }
+  }
+
+  private static renderLeaf(leaf: any): string {
+    let html = escapeHtml(String(leaf?.text ?? ''));
+    for (const mark of leaf?.marks || []) {
+      switch (mark?.type) {
+        case 'bold': html = `<strong>${html}</strong>`; break;
+        case 'italic': html = `<em>${html}</em>`; break;
+        case 'code': html = `<code>${html}</code>`; break;
+        case 'strikethrough': html = `<s>${html}</s>`; break;
+      }
+    }
+    return html;
+  }
+
+  private static plainText(node: any): string {
+    if (!node || typeof node !== 'object') return '';
+    if (node.object === 'text') {
+      const leaves = Array.isArray(node.leaves) ? node.leaves : [{ text: node.text }];
+      return leaves.map((leaf: any) => String(leaf?.text ?? '')).join('');
+    }
+    return Array.isArray(node.nodes) ? node.nodes.map((child: any) => HydrationExtractor.plainText(child)).join('') : '';
+  }
+
+  // Concatenates the string chunks of `self.__next_f.push([1, "..."])` calls
+  private static extractRscPayload($: CheerioAPI): string | null {
+    const chunks: string[] = [];
+
+    $('script:not([src])').each((_, element) => {
+      const text = $(element).text();
+      if (!text.includes('self.__next_f.push(')) return;
+
+      let start = text.indexOf('self.__next_f.push(');
+      while (start !== -1) {
+        const argumentStart = start + 'self.__next_f.push('.length;
+        // The payload string may itself contain "])", so try each possible end in turn
+        let end = text.indexOf('])', argumentStart);
+        while (end !== -1) {
+          try {
+            const call = JSON.parse(text.substring(argumentStart, end + 1));
+            if (call[0] === 1 && typeof call[1] === 'string') {
+              chunks.push(call[1]);
+            }
+            break;
+          } catch {
+            end = text.indexOf('])', end + 1);
+          }
+        }
+        start = text.indexOf('self.__next_f.push(', argumentStart);
+      }
+    });
+
+    return chunks.length > 0 ? chunks.join('') : null;
+  }
+
+  /**
+   * Parses the RSC row format (`id:json` lines plus length-prefixed `id:T<hex>,`
+   * text rows) and renders the root element tree with the most text.
+   */
+  static renderRsc(payload: string): string | null {
+    const rows = HydrationExtractor.parseRscRows(payload);
+    const referenced = HydrationExtractor.collectRscReferences(rows);
+    let best: string | null = null;
+    let bestLength = 0;
+
+    // Referenced rows get rendered as part of the row that points at them
+    const ids = Array.from(rows.keys());
+    const roots = ids.filter(id => !referenced.has(id));
+
+    for (const id of roots.length > 0 ? roots : ids) {
+      const budget = { nodes: 0 };
+      const html = HydrationExtractor.renderRscNode(rows.get(id), rows, new Set([id]), budget, 0);
+      const length = HydrationExtractor.textLength(html);
+      if (length > bestLength) {
+        best = html;
+        bestLength = length;
+      }
+    }
+
+    return best;
+  }
+
+  private static collectRscReferences(rows: Map<string, unknown>): Set<string> {
+    const referenced = new Set<string>();
+    const walk = (value: any, depth: number) => {
+      if (depth > MAX_WALK_DEPTH || value === null) return;
+      if (typeof value === 'string') {
+        const reference = value.match(/^\$[L@]?([0-9a-f]+)$/i);
+        if (reference) referenced.add(reference[1]);
+      } else if (typeof value === 'object') {
+        for (const child of Object.values(value)) walk(child, depth + 1);
+      }
+    };
+
+    for (const row of rows.values()) {
+      if (typeof row === 'object') walk(row, 0);
+    }
+    return referenced;
+  }
+
+  private static parseRscRows(payload: string): Map<string, unknown> {
+    const rows = new Map<string, unknown>();
+    // Text row lengths are in bytes, so walk the UTF-8 encoding
+    const buffer = Buffer.from(payload, 'utf-8');
+    let position = 0;
+
+    while (position < buffer.length) {
+      const colon = buffer.indexOf(0x3a, position);
+      if (colon === -1) break;
+      const id = buffer.toString('utf-8', position, colon).trim();
+
+      if (/^[0-9a-f]+$/i.test(id) && buffer[colon + 1] === 0x54 /* T */) {
+        const comma = buffer.indexOf(0x2c, colon + 2);
+        if (comma === -1) break;
+        const length = parseInt(buffer.toString('utf-8', colon + 2, comma), 16);
+        if (isNaN(length)) break;
+        rows.set(id, buffer.toString('utf-8', comma + 1, comma + 1 + length));
+        position = comma + 1 + length;
+        continue;
+      }
+
+      const newline = buffer.indexOf(0x0a, colon);
+      const end = newline === -1 ? buffer.length : newline;
+      const body = buffer.toString('utf-8', colon + 1, end);
+      position = end + 1;
+
+      if (/^[0-9a-f]+$/i.test(id) && /^[[{"]/.test(body)) {
+        try {
+          rows.set(id, JSON.parse(body));
+        } catch {
+          // Module references and other non-JSON rows
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  private static renderRscNode(node: any, rows: Map<string, unknown>, resolving: Set<string>,
+                               budget: { nodes: number }, depth: number): string {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (depth > MAX_WALK_DEPTH || ++budget.nodes > MAX_RENDERED_NODES) return '';
+
+    if (typeof node === 'number') return String(node);
+
+    if (typeof node === 'string') {
+      const reference = node.match(/^\$[L@]?([0-9a-f]+)$/i);
+      if (reference) {
+        const id = reference[1];
+        if (resolving.has(id) || !rows.has(id)) return '';
+        resolving.add(id);
+        const html = HydrationExtractor.renderRscNode(rows.get(id), rows, resolving, budget, depth + 1);
+        resolving.delete(id);
+        return html;
+      }
+      if (node.startsWith('$$')) return escapeHtml(node.substring(1));
+      if (node.startsWith('$')) return ''; // $undefined, $Sreact.suspense, ...
+      return escapeHtml(node);
+    }
+
+    if (Array.isArray(node)) {
+      // ["$", type, key, props] is a React element
+      if (node[0] === '$' && node.length >= 4 && typeof node[1] === 'string') {
+        return HydrationExtractor.renderRscElement(node[1], node[3] || {}, rows, resolving, budget, depth);
+      }
+      return node.map(child => HydrationExtractor.renderRscNode(child, rows, resolving, budget, depth + 1)).join('');
+    }
+
+    if (typeof node === 'object') {
+      return Object.values(node)
+        .map(child => HydrationExtractor.renderRscNode(child, rows, resolving, budget, depth + 1))
+        .join('');
+    }
+
+    return '';
+  }
+
+  private static renderRscElement(type: string, props: any, rows: Map<string, unknown>, resolving: Set<string>,
+                                  budget: { nodes: number }, depth: number): string {
+    const tag = type.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(tag)) return '';
+
+    const innerHtml = props.dangerouslySetInnerHTML?.__html;
+    const children = typeof innerHtml === 'string'
+      ? innerHtml
+      : HydrationExtractor.renderRscNode(props.children, rows, resolving, budget, depth + 1);
+
+    // Client components ("$L1f") and fragments: only their children carry content
+    if (!/^[a-z][a-z0-9-]*$/.test(type)) return children;
+
+    let attributes = '';
+    for (const [prop, attribute] of Object.entries(KEPT_ATTRIBUTES)) {
+      if (typeof props[prop] === 'string') {
+        attributes += ` ${attribute}="${escapeAttribute(props[prop])}"`;
+      }
+    }
+
+    if (VOID_ELEMENTS.has(tag)) return `<${tag}${attributes}>`;
+    return `<${tag}${attributes}>${children}</${tag}>${BLOCK_ELEMENTS.has(tag) ? '\n' : ''}`;
+  }
+
+  private static textLength(html: string): number {
+    return html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim().length;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(text: string): string {
+  return escapeHtml(text).replace(/"/g, '&quot;');
+}
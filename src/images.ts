@@ -0,0 +1,143 @@
+import * as cheerio from 'cheerio';
+import { forEachMarkdownLine } from './markdownUtils.js';
+
+// An image, screenshot or diagram shown in a page's content
+export interface PageImage {
+  src: string;          // Absolute URL
+  alt: string;          // Empty for images without alt text
+  caption?: string;     // <figcaption> of the figure holding the image
+  title?: string;       // title attribute, or the title of a markdown image
+  heading?: string;     // Nearest heading above the image
+}
+
+// Tracking pixels, spacers and icons aren't worth listing
+const MIN_IMAGE_SIZE = 32;
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+
+// A heading line, a <figure> block, a markdown image or an <img> tag, in the order they appear
+const MARKDOWN_IMAGE_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$|<figure\b[^>]*>([\s\S]*?)<\/figure>|!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+(?:"([^"]*)"|'([^']*)'))?\s*\)|<img\b[^>]*>/gim;
+
+/**
+ * Collects the images a page shows, with the text that describes them:
+ * alt text, figure captions and the heading they sit under.
+ */
+export class PageImages {
+  /**
+   * Images inside `root`, the page's content element. `baseUrl` is the URL
+   * the page was served from, for resolving relative sources.
+   */
+  static fromHtml($: cheerio.CheerioAPI, root: cheerio.Cheerio<any>, baseUrl: string): PageImage[] {
+    const images: PageImage[] = [];
+    let heading: string | undefined;
+
+    root.find(`${HEADING_SELECTOR}, img`).each((_, element) => {
+      const $el = $(element);
+      if (element.tagName !== 'img') {
+        heading = cleanText($el.text()) || heading;
+        return;
+      }
+
+      const width = parseInt($el.attr('width') || '', 10);
+      const height = parseInt($el.attr('height') || '', 10);
+      if ((width && width < MIN_IMAGE_SIZE) || (height && height < MIN_IMAGE_SIZE)) return;
+
+      // Lazy-loading sites keep the real source in a data attribute
+      const source = $el.attr('data-src') || $el.attr('src') || $el.attr('srcset')?.split(',')[0].trim().split(/\s+/)[0];
+      const src = source ? resolveUrl(source, baseUrl) : null;
+      if (!src) return;
+
+      const caption = cleanText($el.closest('figure').find('figcaption').first().text());
+      PageImages.add(images, {
+        src,
+        alt: cleanText($el.attr('alt') || ''),
+        caption: caption || undefined,
+        title: cleanText($el.attr('title') || '') || undefined,
+        heading
+      });
+    });
+
+    return images;
+  }
+
+  // Images in Markdown/MDX: ![alt](src "title"), <img> tags and <figure> blocks
+  static fromMarkdown(markdown: string, baseUrl: string): PageImage[] {
+    const lines: string[] = [];
+    forEachMarkdownLine(markdown, (line, inFence) => lines.push(inFence ? '' : line));
+
+    const images: PageImage[] = [];
+    let heading: string | undefined;
+    for (const match of lines.join('\n').matchAll(MARKDOWN_IMAGE_PATTERN)) {
+      if (match[1]) {
+        heading = cleanText(match[2].replace(/[*_`]/g, ''));
+      } else if (match[3] !== undefined) {
+        const figcaption = match[3].match(/<figcaption\b[^>]*>([\s\S]*?)<\/figcaption>/i)?.[1];
+        const caption = figcaption ? cleanText(figcaption.replace(/<[^>]+>/g, '')) || undefined : undefined;
+        for (const tag of match[3].match(/<img\b[^>]*>/gi) || []) {
+          PageImages.addTag(images, tag, baseUrl, heading, caption);
+        }
+        // Markdown images inside the figure
+        for (const inner of match[3].matchAll(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?\s*\)/g)) {
+          const src = resolveUrl(inner[2], baseUrl);
+          if (src) PageImages.add(images, { src, alt: cleanText(inner[1]), caption, heading });
+        }
+      } else if (match[5]) {
+        const src = resolveUrl(match[5], baseUrl);
+        if (src) {
+          PageImages.add(images, { src, alt: cleanText(match[4]), title: cleanText(match[6] ?? match[7] ?? '') || undefined, heading });
+        }
+      } else {
+        PageImages.addTag(images, match[0], baseUrl, heading);
+      }
+    }
+    return images;
+  }
+
+  // Alt text, titles and captions, for the page's searchable text
+  static searchText(images: PageImage[]): string {
+    return images
+      .flatMap(image => [image.alt, image.title, image.caption])
+      .filter((text): text is string => Boolean(text))
+      .join('\n');
+  }
+
+  private static addTag(images: PageImage[], tag: string, baseUrl: string, heading?: string, caption?: string): void {
+    const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))?.slice(1).find(value => value !== undefined);
+    const source = attribute('src');
+    const src = source ? resolveUrl(source, baseUrl) : null;
+    if (!src) return;
+    PageImages.add(images, {
+      src,
+      alt: cleanText(attribute('alt') || ''),
+      caption,
+      title: cleanText(attribute('title') || '') || undefined,
+      heading
+    });
+  }
+
+  // The same image shown twice (light/dark variants, repeated logos) is listed once
+  private static add(images: PageImage[], image: PageImage): void {
+    const existing = images.find(other => other.src === image.src);
+    if (!existing) {
+      images.push(image);
+      return;
+    }
+    existing.alt ||= image.alt;
+    existing.caption ??= image.caption;
+    existing.title ??= image.title;
+  }
+}
+
+// Absolute http(s) or file URL; inline data: images and unparseable sources give null
+function resolveUrl(source: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(source.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'file:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -10,18 +10,25 @@ import {
   GetPromptRequestSchema,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
-import { GitBookScraper } from './scraper.js';
+import { GitBookContent } from './scraper.js';
+import { ContentSource, createContentSource, syncApiCatalogFromSource, syncStoreFromScraper } from './contentSource.js';
 import { ContentStore } from './store.js';
 import { SQLiteStore } from './sqliteStore.js';
-import { gitBookConfig, validateConfig, logConfig, getCacheFilePath } from './config.js';
+import { gitBookConfig, validateConfig, logConfig, getCacheFilePath, describeAuthSettings } from './config.js';
 import { DomainDetector, DomainInfo } from './domainDetector.js';
 import { ResponseUtils } from './responseUtils.js';
+import { anySignal } from './abortUtils.js';
+import { TocParser } from './toc.js';
+import { OpenApiParser } from './openapi.js';
+import { PageTables } from './tables.js';
+import { CodeExamples } from './codeExamples.js';
 
 class GitBookMCPServer {
   private server: Server;
-  private scraper: GitBookScraper;
+  private scraper: ContentSource;
   private store: SQLiteStore;
   private domainInfo: DomainInfo;
+  private activeCrawl?: { controller: AbortController; done: Promise<GitBookContent> };
 
   constructor() {
     // Validate configuration
@@ -52,8 +59,9 @@ class GitBookMCPServer {
       }
     );
 
-    this.scraper = new GitBookScraper(gitBookConfig.gitbookUrl);
+    this.scraper = createContentSource();
     this.store = new SQLiteStore(gitBookConfig.gitbookUrl);
+    this.scraper.setCrawlStateStore?.(this.store);
     this.setupHandlers();
   }
 
@@ -86,6 +94,14 @@ class GitBookMCPServer {
                   description: 'Number of results to skip for pagination (default: 0)',
                   minimum: 0,
                 },
+                version: {
+                  type: 'string',
+                  description: 'Docs version to search (see list_versions); defaults to the latest version, "all" searches every version',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Only return pages in this language (e.g., "fr", "pt-BR"); by default all languages are searched',
+                },
               },
               required: [],
             },
@@ -110,7 +126,7 @@ class GitBookMCPServer {
           },
           {
             name: `${this.domainInfo.toolPrefix}get_page_outline`,
-            description: `Get the structure and outline of a specific page in ${this.domainInfo.description}`,
+            description: `Get the structure and outline of a specific page in ${this.domainInfo.description}, including how many warning callouts it has`,
             inputSchema: {
               type: 'object',
               properties: {
@@ -130,7 +146,15 @@ class GitBookMCPServer {
               properties: {
                 path: {
                   type: 'string',
-                  description: 'Page path (e.g., "/sdk/websdk")',
+                  description: 'Page path (e.g., "/sdk/websdk"); old paths, redirects and full page URLs also resolve',
+                },
+                version: {
+                  type: 'string',
+                  description: 'Optional: return the same page from this docs version',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Optional: return the translation of the page in this language (from its hreflang links)',
                 },
               },
               required: ['path'],
@@ -148,7 +172,7 @@ class GitBookMCPServer {
                 },
                 language: {
                   type: 'string',
-                  description: 'Filter by programming language (e.g., "javascript", "python")',
+                  description: 'Filter by programming language (e.g., "javascript", "python"); tabbed examples answer with their tab in this language',
                 },
                 path: {
                   type: 'string',
@@ -221,12 +245,136 @@ class GitBookMCPServer {
               required: ['section'],
             },
           },
+          {
+            name: `${this.domainInfo.toolPrefix}list_versions`,
+            description: `List the documentation versions indexed from ${this.domainInfo.description} and which one searches default to`,
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_toc`,
+            description: `Get the navigation tree of ${this.domainInfo.description} as laid out in the site's sidebar`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'Optional: return only the subtree under this page path or group title',
+                },
+                depth: {
+                  type: 'number',
+                  description: 'Optional: number of levels to include',
+                  minimum: 1,
+                },
+              },
+            },
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}list_api_specs`,
+            description: `List the OpenAPI/Swagger specs ingested from ${this.domainInfo.description} with their operation counts`,
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}list_api_operations`,
+            description: `List the API endpoints (method and path) defined by the ingested OpenAPI/Swagger specs`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                spec: {
+                  type: 'string',
+                  description: 'Optional: only operations of this spec id (see list_api_specs)',
+                },
+                tag: {
+                  type: 'string',
+                  description: 'Optional: only operations with this tag',
+                },
+                method: {
+                  type: 'string',
+                  description: 'Optional: only operations with this HTTP method (e.g., "POST")',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of operations to return (default: 50)',
+                  minimum: 1,
+                  maximum: 500,
+                },
+                offset: {
+                  type: 'number',
+                  description: 'Number of operations to skip (default: 0)',
+                  minimum: 0,
+                },
+              },
+            },
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}search_api_operations`,
+            description: `Search API endpoints by operation id, path, summary, description and tags`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Search query (e.g., "create user", "/orders")',
+                },
+                spec: {
+                  type: 'string',
+                  description: 'Optional: only search this spec id',
+                },
+                method: {
+                  type: 'string',
+                  description: 'Optional: only operations with this HTTP method',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of operations to return (default: 10)',
+                  minimum: 1,
+                  maximum: 50,
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}describe_api_operation`,
+            description: `Get one API endpoint in full: parameters, request body and responses with schemas ($refs resolved) and examples`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                operation_id: {
+                  type: 'string',
+                  description: 'Operation id (e.g., "createUser")',
+                },
+                method: {
+                  type: 'string',
+                  description: 'HTTP method, used with path instead of operation_id',
+                },
+                path: {
+                  type: 'string',
+                  description: 'Endpoint path as written in the spec (e.g., "/users/{id}")',
+                },
+                spec: {
+                  type: 'string',
+                  description: 'Optional: spec id, when several specs define the operation',
+                },
+              },
+            },
+          },
           {
             name: `${this.domainInfo.toolPrefix}refresh_content`,
             description: `Refresh cached content from ${this.domainInfo.description}`,
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                cancel: {
+                  type: 'boolean',
+                  description: 'Stop the refresh that is currently running instead of starting one. Pages fetched so far are kept.',
+                },
+              },
             },
           },
           {
@@ -239,7 +387,7 @@ class GitBookMCPServer {
           },
           {
             name: `${this.domainInfo.toolPrefix}get_code_blocks`,
-            description: `Extract all code blocks from a specific page with syntax highlighting`,
+            description: `Extract all code blocks from a specific page with syntax highlighting; examples shown in several languages as tabs are grouped`,
             inputSchema: {
               type: 'object',
               properties: {
@@ -247,6 +395,46 @@ class GitBookMCPServer {
                   type: 'string',
                   description: 'Page path (e.g., "/api/authentication")',
                 },
+                language: {
+                  type: 'string',
+                  description: 'Optional: only blocks in this language, e.g. "python" picks the Python tab of each example',
+                },
+              },
+              required: ['path'],
+            },
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_page_images`,
+            description: `List the images, screenshots and diagrams on a page with their URLs, alt text, captions and the heading they appear under`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'Page path (e.g., "/architecture/overview")',
+                },
+              },
+              required: ['path'],
+            },
+          },
+          {
+            name: `${this.domainInfo.toolPrefix}get_tables`,
+            description: `Get the tables on a page as structured data (headers and rows), e.g. rate limits, parameters or compatibility matrices`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'Page path (e.g., "/limits")',
+                },
+                query: {
+                  type: 'string',
+                  description: 'Only tables whose caption, heading or column names contain these words (e.g., "rate limit")',
+                },
+                index: {
+                  type: 'number',
+                  description: 'Only the table at this position on the page (1-based)',
+                },
               },
               required: ['path'],
             },
@@ -362,7 +550,7 @@ class GitBookMCPServer {
       }
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -371,13 +559,13 @@ class GitBookMCPServer {
         
         switch (baseName) {
           case 'search_content':
-            return await this.handleSearchContent(args as { query?: string; continuation_token?: string; limit?: number; offset?: number });
+            return await this.handleSearchContent(args as { query?: string; continuation_token?: string; limit?: number; offset?: number; version?: string; locale?: string });
           case 'get_page_section':
             return await this.handleGetPageSection(args as { path: string; section?: string });
           case 'get_page_outline':
             return await this.handleGetPageOutline(args as { path: string });
           case 'get_page':
-            return await this.handleGetPage(args as { path: string });
+            return await this.handleGetPage(args as { path: string; version?: string; locale?: string });
           case 'search_code':
             return await this.handleSearchCode(args as { query: string; language?: string; path?: string; limit?: number });
           case 'get_related_pages':
@@ -386,12 +574,28 @@ class GitBookMCPServer {
             return await this.handleListSections();
           case 'get_section_pages':
             return await this.handleGetSectionPages(args as { section: string; limit?: number; offset?: number });
+          case 'list_versions':
+            return await this.handleListVersions();
+          case 'get_toc':
+            return await this.handleGetToc(args as { path?: string; depth?: number });
+          case 'list_api_specs':
+            return await this.handleListApiSpecs();
+          case 'list_api_operations':
+            return await this.handleListApiOperations(args as { spec?: string; tag?: string; method?: string; limit?: number; offset?: number });
+          case 'search_api_operations':
+            return await this.handleSearchApiOperations(args as { query: string; spec?: string; method?: string; limit?: number });
+          case 'describe_api_operation':
+            return await this.handleDescribeApiOperation(args as { operation_id?: string; method?: string; path?: string; spec?: string });
           case 'refresh_content':
-            return await this.handleRefreshContent();
+            return await this.handleRefreshContent(args as { cancel?: boolean }, extra.signal);
           case 'get_status':
             return await this.handleGetStatus();
           case 'get_code_blocks':
-            return await this.handleGetCodeBlocks(args as { path: string });
+            return await this.handleGetCodeBlocks(args as { path: string; language?: string });
+          case 'get_page_images':
+            return await this.handleGetPageImages(args as { path: string });
+          case 'get_tables':
+            return await this.handleGetTables(args as { path: string; query?: string; index?: number });
           case 'get_markdown':
             return await this.handleGetMarkdown(args as { path: string });
           default:
@@ -406,10 +610,12 @@ class GitBookMCPServer {
     });
   }
 
-  private async handleSearchContent(args: { query?: string; continuation_token?: string; limit?: number; offset?: number }) {
+  private async handleSearchContent(args: { query?: string; continuation_token?: string; limit?: number; offset?: number; version?: string; locale?: string }) {
     let query: string;
     let requestedLimit = Math.min(args.limit || 20, 50);
     let offset = args.offset || 0;
+    let version = args.version;
+    let locale = args.locale;
 
     // Handle continuation token
     if (args.continuation_token) {
@@ -417,6 +623,8 @@ class GitBookMCPServer {
         const tokenData = ResponseUtils.parseContinuationToken(args.continuation_token);
         query = tokenData.q;
         offset = tokenData.o;
+        version = tokenData.v;
+        locale = tokenData.l;
         // Keep the original limit if not overridden
         if (!args.limit) requestedLimit = 20;
       } catch (error) {
@@ -430,11 +638,11 @@ class GitBookMCPServer {
     
     // Get total count first
     const totalResults = await (this.store as any).searchContentCount ? 
-      await (this.store as any).searchContentCount(query) : null;
+      await (this.store as any).searchContentCount(query, { version, locale }) : null;
     
     // For dynamic pagination, we need to get more results than requested to calculate proper limits
     const batchSize = Math.min(requestedLimit * 3, 150); // Get up to 3x requested or max 150
-    const results = await (this.store as any).searchContent(query, batchSize, offset);
+    const results = await (this.store as any).searchContent(query, batchSize, offset, { version, locale });
     
     // Use actual result count if we don't have a count method
     const actualTotal = totalResults !== null ? totalResults : (offset + results.length + (results.length === batchSize ? 1 : 0));
@@ -447,7 +655,8 @@ class GitBookMCPServer {
       offset, 
       actualTotal, 
       this.domainInfo.toolPrefix,
-      'search_content'
+      'search_content',
+      { v: version, l: locale }
     );
     
     return ResponseUtils.formatMcpResponse(tokenSafeResponse);
@@ -529,10 +738,11 @@ class GitBookMCPServer {
     return ResponseUtils.formatMcpResponse(tokenSafeResponse);
   }
 
-  private async handleGetPage(args: { path: string }) {
-    const page = await this.store.getPage(args.path);
+  private async handleGetPage(args: { path: string; version?: string; locale?: string }) {
+    const page = await this.store.getPage(args.path, { version: args.version, locale: args.locale });
     if (!page) {
-      throw new McpError(ErrorCode.InvalidRequest, `Page not found: ${args.path}`);
+      const scope = [args.version && `version ${args.version}`, args.locale && `locale ${args.locale}`].filter(Boolean).join(', ');
+      throw new McpError(ErrorCode.InvalidRequest, `Page not found: ${args.path}${scope ? ` (${scope})` : ''}`);
     }
 
     // Use token-safe response formatting
@@ -590,9 +800,16 @@ class GitBookMCPServer {
     const results: any[] = [];
     const queryLower = query.toLowerCase();
     
+    const answeredExamples = new Set<number>();
+    
     page.codeBlocks.forEach((block: any, index: number) => {
+      // A match in any tab of an example is answered with the tab in the requested language
+      const variantIndex = language && block.example !== undefined
+        ? CodeExamples.variantIn(page.codeExamples?.[block.example], language)
+        : -1;
+      
       // Filter by language if specified
-      if (language && block.language.toLowerCase() !== language.toLowerCase()) {
+      if (language && !CodeExamples.sameLanguage(block.language, language) && variantIndex === -1) {
         return;
       }
       
@@ -609,11 +826,42 @@ class GitBookMCPServer {
         }
       });
       
-      // Also check title and language
+      // Also check title, language and tab label
       const titleMatch = block.title && block.title.toLowerCase().includes(queryLower);
-      const languageMatch = block.language.toLowerCase().includes(queryLower);
+      const languageMatch = block.language.toLowerCase().includes(queryLower) ||
+        (block.tab && block.tab.toLowerCase().includes(queryLower));
       
       if (matchingLines.length > 0 || titleMatch || languageMatch) {
+        if (variantIndex !== -1 && variantIndex !== index) {
+          if (answeredExamples.has(block.example)) return;
+          answeredExamples.add(block.example);
+          const variant = page.codeBlocks[variantIndex];
+          const variantLines = variant.code.split('\n');
+          results.push({
+            page: {
+              title: page.title,
+              path: page.path,
+              section: page.section
+            },
+            codeBlock: {
+              index: variantIndex + 1,
+              language: variant.language,
+              title: variant.title,
+              tab: variant.tab,
+              otherTabs: this.exampleTabs(page, block.example, variantIndex),
+              lineCount: variantLines.length,
+              matches: [],
+              matchType: 'example',
+              matchedIn: block.tab,
+              preview: variantLines.slice(0, 3).join('\n') + (variantLines.length > 3 ? '\n...' : '')
+            }
+          });
+          return;
+        }
+        if (block.example !== undefined) {
+          if (answeredExamples.has(block.example)) return;
+          answeredExamples.add(block.example);
+        }
         results.push({
           page: {
             title: page.title,
@@ -624,6 +872,8 @@ class GitBookMCPServer {
             index: index + 1,
             language: block.language,
             title: block.title,
+            tab: block.tab,
+            otherTabs: block.example !== undefined ? this.exampleTabs(page, block.example, index) : undefined,
             lineCount: codeLines.length,
             matches: matchingLines.slice(0, 5), // Limit matches shown
             matchType: titleMatch ? 'title' : languageMatch ? 'language' : 'content',
@@ -636,6 +886,13 @@ class GitBookMCPServer {
     return results;
   }
 
+  // Labels of an example's other tabs, so callers know which languages they can ask for
+  private exampleTabs(page: any, example: number, shownIndex: number): string[] | undefined {
+    return page.codeExamples?.[example]?.variants
+      .filter((variant: any) => variant.block !== shownIndex)
+      .map((variant: any) => variant.label);
+  }
+
   private async searchCodeGlobally(query: string, limit: number, language?: string): Promise<any[]> {
     // This would need to be implemented based on your store's capabilities
     // For now, we'll do a simplified search by getting all pages and searching their code blocks
@@ -835,13 +1092,194 @@ class GitBookMCPServer {
     };
   }
 
-  private async handleRefreshContent() {
-    await this.scraper.scrapeAll();
-    const content = this.scraper.getContent();
-    await this.store.updateContent(content);
+  private async handleListVersions() {
+    const versions = await this.store.listVersions();
+    const response = {
+      versions,
+      defaultVersion: versions.find(entry => entry.isDefault)?.version ?? null,
+      unversionedPages: await this.store.getUnversionedPageCount(),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetToc(args: { path?: string; depth?: number }) {
+    const entries = await this.store.getTocEntries();
+    let rootPath = args.path;
+    if (rootPath && !entries.some(entry => entry.path === rootPath)) {
+      // Old paths and redirects resolve to the page the sidebar links to
+      rootPath = (await this.store.getPage(rootPath))?.path ?? rootPath;
+    }
+
+    const tree = TocParser.buildTree(entries, rootPath, args.depth);
+    if (!tree) {
+      throw new McpError(ErrorCode.InvalidRequest, `No table of contents entry for: ${args.path}`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ root: args.path ?? null, toc: tree }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleListApiSpecs() {
+    const response = {
+      specs: await this.store.listApiSpecs(),
+      lastSync: this.store.getApiCatalogReport(),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleListApiOperations(args: { spec?: string; tag?: string; method?: string; limit?: number; offset?: number }) {
+    const limit = Math.min(args.limit ?? 50, 500);
+    const offset = args.offset ?? 0;
+    const { operations, total } = await this.store.listApiOperations({ spec: args.spec, tag: args.tag, method: args.method }, limit, offset);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ total, offset, hasMore: offset + operations.length < total, operations }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSearchApiOperations(args: { query: string; spec?: string; method?: string; limit?: number }) {
+    if (!args.query || typeof args.query !== 'string') {
+      throw new McpError(ErrorCode.InvalidRequest, 'Query parameter is required and must be a string');
+    }
+
+    const operations = await this.store.searchApiOperations(args.query, { spec: args.spec, method: args.method }, Math.min(args.limit ?? 10, 50));
+    const results = operations.map(({ specId, operationId, method, path, summary, tags, deprecated }) =>
+      ({ specId, operationId, method, path, summary, tags, deprecated }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ query: args.query, results }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleDescribeApiOperation(args: { operation_id?: string; method?: string; path?: string; spec?: string }) {
+    if (!args.operation_id && !(args.method && args.path)) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Either operation_id or both method and path are required');
+    }
+
+    const matches = await this.store.findApiOperations({
+      spec: args.spec,
+      operationId: args.operation_id,
+      method: args.method,
+      path: args.path,
+    });
+    if (matches.length === 0) {
+      const target = args.operation_id ?? `${args.method!.toUpperCase()} ${args.path}`;
+      throw new McpError(ErrorCode.InvalidRequest, `API operation not found: ${target}`);
+    }
+
+    // Several specs may share an operation id; let the caller pick one
+    const response = matches.length === 1
+      ? matches[0]
+      : { ambiguous: true, candidates: matches.map(({ specId, operationId, method, path }) => ({ specId, operationId, method, path })) };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Runs one crawl at a time and syncs the store afterwards. The crawl stops
+   * early when `signal` aborts or cancelCrawl() is called. A call made while
+   * a crawl is running waits for that crawl instead of starting another.
+   */
+  private crawlAndSync(signal?: AbortSignal): Promise<GitBookContent> {
+    if (this.activeCrawl) return this.activeCrawl.done;
+    
+    const controller = new AbortController();
+    const done = (async () => {
+      try {
+        await this.scraper.scrapeAll(anySignal([signal, controller.signal]));
+        return await syncStoreFromScraper(this.store, this.scraper);
+      } finally {
+        // Only this crawl's handle; never one that started after it
+        if (this.activeCrawl?.controller === controller) this.activeCrawl = undefined;
+      }
+    })();
+    
+    this.activeCrawl = { controller, done };
+    return done;
+  }
+
+  private cancelCrawl(reason: string): boolean {
+    if (!this.activeCrawl) return false;
+    this.activeCrawl.controller.abort(new Error(reason));
+    return true;
+  }
+
+  private async handleRefreshContent(args: { cancel?: boolean } = {}, signal?: AbortSignal) {
+    if (args.cancel || this.activeCrawl) {
+      let text = 'A refresh is already running. Call refresh_content with cancel: true to stop it.';
+      if (args.cancel) {
+        text = this.cancelCrawl('cancelled by refresh_content')
+          ? 'Cancelling the running refresh; pages fetched so far are kept'
+          : 'No refresh is running';
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    }
+    
+    const content = await this.crawlAndSync(signal);
     
     const failureStats = this.scraper.getFailureStats();
-    let message = `Refreshed ${Object.keys(content).length} pages`;
+    const crawlReport = this.scraper.getCrawlReport();
+    let message = crawlReport.aborted
+      ? `Refresh stopped early (${crawlReport.aborted}); kept ${Object.keys(content).length} pages`
+      : `Refreshed ${Object.keys(content).length} pages`;
+    
+    if (crawlReport.resumed) {
+      message += `\nResumed an interrupted crawl instead of starting over`;
+    }
+    
+    if (crawlReport.pagesRevalidated > 0) {
+      message += `\nRevalidated ${crawlReport.pagesRevalidated} cached pages, ${crawlReport.notModified} returned 304 Not Modified`;
+    }
+    
+    if (crawlReport.throttled > 0) {
+      message += `\nThe server throttled ${crawlReport.throttled} requests; concurrency was reduced and retries honored Retry-After`;
+    }
     
     if (failureStats.failedPages.length > 0) {
       message += `\n\nWarning: ${failureStats.failedPages.length} pages failed to scrape:`;
@@ -851,6 +1289,58 @@ class GitBookMCPServer {
       message += `\n\nTotal retries attempted: ${failureStats.totalRetries}`;
     }
     
+    if (crawlReport.authFailures.length > 0) {
+      message += `\n\nBlocked by authentication on ${crawlReport.authFailures.length} pages (not indexed):`;
+      crawlReport.authFailures.slice(0, 50).forEach(({ url, reason }) => {
+        message += `\n- ${url} (${reason})`;
+      });
+      if (crawlReport.authFailures.length > 50) {
+        message += `\n- ... and ${crawlReport.authFailures.length - 50} more`;
+      }
+      message += `\nCheck the AUTH_* settings (headers, cookie jar, basic auth or bearer token).`;
+    }
+    
+    const apiReport = this.store.getApiCatalogReport();
+    if (apiReport && (apiReport.specs > 0 || apiReport.failures.length > 0)) {
+      message += `\n\nAPI catalog: ${apiReport.operations} operations in ${apiReport.specs} specs`;
+      if (apiReport.updated.length > 0) {
+        message += `, updated ${apiReport.updated.join(', ')}`;
+      }
+      if (apiReport.removed.length > 0) {
+        message += `, removed ${apiReport.removed.join(', ')}`;
+      }
+      apiReport.failures.forEach(({ source, error }) => {
+        message += `\n- Failed to load ${source}: ${error}`;
+      });
+    }
+    
+    if (crawlReport.removed.length > 0) {
+      message += `\n\nRemoved ${crawlReport.removed.length} pages that no longer exist:`;
+      crawlReport.removed.forEach(({ path, reason }) => {
+        message += `\n- ${path} (${reason})`;
+      });
+    }
+    
+    if (crawlReport.robotsSkipped.length > 0) {
+      message += `\n\nSkipped ${crawlReport.robotsSkipped.length} URLs disallowed by robots.txt:`;
+      crawlReport.robotsSkipped.slice(0, 50).forEach(url => {
+        message += `\n- ${url}`;
+      });
+      if (crawlReport.robotsSkipped.length > 50) {
+        message += `\n- ... and ${crawlReport.robotsSkipped.length - 50} more`;
+      }
+    }
+    
+    if (crawlReport.scopeRejected.length > 0) {
+      message += `\n\nRejected ${crawlReport.scopeRejected.length} URLs outside the crawl scope:`;
+      crawlReport.scopeRejected.slice(0, 50).forEach(({ path, reason }) => {
+        message += `\n- ${path} (${reason})`;
+      });
+      if (crawlReport.scopeRejected.length > 50) {
+        message += `\n- ... and ${crawlReport.scopeRejected.length - 50} more`;
+      }
+    }
+    
     return {
       content: [
         {
@@ -870,14 +1360,19 @@ class GitBookMCPServer {
         name: this.domainInfo.name,
         description: this.domainInfo.description,
         version: gitBookConfig.serverVersion,
-        url: gitBookConfig.gitbookUrl
+        url: gitBookConfig.gitbookUrl,
+        platform: this.store.getPlatform(),
+        source: gitBookConfig.docsSource,
+        commit: this.store.getSourceCommit()
       },
       content: {
         totalPages: stats.totalPages,
         sections: stats.sections,
         lastUpdated: stats.lastUpdated,
-        avgContentAgeHours: stats.avgContentAge
+        avgContentAgeHours: stats.avgContentAge,
+        locales: await this.store.listLocales()
       },
+      apiCatalog: this.store.getApiCatalogReport(),
       failures: {
         failedPages: failureStats.failedPages,
         totalFailures: failureStats.failedPages.length,
@@ -887,10 +1382,22 @@ class GitBookMCPServer {
         file: gitBookConfig.cacheFile,
         ttlHours: gitBookConfig.cacheTtlHours
       },
+      crawl: {
+        inProgress: this.activeCrawl !== undefined,
+        // Per-URL progress of a running or interrupted full crawl; null when there is nothing to resume
+        frontier: this.store.getFrontierProgress()
+      },
       config: {
         maxRetries: gitBookConfig.maxRetries,
         maxConcurrentRequests: gitBookConfig.maxConcurrentRequests,
-        scrapingDelayMs: gitBookConfig.scrapingDelayMs
+        scrapingDelayMs: gitBookConfig.scrapingDelayMs,
+        userAgent: gitBookConfig.userAgent,
+        respectRobotsTxt: gitBookConfig.respectRobotsTxt,
+        authentication: describeAuthSettings(),
+        crawlInclude: gitBookConfig.crawlInclude,
+        crawlExclude: gitBookConfig.crawlExclude,
+        crawlMaxDepth: gitBookConfig.crawlMaxDepth,
+        crawlMaxPages: gitBookConfig.crawlMaxPages
       }
     };
     
@@ -904,7 +1411,7 @@ class GitBookMCPServer {
     };
   }
 
-  private async handleGetCodeBlocks(args: { path: string }) {
+  private async handleGetCodeBlocks(args: { path: string; language?: string }) {
     if (!args.path || typeof args.path !== 'string') {
       throw new McpError(ErrorCode.InvalidRequest, 'Path parameter is required and must be a string');
     }
@@ -914,25 +1421,39 @@ class GitBookMCPServer {
       throw new McpError(ErrorCode.InvalidRequest, `Page not found: ${args.path}`);
     }
 
+    // Block numbers stay those of the whole page when filtering by language
+    const blocks = page.codeBlocks
+      .map((block, index) => ({ block, index }))
+      .filter(({ block }) => !args.language || CodeExamples.sameLanguage(block.language, args.language));
+
     const response = {
       page: {
         title: page.title,
         path: page.path,
         section: page.section
       },
-      codeBlocks: page.codeBlocks.map((block, index) => ({
+      language: args.language,
+      codeBlocks: blocks.map(({ block, index }) => ({
         index: index + 1,
         language: block.language,
         title: block.title,
+        tab: block.tab,
+        example: block.example !== undefined ? block.example + 1 : undefined,
         lineNumbers: block.lineNumbers,
         code: block.code,
         codeLength: block.code.length,
         lineCount: block.code.split('\n').length
       })),
+      codeExamples: page.codeExamples?.map((example, index) => ({
+        index: index + 1,
+        heading: example.heading,
+        tabs: example.variants.map(variant => ({ label: variant.label, language: variant.language, block: variant.block + 1 }))
+      })),
       summary: {
-        totalBlocks: page.codeBlocks.length,
-        languages: [...new Set(page.codeBlocks.map(b => b.language))],
-        totalLines: page.codeBlocks.reduce((sum, b) => sum + b.code.split('\n').length, 0)
+        totalBlocks: blocks.length,
+        languages: [...new Set(blocks.map(({ block }) => block.language))],
+        totalLines: blocks.reduce((sum, { block }) => sum + block.code.split('\n').length, 0),
+        examples: page.codeExamples?.length ?? 0
       }
     };
 
@@ -946,6 +1467,88 @@ class GitBookMCPServer {
     };
   }
 
+  private async handleGetPageImages(args: { path: string }) {
+    if (!args.path || typeof args.path !== 'string') {
+      throw new McpError(ErrorCode.InvalidRequest, 'Path parameter is required and must be a string');
+    }
+
+    const page = await this.store.getPage(args.path);
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidRequest, `Page not found: ${args.path}`);
+    }
+
+    const images = page.images || [];
+    const response = {
+      page: {
+        title: page.title,
+        path: page.path,
+        section: page.section,
+        url: page.url
+      },
+      images: images.map((image, index) => ({ index: index + 1, ...image })),
+      summary: {
+        totalImages: images.length,
+        withAltText: images.filter(image => image.alt).length,
+        withCaption: images.filter(image => image.caption).length
+      },
+      // Pages cached before images were collected get them on their next refresh
+      ...(page.images ? {} : { note: 'Images have not been collected for this page yet; run refresh_content to collect them' })
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetTables(args: { path: string; query?: string; index?: number }) {
+    if (!args.path || typeof args.path !== 'string') {
+      throw new McpError(ErrorCode.InvalidRequest, 'Path parameter is required and must be a string');
+    }
+
+    const page = await this.store.getPage(args.path);
+    if (!page) {
+      throw new McpError(ErrorCode.InvalidRequest, `Page not found: ${args.path}`);
+    }
+
+    const tables = page.tables || [];
+    if (args.index !== undefined && (args.index < 1 || args.index > tables.length)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Table ${args.index} not found; ${args.path} has ${tables.length} tables`);
+    }
+
+    // Positions refer to the page's full table list, whatever the filter
+    const matching = (args.query ? PageTables.filter(tables, args.query) : tables)
+      .map(table => ({ index: tables.indexOf(table) + 1, ...table }))
+      .filter(table => args.index === undefined || table.index === args.index);
+
+    const response = {
+      page: {
+        title: page.title,
+        path: page.path,
+        section: page.section
+      },
+      tables: matching.map(table => ({ ...table, rowCount: table.rows.length })),
+      summary: {
+        totalTables: tables.length,
+        matching: matching.length
+      },
+      ...(page.tables ? {} : { note: 'Tables have not been collected for this page yet; run refresh_content to collect them' })
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
   private async handleGetMarkdown(args: { path: string }) {
     if (!args.path || typeof args.path !== 'string') {
       throw new McpError(ErrorCode.InvalidRequest, 'Path parameter is required and must be a string');
@@ -1115,15 +1718,20 @@ Use the actual content from both sections to make accurate comparisons.`,
       throw new McpError(ErrorCode.InvalidRequest, 'Query parameter is required and must be a string');
     }
 
+    const operations = await this.store.searchApiOperations(args.query, {}, 3);
     const searchResults = await this.store.searchContent(args.query);
     
-    if (searchResults.length === 0) {
+    if (operations.length === 0 && searchResults.length === 0) {
       throw new McpError(ErrorCode.InvalidRequest, `No content found for query: ${args.query}`);
     }
 
-    const relevantPages = searchResults.slice(0, 5).map(result => 
-      `**${result.page.title || 'Untitled'}** (${result.page.path})\n${result.snippet || 'No snippet available'}`
-    ).join('\n\n');
+    // Endpoints from the API specs come first: they carry the exact parameters and schemas
+    const relevantPages = [
+      ...operations.map(operation => OpenApiParser.toMarkdown(operation)),
+      ...searchResults.slice(0, operations.length > 0 ? 3 : 5).map(result => 
+        `**${result.page.title || 'Untitled'}** (${result.page.path}${result.pdfPage ? `, page ${result.pdfPage}` : ''})\n${result.snippet || 'No snippet available'}`
+      ),
+    ].join('\n\n');
 
     return {
       description: `API reference for: ${args.query}`,
@@ -1163,7 +1771,7 @@ If the content isn't strictly API-related, adapt it to be as reference-like as p
     }
 
     const relevantContent = searchResults.slice(0, 3).map(result => 
-      `From "${result.page.title || 'Untitled'}":\n${result.snippet || 'No snippet available'}`
+      `From "${result.page.title || 'Untitled'}"${result.pdfPage ? ` (page ${result.pdfPage})` : ''}:\n${result.snippet || 'No snippet available'}`
     ).join('\n\n');
 
     return {
@@ -1195,6 +1803,22 @@ Keep it focused on getting someone up and running quickly. Use actual examples f
     // Log configuration
     logConfig();
     
+    // Ctrl+C or SIGTERM (process managers, the web UI's cancel) stops a running crawl
+    // cleanly, keeping what it fetched, before exiting
+    let interrupted = false;
+    const shutdown = async (signal: NodeJS.Signals) => {
+      if (this.activeCrawl && !interrupted) {
+        interrupted = true;
+        console.error('🛑 Stopping crawl and saving pages fetched so far (Ctrl+C again to quit immediately)...');
+        const { done } = this.activeCrawl;
+        this.cancelCrawl(`interrupted (${signal})`);
+        await done.catch(() => undefined);
+      }
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     
@@ -1206,9 +1830,7 @@ Keep it focused on getting someone up and running quickly. Use actual examples f
     const pageCount = await this.store.getPageCount();
     if (pageCount === 0) {
       console.error('No cached content found, running initial scrape...');
-      await this.scraper.scrapeAll();
-      const content = this.scraper.getContent();
-      await this.store.updateContent(content);
+      const content = await this.crawlAndSync();
       
       // Detect domain after initial scraping
       this.domainInfo = DomainDetector.detectDomain(content, gitBookConfig.gitbookUrl);
@@ -1251,23 +1873,26 @@ Keep it focused on getting someone up and running quickly. Use actual examples f
       try {
         console.error('🔄 Running background update check...');
         
-        // Check if cache is fresh enough to skip update
+        // Check if cache is fresh enough to skip update; an interrupted crawl always resumes
         const lastUpdated = this.store.getMetadata('last_updated');
-        if (lastUpdated) {
+        if (lastUpdated && !this.store.getFrontierProgress()) {
           const hoursSinceUpdate = (Date.now() - parseInt(lastUpdated)) / (1000 * 60 * 60);
           if (hoursSinceUpdate < gitBookConfig.cacheTtlHours) {
             console.error(`✅ Cache is fresh (${hoursSinceUpdate.toFixed(1)}h old), skipping update`);
+            // Specs configured since the last crawl are ingested without waiting for the next one
+            if (gitBookConfig.openApiSpecs.length > 0 && !this.store.getApiCatalogReport()) {
+              const report = await syncApiCatalogFromSource(this.store, this.scraper, false);
+              console.error(`📘 Ingested ${report.operations} API operations from ${report.specs} specs`);
+            }
             return;
           }
         }
         
         console.error('📖 Checking for content updates...');
-        await this.scraper.scrapeAll();
-        const content = this.scraper.getContent();
+        const content = await this.crawlAndSync();
         const pageCount = Object.keys(content).length;
         
         if (pageCount > 0) {
-          await this.store.updateContent(content);
           const failureStats = this.scraper.getFailureStats();
           
           if (failureStats.failedPages.length > 0) {
@@ -0,0 +1,120 @@
+import { forEachMarkdownLine } from './markdownUtils.js';
+
+export interface LlmsTxtLink {
+  title: string;
+  url: string;
+  notes?: string;
+  section?: string;  // H2 heading the link is listed under
+  optional: boolean; // Links under "## Optional" may be skipped per the spec
+}
+
+export interface LlmsTxtIndex {
+  title?: string;
+  summary?: string;
+  links: LlmsTxtLink[];
+}
+
+export interface LlmsFullDocument {
+  title: string;
+  url?: string;
+  markdown: string;
+}
+
+/**
+ * Parsers for the llms.txt convention (https://llmstxt.org): `/llms.txt` is a
+ * curated markdown link index, `/llms-full.txt` concatenates the full docs.
+ */
+export class LlmsTxtParser {
+  static parseIndex(markdown: string, baseUrl: string): LlmsTxtIndex {
+    const index: LlmsTxtIndex = { links: [] };
+    let section: string | undefined;
+
+    forEachMarkdownLine(markdown, (line, inFence) => {
+      if (inFence) return;
+
+      const h1 = line.match(/^#\s+(.+)$/);
+      if (h1 && !index.title) {
+        index.title = h1[1].trim();
+        return;
+      }
+
+      const h2 = line.match(/^##\s+(.+)$/);
+      if (h2) {
+        section = h2[1].trim();
+        return;
+      }
+
+      const quote = line.match(/^>\s?(.*)$/);
+      if (quote && !index.summary && index.links.length === 0) {
+        index.summary = quote[1].trim();
+        return;
+      }
+
+      const link = line.match(/^\s*[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)(?:\s*:\s*(.*))?$/);
+      if (link) {
+        let url: string;
+        try {
+          url = new URL(link[2], baseUrl).toString();
+        } catch {
+          return;
+        }
+
+        index.links.push({
+          title: link[1].trim(),
+          url,
+          notes: link[3]?.trim() || undefined,
+          section,
+          optional: section?.toLowerCase() === 'optional'
+        });
+      }
+    });
+
+    return index;
+  }
+
+  /**
+   * Splits llms-full.txt into one document per top-level heading. A `Source:`
+   * or `URL:` line right under the heading identifies the original page.
+   */
+  static splitFullText(markdown: string): LlmsFullDocument[] {
+    const documents: LlmsFullDocument[] = [];
+    let current: { title: string; url?: string; lines: string[] } | null = null;
+
+    const flush = () => {
+      if (!current) return;
+      const body = current.lines.join('\n').trim();
+      if (body) {
+        documents.push({ title: current.title, url: current.url, markdown: body });
+      }
+    };
+
+    forEachMarkdownLine(markdown, (line, inFence) => {
+      const h1 = !inFence ? line.match(/^#\s+(.+)$/) : null;
+      if (h1) {
+        flush();
+        current = { title: h1[1].trim(), lines: [line] };
+        return;
+      }
+
+      if (!current) return; // Preamble before the first page
+
+      // Source line only counts directly beneath the heading
+      const meaningfulLines = current.lines.filter(l => l.trim()).length;
+      const source = !inFence && meaningfulLines <= 1 ? line.match(/^(?:source|url):\s*(\S+)\s*$/i) : null;
+      if (source && !current.url) {
+        current.url = source[1];
+        return;
+      }
+
+      current.lines.push(line);
+    });
+
+    flush();
+    return documents;
+  }
+
+  // SPA hosts often answer every path with the app shell; that's not an llms file
+  static looksLikeHtml(body: string): boolean {
+    return /^\s*(<!doctype html|<html)/i.test(body);
+  }
+}
@@ -0,0 +1,431 @@
+import { promises as fs, Dirent } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { createHash } from 'crypto';
+import { getCacheFilePath, gitBookConfig } from './config.js';
+import { TextProcessor } from './textProcessor.js';
+import { GitBookContent, GitBookPage, CrawlReport, SourceCommit } from './scraper.js';
+import type { ContentSource } from './contentSource.js';
+import { extractCodeFences, markdownToPlainText, parseFrontmatter, mdxToMarkdown } from './markdownUtils.js';
+import { SitePlatform } from './siteProfiles.js';
+import { TocEntry, TocParser } from './toc.js';
+import { DocVersions } from './versions.js';
+import { PageLocales } from './locales.js';
+import { describeAbortReason } from './abortUtils.js';
+import { OpenApiParser } from './openapi.js';
+import { PageImages } from './images.js';
+import { PageTables } from './tables.js';
+import { PageCallouts } from './callouts.js';
+import { CodeExamples } from './codeExamples.js';
+
+const DOC_EXTENSIONS = new Set(['.md', '.mdx']);
+
+// Folder metadata in the Docusaurus format: { "label": "Guides", "position": 2 }
+const CATEGORY_FILE = '_category_.json';
+
+// "01-install.md" sorts first and is published as "install"
+const NUMBER_PREFIX = /^(\d+)[-_.]\s*(?=.)/;
+
+// A document read from disk, before sections are known
+export interface LocalDoc {
+  file: string;
+  path: string;
+  title: string;
+  markdown: string;
+  lastCommit?: SourceCommit;
+}
+
+// A parsed document with the frontmatter that places it in the sidebar
+export interface ParsedDoc {
+  doc: LocalDoc;
+  position?: number;
+  label?: string;
+}
+
+// A file or folder waiting for its place among its siblings
+interface DocItem {
+  name: string;
+  fullPath: string;
+  isDirectory: boolean;
+  position: number;
+}
+
+/**
+ * Reads a directory of Markdown/MDX files (a docs repo before it is
+ * published) into pages. Frontmatter supplies titles, slugs and sidebar
+ * order; folders become the table of contents and page sections.
+ */
+export class LocalDocsSource implements ContentSource {
+  protected rootDir: string;
+  private baseUrl: string;
+  private cacheFile: string;
+  private content: GitBookContent = {};
+  private toc: TocEntry[] = [];
+  private apiSpecFiles = new Set<string>(); // OpenAPI/Swagger files found next to the docs
+  private textProcessor = new TextProcessor();
+  private failures = new Map<string, string>(); // file -> error
+  protected removedPages = new Map<string, string>(); // path -> reason
+  protected abortReason?: string;
+  protected fullRead = true; // Whether the last run re-read every document
+  private signal?: AbortSignal;
+
+  constructor(rootDir: string, baseUrl: string) {
+    this.rootDir = path.resolve(rootDir);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.cacheFile = getCacheFilePath(baseUrl);
+  }
+
+  /**
+   * Re-reads every document. Unchanged pages keep their lastUpdated; files
+   * that disappeared are reported in getCrawlReport().removed.
+   */
+  async scrapeAll(signal?: AbortSignal): Promise<void> {
+    this.signal = signal;
+    this.abortReason = undefined;
+    this.failures.clear();
+    this.removedPages.clear();
+
+    const previous = Object.keys(this.content).length > 0 ? this.content : await this.loadCachedContent();
+    await this.prepareRead();
+    const docs: LocalDoc[] = [];
+    const toc: TocEntry[] = [];
+    const previousSpecFiles = this.apiSpecFiles;
+    this.apiSpecFiles = new Set();
+
+    console.log(`📂 LOCAL: Reading docs from ${this.rootDir}`);
+    await this.readDirectory(this.rootDir, [], undefined, 0, docs, toc);
+
+    const entries = new Map(toc.map(entry => [entry.key, entry]));
+    const content: GitBookContent = {};
+    for (const doc of docs) {
+      if (content[doc.path]) {
+        this.failures.set(doc.file, `duplicate of ${content[doc.path].url} at ${doc.path}`);
+        continue;
+      }
+      content[doc.path] = await this.buildPage(doc, entries, previous[doc.path]);
+    }
+
+    if (this.abortReason) {
+      // Files not read before the abort keep their previous version
+      this.content = { ...previous, ...content };
+      this.toc = this.toc.length > 0 ? this.toc : toc;
+      previousSpecFiles.forEach(file => this.apiSpecFiles.add(file));
+    } else {
+      for (const oldPath of Object.keys(previous)) {
+        if (!content[oldPath]) {
+          this.removedPages.set(oldPath, 'file deleted');
+        }
+      }
+      this.content = content;
+      this.toc = toc;
+    }
+
+    await this.finishRead();
+    console.log(`📂 LOCAL: Indexed ${Object.keys(content).length} documents, ${this.failures.size} failed`);
+    await this.saveToCache();
+    this.signal = undefined;
+  }
+
+  /**
+   * Adds one folder to the TOC and reads its documents. A folder's index
+   * (or README) page stands for the folder itself; without one the folder
+   * becomes a label entry.
+   */
+  private async readDirectory(
+    dir: string,
+    segments: string[],
+    parentKey: string | undefined,
+    position: number,
+    docs: LocalDoc[],
+    toc: TocEntry[]
+  ): Promise<void> {
+    let dirents: Dirent[];
+    try {
+      dirents = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      this.failures.set(dir, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const items: DocItem[] = [];
+    for (const dirent of dirents) {
+      // Hidden entries, dependencies and "_partial.mdx" includes are never pages
+      if (dirent.name.startsWith('.') || dirent.name.startsWith('_') || dirent.name === 'node_modules') continue;
+      const fullPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        const category = await this.readCategory(fullPath);
+        items.push({ name: dirent.name, fullPath, isDirectory: true, position: category.position ?? this.prefixPosition(dirent.name) });
+      } else if (dirent.isFile() && DOC_EXTENSIONS.has(path.extname(dirent.name).toLowerCase())) {
+        items.push({ name: dirent.name, fullPath, isDirectory: false, position: this.prefixPosition(dirent.name) });
+      } else if (dirent.isFile() && gitBookConfig.discoverOpenApi && OpenApiParser.isSpecFileName(dirent.name)) {
+        this.apiSpecFiles.add(fullPath);
+      }
+    }
+
+    // Documents are read up front: frontmatter can move them in the sidebar
+    const parsed = new Map<string, ParsedDoc>();
+    for (const item of items.filter(item => !item.isDirectory)) {
+      if (this.isAborted()) return;
+      const result = await this.loadDocument(item.fullPath, segments);
+      if (!result) continue;
+      parsed.set(item.fullPath, result);
+      if (result.position !== undefined) item.position = result.position;
+    }
+
+    const isRoot = segments.length === 0 && parentKey === undefined;
+    const indexItem = isRoot ? undefined : items.find(item => !item.isDirectory && this.isIndexFile(item.name) && parsed.has(item.fullPath));
+    const category = isRoot ? {} : await this.readCategory(dir);
+
+    let folderKey = parentKey;
+    if (!isRoot) {
+      const index = indexItem ? parsed.get(indexItem.fullPath)! : undefined;
+      const title = category.label || index?.label || index?.doc.title || this.humanize(path.basename(dir));
+      folderKey = index ? index.doc.path : `${parentKey ?? ''}>${title}`;
+      toc.push({ key: folderKey, title, path: index?.doc.path, parentKey, position });
+      if (index) docs.push(index.doc);
+    }
+
+    items.sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+
+    let childPosition = 0;
+    for (const item of items) {
+      if (this.isAborted()) return;
+      if (item === indexItem) continue;
+
+      if (item.isDirectory) {
+        const childSegments = [...segments, this.stripNumberPrefix(item.name)];
+        await this.readDirectory(item.fullPath, childSegments, folderKey, childPosition++, docs, toc);
+        continue;
+      }
+
+      const result = parsed.get(item.fullPath);
+      if (!result) continue;
+      docs.push(result.doc);
+      toc.push({
+        key: result.doc.path,
+        title: result.label || result.doc.title,
+        path: result.doc.path,
+        parentKey: folderKey,
+        position: childPosition++
+      });
+    }
+  }
+
+  // Runs before the directory is walked; subclasses work out what changed here
+  protected async prepareRead(): Promise<void> {}
+
+  // Runs after the pages are built, before the cache is written
+  protected async finishRead(): Promise<void> {}
+
+  // Parses one file; null for drafts and unreadable files
+  protected async loadDocument(file: string, segments: string[]): Promise<ParsedDoc | null> {
+    let source: string;
+    try {
+      source = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      this.failures.set(file, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+
+    const { data, body } = parseFrontmatter(source);
+    if (data.draft === true) return null;
+
+    const markdown = PageCallouts.normalizeMarkdown(path.extname(file).toLowerCase() === '.mdx' ? mdxToMarkdown(body) : body.trim());
+    const name = this.stripNumberPrefix(typeof data.id === 'string' ? data.id : path.basename(file, path.extname(file)));
+    const title = this.stringField(data.title)
+      || markdown.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1]
+      || this.humanize(name);
+
+    return {
+      doc: { file, path: this.pagePath(segments, name, data.slug), title, markdown },
+      position: typeof data.sidebar_position === 'number' ? data.sidebar_position : undefined,
+      label: this.stringField(data.sidebar_label)
+    };
+  }
+
+  // slug from the frontmatter, else the folder path plus file name (index/README name the folder)
+  private pagePath(segments: string[], name: string, slug: unknown): string {
+    if (typeof slug === 'string' && slug.trim()) {
+      const trimmed = slug.trim();
+      const joined = trimmed.startsWith('/') ? trimmed : [...segments, trimmed].join('/');
+      return '/' + joined.split('/').filter(Boolean).join('/');
+    }
+    const parts = this.isIndexFile(name) ? segments : [...segments, name];
+    return '/' + parts.join('/');
+  }
+
+  private async buildPage(doc: LocalDoc, entries: Map<string, TocEntry>, previous?: GitBookPage): Promise<GitBookPage> {
+    const content = markdownToPlainText(doc.markdown);
+    const trail = TocParser.trail(entries, doc.path);
+    const section = trail[0] || doc.title;
+    const subsection = trail[1];
+    const locale = PageLocales.fromPath(doc.path);
+    const contentHash = this.calculateHash(content + doc.title);
+    const codeBlocks = extractCodeFences(doc.markdown);
+    const codeExamples = CodeExamples.link(codeBlocks, CodeExamples.fromMarkdown(doc.markdown));
+
+    let lastUpdated = previous?.contentHash === contentHash ? previous.lastUpdated : undefined;
+    if (!lastUpdated && doc.lastCommit) {
+      lastUpdated = new Date(doc.lastCommit.date);
+    }
+    if (!lastUpdated) {
+      lastUpdated = await fs.stat(doc.file).then(stats => stats.mtime, () => new Date());
+    }
+
+    return {
+      path: doc.path,
+      title: doc.title,
+      content,
+      rawHtml: '',
+      markdown: doc.markdown,
+      codeBlocks,
+      images: PageImages.fromMarkdown(doc.markdown, this.pageUrl(doc)),
+      tables: PageTables.fromMarkdown(doc.markdown),
+      callouts: PageCallouts.fromMarkdown(doc.markdown),
+      codeExamples,
+      section,
+      subsection,
+      url: this.pageUrl(doc),
+      lastUpdated,
+      contentHash,
+      lastChecked: new Date(),
+      searchableText: this.textProcessor.createSearchableText(doc.title, content, section, subsection, locale),
+      source: 'local',
+      version: DocVersions.fromPath(doc.path),
+      locale,
+      lastCommit: doc.lastCommit
+    };
+  }
+
+  // The published URL when GITBOOK_URL names the site, else the file itself
+  private pageUrl(doc: LocalDoc): string {
+    if (this.baseUrl.startsWith('file:')) {
+      return pathToFileURL(doc.file).href;
+    }
+    return doc.path === '/' ? this.baseUrl : `${this.baseUrl}${doc.path}`;
+  }
+
+  private async readCategory(dir: string): Promise<{ label?: string; position?: number }> {
+    try {
+      const category = JSON.parse(await fs.readFile(path.join(dir, CATEGORY_FILE), 'utf-8'));
+      return {
+        label: this.stringField(category.label),
+        position: typeof category.position === 'number' ? category.position : undefined
+      };
+    } catch {
+      return {};
+    }
+  }
+
+  private isIndexFile(name: string): boolean {
+    return /^(index|readme)(\.mdx?)?$/i.test(name);
+  }
+
+  // Index pages lead; unnumbered entries sort after numbered ones, alphabetically
+  private prefixPosition(name: string): number {
+    if (this.isIndexFile(name)) return -Infinity;
+    const match = name.match(NUMBER_PREFIX);
+    return match ? parseInt(match[1], 10) : Infinity;
+  }
+
+  private stripNumberPrefix(name: string): string {
+    return name.replace(NUMBER_PREFIX, '');
+  }
+
+  private humanize(name: string): string {
+    const words = this.stripNumberPrefix(name).replace(/\.mdx?$/i, '').replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private stringField(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  protected isAborted(): boolean {
+    if (this.signal?.aborted && !this.abortReason) {
+      this.abortReason = describeAbortReason(this.signal);
+    }
+    return this.abortReason !== undefined;
+  }
+
+  private async loadCachedContent(): Promise<GitBookContent> {
+    try {
+      const cached = JSON.parse(await fs.readFile(this.cacheFile, 'utf-8'));
+      if (this.toc.length === 0) this.toc = cached.toc || [];
+      if (this.apiSpecFiles.size === 0) this.apiSpecFiles = new Set(cached.apiSpecs || []);
+      this.restoreCache(cached);
+      return cached.content || {};
+    } catch {
+      return {};
+    }
+  }
+
+  // Subclasses keep their own state next to the pages in the cache file
+  protected cacheExtras(): Record<string, unknown> {
+    return {};
+  }
+
+  protected restoreCache(_cached: Record<string, any>): void {}
+
+  // Same layout as the crawler's cache, so startup imports it the same way
+  private async saveToCache(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.cacheFile), { recursive: true });
+      const cacheData = {
+        timestamp: new Date().toISOString(),
+        content: this.content,
+        aliases: {},
+        toc: this.toc,
+        apiSpecs: Array.from(this.apiSpecFiles),
+        ...this.cacheExtras(),
+      };
+      await fs.writeFile(this.cacheFile, JSON.stringify(cacheData, null, 2));
+    } catch (error) {
+      console.log('Failed to save cache:', error);
+    }
+  }
+
+  private calculateHash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  getContent(): GitBookContent {
+    return this.content;
+  }
+
+  getToc(): TocEntry[] {
+    return this.toc;
+  }
+
+  getApiSpecUrls(): string[] {
+    return Array.from(this.apiSpecFiles);
+  }
+
+  getAliases(): Record<string, string> {
+    return {};
+  }
+
+  getDetectedPlatform(): SitePlatform | undefined {
+    return undefined;
+  }
+
+  getFailureStats(): { failedPages: string[]; totalRetries: number } {
+    return { failedPages: Array.from(this.failures.keys()), totalRetries: 0 };
+  }
+
+  getCrawlReport(): CrawlReport {
+    return {
+      robotsSkipped: [],
+      crawlDelayMs: 0,
+      scopeRejected: [],
+      pagesRevalidated: 0,
+      notModified: 0,
+      removed: Array.from(this.removedPages, ([path, reason]) => ({ path, reason })),
+      fullCrawl: this.fullRead,
+      authFailures: [],
+      throttled: 0,
+      aborted: this.abortReason,
+      resumed: false
+    };
+  }
+}
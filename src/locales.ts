@@ -0,0 +1,78 @@
+import * as cheerio from 'cheerio';
+
+// Language codes recognised as a URL prefix (/fr/..., /docs/pt-br/...)
+const PATH_LANGUAGES = new Set([
+  'ar', 'bg', 'cs', 'da', 'de', 'el', 'en', 'es', 'et', 'fa', 'fi', 'fr', 'he', 'hi', 'hu', 'id', 'it',
+  'ja', 'ko', 'lt', 'lv', 'nb', 'nl', 'no', 'pl', 'pt', 'ro', 'ru', 'sk', 'sl', 'sv', 'th', 'tr', 'uk',
+  'vi', 'zh'
+]);
+
+const LOCALE_PATTERN = /^([a-z]{2,3})(?:[-_]([a-z]{4}))?(?:[-_]([a-z]{2}|\d{3}))?$/i;
+
+/**
+ * Works out the language a page is written in and where its translations
+ * live. Locales are normalised to BCP 47 casing: "pt-BR", "zh-Hans".
+ */
+export class PageLocales {
+  /**
+   * The page's locale from <html lang>, then its own hreflang entry, then a
+   * language prefix in the URL. Undefined when none of them says.
+   */
+  static detect($: cheerio.CheerioAPI, path: string, resolve: (href: string) => string | null): string | undefined {
+    const htmlLang = PageLocales.normalize($('html').attr('lang'));
+    if (htmlLang) return htmlLang;
+
+    const own = Object.entries(PageLocales.alternates($, resolve)).find(([, alternatePath]) => alternatePath === path);
+    if (own) return own[0];
+
+    return PageLocales.fromPath(path);
+  }
+
+  static fromPath(path: string): string | undefined {
+    const pathname = /^https?:\/\//.test(path) ? new URL(path).pathname : path;
+    for (const segment of pathname.split('/').filter(Boolean).slice(0, 2)) {
+      const locale = PageLocales.normalize(segment);
+      if (locale && PATH_LANGUAGES.has(PageLocales.language(locale))) return locale;
+    }
+    return undefined;
+  }
+
+  /**
+   * Translations the page announces with <link rel="alternate" hreflang>,
+   * keyed by locale. Links outside the crawl and x-default are left out.
+   */
+  static alternates($: cheerio.CheerioAPI, resolve: (href: string) => string | null): Record<string, string> {
+    const alternates: Record<string, string> = {};
+    $('link[rel="alternate"][hreflang][href]').each((_, el) => {
+      const locale = PageLocales.normalize($(el).attr('hreflang'));
+      const path = resolve($(el).attr('href')!);
+      if (locale && path && !alternates[locale]) {
+        alternates[locale] = path;
+      }
+    });
+    return alternates;
+  }
+
+  static normalize(value: string | undefined): string | undefined {
+    const match = value?.trim().match(LOCALE_PATTERN);
+    if (!match) return undefined;
+
+    const [, language, script, region] = match;
+    return [
+      language.toLowerCase(),
+      script && script[0].toUpperCase() + script.slice(1).toLowerCase(),
+      region?.toUpperCase()
+    ].filter(Boolean).join('-');
+  }
+
+  static language(locale: string): string {
+    return locale.split('-')[0];
+  }
+
+  // "pt" matches pt, pt-BR and pt-PT; "pt-BR" matches only itself
+  static matches(pageLocale: string | undefined, locale: string | undefined): boolean {
+    if (!locale) return true;
+    if (!pageLocale) return false;
+    return pageLocale === locale || pageLocale.startsWith(`${locale}-`);
+  }
+}
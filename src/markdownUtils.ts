@@ -0,0 +1,186 @@
+import type { CodeBlock } from './scraper.js';
+import { parse as parseYaml } from 'yaml';
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([^\s`]*)([^`]*)$/;
+
+/**
+ * Extracts fenced code blocks (``` or ~~~) from a markdown document.
+ * A `title="..."` attribute on the info string becomes the block title.
+ */
+export function extractCodeFences(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const lines = markdown.split('\n');
+
+  let fence: string | null = null;
+  let language = '';
+  let title: string | undefined;
+  let buffer: string[] = [];
+  let prefix = '';
+  let indent = 0;
+
+  for (const rawLine of lines) {
+    if (fence === null) {
+      // Fences inside blockquotes (callouts among them) repeat the quote markers on every line
+      prefix = rawLine.match(/^\s*(?:>\s?)+/)?.[0] ?? '';
+      const match = rawLine.slice(prefix.length).match(FENCE_PATTERN);
+      if (match) {
+        fence = match[2];
+        indent = match[1].length;
+        language = (match[3] || '').toLowerCase();
+        title = match[4].match(/title=["']([^"']+)["']/)?.[1];
+        buffer = [];
+      }
+      continue;
+    }
+
+    const line = rawLine.startsWith(prefix) ? rawLine.slice(prefix.length) : rawLine.trim() === prefix.trim() ? '' : rawLine;
+    if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, '') === '') {
+      const code = buffer.join('\n').trim();
+      if (code) {
+        blocks.push({ language: language || 'text', code, title });
+      }
+      fence = null;
+      continue;
+    }
+
+    // Indented fences (in lists, MkDocs tabs) have their indentation taken off the code
+    buffer.push(line.replace(new RegExp(`^ {0,${indent}}`), ''));
+  }
+
+  return blocks;
+}
+
+/**
+ * Strips markdown syntax down to readable text for indexing and snippets.
+ * Code inside fences is kept verbatim.
+ */
+export function markdownToPlainText(markdown: string): string {
+  const lines: string[] = [];
+
+  forEachMarkdownLine(markdown, (line, inFence) => {
+    if (inFence) {
+      if (!FENCE_PATTERN.test(line)) lines.push(line);
+      return;
+    }
+
+    lines.push(line
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')  // Images -> alt text
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')   // Links -> label
+      .replace(/^#{1,6}\s+/, '')
+      .replace(/^\s*>\s?/, '')
+      .replace(/^\[!(\w+)\]/, (_, type: string) => type[0].toUpperCase() + type.slice(1).toLowerCase() + ':')  // Alert markers -> "Warning:"
+      .replace(/^\s*[-*+]\s+/, '')
+      .replace(/(\*\*|__)(.*?)\1/g, '$2')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/<[^>]+>/g, ''));
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Targets of the `[label](href)` links in a markdown document, skipping
+ * images and anything inside code fences.
+ */
+export function extractMarkdownLinks(markdown: string): string[] {
+  const hrefs: string[] = [];
+
+  forEachMarkdownLine(markdown, (line, inFence) => {
+    if (inFence) return;
+    for (const match of line.matchAll(/(!?)\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+      if (!match[1]) hrefs.push(match[2]);
+    }
+  });
+
+  return hrefs;
+}
+
+/**
+ * Iterates markdown lines, reporting whether each one sits inside a code fence.
+ */
+export function forEachMarkdownLine(markdown: string, callback: (line: string, inFence: boolean) => void): void {
+  let fence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const trimmed = line.trim();
+
+    if (fence === null) {
+      const match = line.match(FENCE_PATTERN);
+      if (match) {
+        fence = match[2];
+        callback(line, true);
+        continue;
+      }
+      callback(line, false);
+    } else {
+      callback(line, true);
+      if (trimmed.startsWith(fence) && trimmed.replace(/[`~]/g, '') === '') {
+        fence = null;
+      }
+    }
+  }
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Splits YAML frontmatter off a markdown document. Frontmatter that isn't a
+ * valid YAML mapping is ignored rather than failing the whole document.
+ */
+export function parseFrontmatter(source: string): { data: Record<string, unknown>; body: string } {
+  const match = source.match(FRONTMATTER_PATTERN);
+  if (!match) return { data: {}, body: source };
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1]);
+  } catch {
+    data = null;
+  }
+  const isMapping = typeof data === 'object' && data !== null && !Array.isArray(data);
+
+  return { data: isMapping ? data as Record<string, unknown> : {}, body: source.slice(match[0].length) };
+}
+
+const JSX_LINE = /^\s*<\/?[A-Z][\w.]*(\s[^<>]*)?\/?>\s*$/;
+const JSX_TAG = /<\/?[A-Z][\w.]*(\s[^<>]*)?\/?>/g;
+
+/**
+ * Turns MDX into plain markdown: drops import/export statements, JSX
+ * comments and component tags (keeping their children) and labels tab items.
+ * Docusaurus `:::note` admonitions are left for PageCallouts.normalizeMarkdown.
+ */
+export function mdxToMarkdown(source: string): string {
+  const lines: string[] = [];
+  let inStatement = false;
+
+  forEachMarkdownLine(source, (line, inFence) => {
+    if (inFence) {
+      lines.push(line);
+      return;
+    }
+
+    // Multi-line imports run until their "from" clause
+    if (inStatement) {
+      if (/\bfrom\s+['"]/.test(line) || /;\s*$/.test(line)) inStatement = false;
+      return;
+    }
+    if (/^(import|export)\s/.test(line)) {
+      inStatement = !/\bfrom\s+['"]|;\s*$|^import\s+['"]/.test(line) && /[{(]\s*$/.test(line);
+      return;
+    }
+
+    if (JSX_LINE.test(line)) {
+      const label = line.match(/^\s*<[A-Z][\w.]*\s[^>]*\blabel=["']([^"']+)["']/)?.[1];
+      if (label) lines.push(`**${label}**`);
+      return;
+    }
+
+    lines.push(line
+      .replace(/\{\/\*.*?\*\/\}/g, '')
+      .replace(/<!--.*?-->/g, '')
+      .replace(JSX_TAG, ''));
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,715 @@
+import * as cheerio from 'cheerio';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { gitBookConfig, getAuthSettings } from './config.js';
+import { SiteAuth } from './auth.js';
+import { parse as parseYaml } from 'yaml';
+
+export interface ApiParameter {
+  name: string;
+  in: string;            // path | query | header | cookie
+  required: boolean;
+  description?: string;
+  schema?: unknown;
+  example?: unknown;
+  deprecated?: boolean;
+}
+
+export interface ApiRequestBody {
+  required: boolean;
+  description?: string;
+  contentTypes: string[];
+  schema?: unknown;       // Of the preferred content type (JSON when offered)
+  example?: unknown;      // From the spec, or generated from the schema
+}
+
+export interface ApiResponse {
+  status: string;         // "200", "4XX", "default"
+  description?: string;
+  contentTypes: string[];
+  schema?: unknown;
+  example?: unknown;
+  headers?: string[];
+}
+
+export interface ApiOperation {
+  specId: string;
+  operationId: string;    // From the spec, or derived from method and path
+  method: string;         // Upper case
+  path: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  deprecated: boolean;
+  parameters: ApiParameter[];
+  requestBody?: ApiRequestBody;
+  responses: ApiResponse[];
+  security?: string[];    // Names of the security schemes that apply
+  servers: string[];
+}
+
+// One row of an operation listing, without schemas
+export type ApiOperationSummary = Pick<ApiOperation, 'specId' | 'operationId' | 'method' | 'path' | 'summary' | 'tags' | 'deprecated'>;
+
+export interface ApiSpec {
+  id: string;
+  title: string;
+  version?: string;
+  format: string;         // "OpenAPI 3.0.3", "Swagger 2.0"
+  source: string;         // URL or file the spec was loaded from
+  description?: string;
+  servers: string[];
+  contentHash: string;
+  operationCount: number;
+}
+
+export interface LoadedApiSpec {
+  spec: ApiSpec;
+  operations: ApiOperation[];
+}
+
+export interface ApiOperationFilters {
+  spec?: string;
+  tag?: string;
+  method?: string;
+}
+
+// Lookup by operationId, or by method and path
+export interface ApiOperationRef {
+  spec?: string;
+  operationId?: string;
+  method?: string;
+  path?: string;
+}
+
+/**
+ * Storage for the endpoint catalog; SQLiteStore and the REST API's
+ * in-memory ContentStore both provide it.
+ */
+export interface ApiCatalogStore {
+  listApiSpecs(): Promise<ApiSpec[]>;
+  replaceApiSpec(spec: ApiSpec, operations: ApiOperation[]): Promise<void>;
+  removeApiSpecs(ids: string[]): Promise<void>;
+  listApiOperations(filters: ApiOperationFilters, limit: number, offset: number): Promise<{ operations: ApiOperationSummary[]; total: number }>;
+  searchApiOperations(query: string, filters: ApiOperationFilters, limit: number): Promise<ApiOperation[]>;
+  findApiOperations(ref: ApiOperationRef): Promise<ApiOperation[]>;
+}
+
+export interface ApiCatalogSyncReport {
+  specs: number;
+  operations: number;
+  updated: string[];      // Spec ids re-ingested because they changed
+  removed: string[];
+  failures: Array<{ source: string; error: string }>;
+}
+
+export type SpecFetcher = (url: string) => Promise<Response>;
+
+// File names API specs are published under: openapi.json, swagger.yaml, openapi-v2.yml, ...
+const SPEC_FILE_PATTERN = /(^|\/)(openapi|swagger)[\w.-]*\.(json|ya?ml)$/i;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Nested $refs expanded before a schema is cut off; keeps recursive models finite
+const MAX_REF_DEPTH = 8;
+
+// Documents pulled in through external $refs ("common.yaml#/Error"), per spec
+const MAX_EXTERNAL_DOCUMENTS = 20;
+
+// Markup of the common API reference renderers that points at the spec
+const SPEC_ELEMENTS: Array<{ selector: string; attribute: string }> = [
+  { selector: 'redoc[spec-url]', attribute: 'spec-url' },
+  { selector: 'rapi-doc[spec-url]', attribute: 'spec-url' },
+  { selector: 'elements-api[apiDescriptionUrl]', attribute: 'apiDescriptionUrl' },
+  { selector: '[data-openapi-url]', attribute: 'data-openapi-url' },
+  { selector: 'link[rel="describedby"][type*="openapi"], link[rel="service-desc"]', attribute: 'href' }
+];
+
+// url: "..." in a Swagger UI bootstrap script
+const SWAGGER_UI_URL = /\burl\s*:\s*["']([^"']+)["']/g;
+
+/**
+ * Turns OpenAPI 3.x and Swagger 2.0 documents into a flat list of
+ * operations with every $ref inlined, and finds specs linked from pages.
+ */
+export class OpenApiParser {
+  static isSpecDocument(document: unknown): document is Record<string, any> {
+    if (!document || typeof document !== 'object') return false;
+    const doc = document as Record<string, any>;
+    return (typeof doc.openapi === 'string' || String(doc.swagger) === '2.0') && typeof doc.paths === 'object';
+  }
+
+  static isSpecFileName(name: string): boolean {
+    return SPEC_FILE_PATTERN.test(name);
+  }
+
+  /**
+   * Spec URLs a page links to or embeds: links to openapi/swagger files,
+   * Redoc/RapiDoc/Stoplight elements and Swagger UI bootstrap scripts.
+   */
+  static findSpecLinks($: cheerio.CheerioAPI, pageUrl: string): string[] {
+    const urls = new Set<string>();
+    const add = (href: string | undefined) => {
+      if (!href) return;
+      try {
+        const url = new URL(href, pageUrl);
+        if (url.protocol === 'http:' || url.protocol === 'https:') {
+          url.hash = '';
+          urls.add(url.href);
+        }
+      } catch {
+        // Not a URL
+      }
+    };
+
+    $('a[href]').each((_, el) => {
+      const href = $(el).attr('href')!;
+      if (SPEC_FILE_PATTERN.test(href.split(/[?#]/)[0])) add(href);
+    });
+    for (const { selector, attribute } of SPEC_ELEMENTS) {
+      $(selector).each((_, el) => add($(el).attr(attribute)));
+    }
+    $('script:not([src])').each((_, el) => {
+      const script = $(el).html() || '';
+      if (!/SwaggerUI/.test(script)) return;
+      for (const match of script.matchAll(SWAGGER_UI_URL)) add(match[1]);
+    });
+
+    return Array.from(urls);
+  }
+
+  /**
+   * Parses a spec into operations. `documents` holds the spec itself under
+   * `source` plus any documents its external $refs point to.
+   */
+  static parse(source: string, documents: Map<string, any>, contentHash: string): LoadedApiSpec {
+    const document = documents.get(source);
+    if (!OpenApiParser.isSpecDocument(document)) {
+      throw new Error('Not an OpenAPI 3.x or Swagger 2.0 document');
+    }
+
+    const resolver = new RefResolver(documents);
+    const isSwagger = String(document.swagger) === '2.0';
+    const info = document.info || {};
+    const servers = isSwagger ? OpenApiParser.swaggerServers(document) : OpenApiParser.serverUrls(document.servers);
+
+    const spec: ApiSpec = {
+      id: OpenApiParser.slug(info.title || path.basename(source)),
+      title: info.title || path.basename(source),
+      version: info.version !== undefined ? String(info.version) : undefined,
+      format: isSwagger ? 'Swagger 2.0' : `OpenAPI ${document.openapi}`,
+      source,
+      description: typeof info.description === 'string' ? info.description.trim() : undefined,
+      servers,
+      contentHash,
+      operationCount: 0
+    };
+
+    const operations: ApiOperation[] = [];
+    for (const [apiPath, rawItem] of Object.entries<any>(document.paths || {})) {
+      // Operations resolve their own parts; only a path item that is itself a $ref is followed here
+      const pathItem = typeof rawItem?.$ref === 'string' ? resolver.resolve(rawItem, source) : rawItem;
+      if (!pathItem || typeof pathItem !== 'object') continue;
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation || typeof operation !== 'object') continue;
+
+        const context = { document, source, resolver, servers };
+        const parsed = isSwagger
+          ? OpenApiParser.parseSwaggerOperation(operation, pathItem, context)
+          : OpenApiParser.parseOperation(operation, pathItem, context);
+
+        operations.push({
+          specId: spec.id,
+          operationId: operation.operationId || OpenApiParser.slug(`${method} ${apiPath}`, '_'),
+          method: method.toUpperCase(),
+          path: apiPath,
+          summary: operation.summary?.trim() || undefined,
+          description: operation.description?.trim() || undefined,
+          tags: Array.isArray(operation.tags) ? operation.tags.map(String) : [],
+          deprecated: operation.deprecated === true,
+          security: OpenApiParser.securityNames(operation.security ?? document.security),
+          ...parsed
+        });
+      }
+    }
+
+    spec.operationCount = operations.length;
+    return { spec, operations };
+  }
+
+  private static parseOperation(operation: any, pathItem: any, context: ParseContext): Pick<ApiOperation, 'parameters' | 'requestBody' | 'responses' | 'servers'> {
+    const { resolver, source } = context;
+    const parameters = OpenApiParser.mergeParameters(pathItem.parameters, operation.parameters, resolver, source)
+      .map(parameter => ({
+        name: parameter.name,
+        in: parameter.in,
+        required: parameter.required === true || parameter.in === 'path',
+        description: parameter.description?.trim() || undefined,
+        schema: parameter.schema,
+        example: parameter.example ?? OpenApiParser.firstExample(parameter.examples) ?? parameter.schema?.example,
+        deprecated: parameter.deprecated === true || undefined
+      }));
+
+    let requestBody: ApiRequestBody | undefined;
+    if (operation.requestBody) {
+      const body = resolver.resolve(operation.requestBody, source);
+      const [contentTypes, media] = OpenApiParser.pickMedia(body.content);
+      requestBody = {
+        required: body.required === true,
+        description: body.description?.trim() || undefined,
+        contentTypes,
+        schema: media?.schema,
+        example: media?.example ?? OpenApiParser.firstExample(media?.examples) ?? OpenApiParser.sample(media?.schema)
+      };
+    }
+
+    const responses = Object.entries<any>(operation.responses || {}).map(([status, raw]) => {
+      const response = resolver.resolve(raw, source);
+      const [contentTypes, media] = OpenApiParser.pickMedia(response.content);
+      return {
+        status,
+        description: response.description?.trim() || undefined,
+        contentTypes,
+        schema: media?.schema,
+        example: media?.example ?? OpenApiParser.firstExample(media?.examples) ?? OpenApiParser.sample(media?.schema),
+        headers: response.headers ? Object.keys(response.headers) : undefined
+      };
+    });
+
+    const servers = OpenApiParser.serverUrls(operation.servers ?? pathItem.servers);
+    return { parameters, requestBody, responses, servers: servers.length > 0 ? servers : context.servers };
+  }
+
+  // Swagger 2.0 keeps bodies in "in: body"/"in: formData" parameters and schemas directly on responses
+  private static parseSwaggerOperation(operation: any, pathItem: any, context: ParseContext): Pick<ApiOperation, 'parameters' | 'requestBody' | 'responses' | 'servers'> {
+    const { document, resolver, source } = context;
+    const consumes: string[] = operation.consumes || document.consumes || ['application/json'];
+    const produces: string[] = operation.produces || document.produces || ['application/json'];
+    const all = OpenApiParser.mergeParameters(pathItem.parameters, operation.parameters, resolver, source);
+
+    let requestBody: ApiRequestBody | undefined;
+    const body = all.find(parameter => parameter.in === 'body');
+    const formFields = all.filter(parameter => parameter.in === 'formData');
+    if (body) {
+      requestBody = {
+        required: body.required === true,
+        description: body.description?.trim() || undefined,
+        contentTypes: consumes,
+        schema: body.schema,
+        example: body['x-example'] ?? OpenApiParser.sample(body.schema)
+      };
+    } else if (formFields.length > 0) {
+      const schema = {
+        type: 'object',
+        required: formFields.filter(field => field.required).map(field => field.name),
+        properties: Object.fromEntries(formFields.map(field => [field.name, OpenApiParser.swaggerParameterSchema(field)]))
+      };
+      const formTypes = consumes.filter(type => /form/.test(type));
+      const defaultType = formFields.some(field => field.type === 'file') ? 'multipart/form-data' : 'application/x-www-form-urlencoded';
+      requestBody = {
+        required: formFields.some(field => field.required),
+        contentTypes: formTypes.length > 0 ? formTypes : [defaultType],
+        schema,
+        example: OpenApiParser.sample(schema)
+      };
+    }
+
+    const parameters = all
+      .filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData')
+      .map(parameter => ({
+        name: parameter.name,
+        in: parameter.in,
+        required: parameter.required === true || parameter.in === 'path',
+        description: parameter.description?.trim() || undefined,
+        schema: OpenApiParser.swaggerParameterSchema(parameter),
+        example: parameter['x-example'] ?? parameter.default
+      }));
+
+    const responses = Object.entries<any>(operation.responses || {}).map(([status, raw]) => {
+      const response = resolver.resolve(raw, source);
+      const examples = response.examples || {};
+      return {
+        status,
+        description: response.description?.trim() || undefined,
+        contentTypes: response.schema ? produces : [],
+        schema: response.schema,
+        example: examples[produces[0]] ?? Object.values(examples)[0] ?? OpenApiParser.sample(response.schema),
+        headers: response.headers ? Object.keys(response.headers) : undefined
+      };
+    });
+
+    return { parameters, requestBody, responses, servers: context.servers };
+  }
+
+  // Operation parameters override path-level ones with the same name and location
+  private static mergeParameters(pathLevel: unknown, operationLevel: unknown, resolver: RefResolver, source: string): any[] {
+    const merged = new Map<string, any>();
+    for (const list of [pathLevel, operationLevel]) {
+      if (!Array.isArray(list)) continue;
+      for (const raw of list) {
+        const parameter = resolver.resolve(raw, source);
+        if (parameter?.name && parameter.in) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+    }
+    return Array.from(merged.values());
+  }
+
+  private static swaggerParameterSchema(parameter: any): Record<string, unknown> {
+    const schema: Record<string, unknown> = {};
+    for (const key of ['type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'pattern', 'collectionFormat']) {
+      if (parameter[key] !== undefined) schema[key] = parameter[key];
+    }
+    return schema;
+  }
+
+  // JSON when offered, else the first content type
+  private static pickMedia(content: unknown): [string[], any | undefined] {
+    if (!content || typeof content !== 'object') return [[], undefined];
+    const types = Object.keys(content);
+    const preferred = types.find(type => /json/i.test(type)) ?? types[0];
+    return [types, preferred ? (content as Record<string, any>)[preferred] : undefined];
+  }
+
+  private static firstExample(examples: unknown): unknown {
+    if (!examples || typeof examples !== 'object') return undefined;
+    const first = Object.values(examples as Record<string, any>)[0];
+    return first && typeof first === 'object' && 'value' in first ? first.value : undefined;
+  }
+
+  private static serverUrls(servers: unknown): string[] {
+    if (!Array.isArray(servers)) return [];
+    return servers.map(server => server?.url).filter((url): url is string => typeof url === 'string');
+  }
+
+  private static swaggerServers(document: Record<string, any>): string[] {
+    const basePath = document.basePath || '';
+    if (!document.host) return basePath ? [basePath] : [];
+    const schemes: string[] = document.schemes?.length ? document.schemes : ['https'];
+    return schemes.map(scheme => `${scheme}://${document.host}${basePath}`);
+  }
+
+  private static securityNames(security: unknown): string[] | undefined {
+    if (!Array.isArray(security)) return undefined;
+    const names = new Set<string>();
+    for (const requirement of security) {
+      for (const name of Object.keys(requirement || {})) names.add(name);
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * A representative value for a schema: its example, default or first enum
+   * value, else a placeholder of the right type. Used when the spec gives
+   * no example.
+   */
+  static sample(schema: any, depth: number = 0): unknown {
+    if (!schema || typeof schema !== 'object' || schema.circular || depth > 6) return undefined;
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    if (schema.default !== undefined) return schema.default;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+    if (Array.isArray(schema.allOf)) {
+      return schema.allOf.reduce((merged: any, part: any) => {
+        const value = OpenApiParser.sample(part, depth + 1);
+        return value && typeof value === 'object' && !Array.isArray(value) ? { ...merged, ...value } : merged;
+      }, {});
+    }
+    const alternative = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+    if (alternative) return OpenApiParser.sample(alternative, depth + 1);
+
+    const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+    switch (type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined)) {
+      case 'object': {
+        const value: Record<string, unknown> = {};
+        for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+          value[name] = OpenApiParser.sample(property, depth + 1);
+        }
+        return value;
+      }
+      case 'array': {
+        const item = OpenApiParser.sample(schema.items, depth + 1);
+        return item === undefined ? [] : [item];
+      }
+      case 'string':
+        return STRING_SAMPLES[schema.format] ?? 'string';
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return true;
+      default:
+        return undefined;
+    }
+  }
+
+  static slug(text: string, separator: string = '-'): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, separator).replace(new RegExp(`^\\${separator}+|\\${separator}+$`, 'g'), '') || 'api';
+  }
+
+  // Markdown description of an operation for text-oriented clients
+  static toMarkdown(operation: ApiOperation): string {
+    const lines = [`### ${operation.method} ${operation.path}${operation.deprecated ? ' (deprecated)' : ''}`];
+    lines.push(`Operation \`${operation.operationId}\` in spec \`${operation.specId}\`${operation.tags.length ? `, tags: ${operation.tags.join(', ')}` : ''}`);
+    if (operation.summary) lines.push('', `**${operation.summary}**`);
+    if (operation.description) lines.push('', operation.description);
+    if (operation.servers.length > 0) lines.push('', `Servers: ${operation.servers.join(', ')}`);
+    if (operation.security?.length) lines.push(`Security: ${operation.security.join(', ')}`);
+
+    if (operation.parameters.length > 0) {
+      lines.push('', '**Parameters**', '', '| Name | In | Type | Required | Description |', '| --- | --- | --- | --- | --- |');
+      for (const parameter of operation.parameters) {
+        const schema = parameter.schema as any;
+        const type = schema?.type ? `${schema.type}${schema.format ? ` (${schema.format})` : ''}` : '';
+        lines.push(`| \`${parameter.name}\` | ${parameter.in} | ${type} | ${parameter.required ? 'yes' : 'no'} | ${(parameter.description || '').replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')} |`);
+      }
+    }
+
+    if (operation.requestBody) {
+      const body = operation.requestBody;
+      lines.push('', `**Request body**${body.required ? ' (required)' : ''}: ${body.contentTypes.join(', ')}`);
+      if (body.description) lines.push(body.description);
+      if (body.schema) lines.push('', '```json', JSON.stringify(body.schema, null, 2), '```');
+      if (body.example !== undefined) lines.push('', 'Example:', '```json', JSON.stringify(body.example, null, 2), '```');
+    }
+
+    if (operation.responses.length > 0) {
+      lines.push('', '**Responses**');
+      for (const response of operation.responses) {
+        lines.push('', `- \`${response.status}\` ${response.description || ''}${response.contentTypes.length ? ` (${response.contentTypes.join(', ')})` : ''}`);
+        if (response.example !== undefined) {
+          lines.push('', '```json', JSON.stringify(response.example, null, 2), '```');
+        }
+      }
+    }
+    return lines.join('\n');
+  }
+}
+
+// Placeholders for formatted strings in generated examples
+const STRING_SAMPLES: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00Z',
+  date: '2024-01-01',
+  email: 'user@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '192.0.2.1',
+  byte: 'U3dhZ2dlcg==',
+  password: '********'
+};
+
+interface ParseContext {
+  document: Record<string, any>;
+  source: string;
+  resolver: RefResolver;
+  servers: string[];
+}
+
+/**
+ * Inlines $refs, following them into other loaded documents. References
+ * back into a schema being expanded become { $ref, circular: true }.
+ */
+class RefResolver {
+  constructor(private documents: Map<string, any>) {}
+
+  resolve(value: any, base: string, stack: string[] = []): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.resolve(item, base, stack));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    if (typeof value.$ref === 'string') {
+      if (value.circular || value.unresolved) return value;
+      const { $ref, ...siblings } = value;
+      const target = RefResolver.locate($ref, base);
+      if (stack.includes(target.key) || stack.length >= MAX_REF_DEPTH) {
+        return { $ref, circular: true };
+      }
+      const resolved = RefResolver.pointer(this.documents.get(target.document), target.pointer);
+      if (resolved === undefined) {
+        return { $ref, unresolved: true };
+      }
+      const expanded = this.resolve(resolved, target.document, [...stack, target.key]);
+      return expanded && typeof expanded === 'object' && !Array.isArray(expanded)
+        ? { ...expanded, ...this.resolve(siblings, base, stack) }
+        : expanded;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      // Examples are literal data, even when they contain a "$ref" key
+      result[key] = key === 'example' ? child : this.resolve(child, base, stack);
+    }
+    return result;
+  }
+
+  // Absolute document location and JSON pointer of a $ref
+  static locate(ref: string, base: string): { document: string; pointer: string; key: string } {
+    const [location, pointer = ''] = ref.split('#');
+    const document = location ? RefResolver.resolveLocation(location, base) : base;
+    return { document, pointer, key: `${document}#${pointer}` };
+  }
+
+  static resolveLocation(location: string, base: string): string {
+    if (/^https?:\/\//.test(base) || /^https?:\/\//.test(location)) {
+      return new URL(location, base).href;
+    }
+    return path.resolve(path.dirname(base), location);
+  }
+
+  static pointer(document: any, pointer: string): any {
+    let current = document;
+    for (const raw of pointer.split('/').slice(1)) {
+      const segment = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (current === null || typeof current !== 'object') return undefined;
+      current = current[segment];
+    }
+    return current;
+  }
+
+  // External documents a document references, as absolute locations
+  static externalRefs(value: any, base: string, found: Set<string> = new Set()): Set<string> {
+    if (Array.isArray(value)) {
+      value.forEach(item => RefResolver.externalRefs(item, base, found));
+    } else if (value && typeof value === 'object') {
+      if (typeof value.$ref === 'string' && !value.$ref.startsWith('#')) {
+        found.add(RefResolver.locate(value.$ref, base).document);
+      }
+      for (const [key, child] of Object.entries(value)) {
+        if (key !== 'example') RefResolver.externalRefs(child, base, found);
+      }
+    }
+    return found;
+  }
+}
+
+/**
+ * Loads specs from files and URLs, including the documents their external
+ * $refs point to.
+ */
+export class OpenApiLoader {
+  private fetcher: SpecFetcher;
+
+  constructor(fetcher: SpecFetcher = OpenApiLoader.defaultFetcher()) {
+    this.fetcher = fetcher;
+  }
+
+  // Sends the crawler's User-Agent, and credentials to the docs origin
+  static defaultFetcher(): SpecFetcher {
+    const auth = gitBookConfig.gitbookUrl.startsWith('http') ? new SiteAuth(gitBookConfig.gitbookUrl, getAuthSettings()) : null;
+    return (url: string) => fetch(url, {
+      headers: {
+        'User-Agent': gitBookConfig.userAgent,
+        'Accept': 'application/json, application/yaml, text/yaml, */*',
+        ...(auth ? auth.headersFor(url) : {})
+      },
+      signal: AbortSignal.timeout(gitBookConfig.requestTimeoutMs)
+    });
+  }
+
+  async load(location: string): Promise<LoadedApiSpec> {
+    const source = /^https?:\/\//.test(location) ? location : path.resolve(location);
+    const text = await this.read(source);
+    const documents = new Map<string, any>([[source, OpenApiLoader.parseDocument(text, source)]]);
+
+    // Follow external $refs breadth first, a bounded number of documents deep
+    const pending = Array.from(RefResolver.externalRefs(documents.get(source), source));
+    while (pending.length > 0 && documents.size < MAX_EXTERNAL_DOCUMENTS) {
+      const location = pending.shift()!;
+      if (documents.has(location)) continue;
+      try {
+        const document = OpenApiLoader.parseDocument(await this.read(location), location);
+        documents.set(location, document);
+        pending.push(...RefResolver.externalRefs(document, location));
+      } catch (error) {
+        console.error(`Could not load ${location} referenced from ${source}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const contentHash = createHash('sha256').update(text).digest('hex');
+    return OpenApiParser.parse(source, documents, contentHash);
+  }
+
+  static parseDocument(text: string, location: string): unknown {
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('{') || /\.json$/i.test(location.split(/[?#]/)[0])) {
+      return JSON.parse(text);
+    }
+    return parseYaml(text);
+  }
+
+  private async read(location: string): Promise<string> {
+    if (!/^https?:\/\//.test(location)) {
+      return fs.readFile(location, 'utf-8');
+    }
+    const response = await this.fetcher(location);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+}
+
+/**
+ * Loads every spec and stores those that changed. With `prune`, specs that
+ * are no longer configured or discovered are dropped.
+ */
+export async function syncApiCatalog(
+  store: ApiCatalogStore,
+  locations: string[],
+  prune: boolean,
+  loader: OpenApiLoader = new OpenApiLoader()
+): Promise<ApiCatalogSyncReport> {
+  const report: ApiCatalogSyncReport = { specs: 0, operations: 0, updated: [], removed: [], failures: [] };
+  const existing = await store.listApiSpecs();
+  const bySource = new Map(existing.map(spec => [spec.source, spec]));
+  const takenIds = new Set(existing.map(spec => spec.id));
+  const seenSources = new Set<string>();
+
+  for (const location of new Set(locations)) {
+    let loaded: LoadedApiSpec;
+    try {
+      loaded = await loader.load(location);
+    } catch (error) {
+      report.failures.push({ source: location, error: error instanceof Error ? error.message : String(error) });
+      // A spec that can't be fetched right now keeps its last ingested version
+      const previous = bySource.get(/^https?:\/\//.test(location) ? location : path.resolve(location));
+      if (previous) seenSources.add(previous.source);
+      continue;
+    }
+
+    const { spec, operations } = loaded;
+    seenSources.add(spec.source);
+    const previous = bySource.get(spec.source);
+    report.specs++;
+    report.operations += operations.length;
+    if (previous?.contentHash === spec.contentHash) continue;
+
+    // Keep a spec's id across updates; a new spec whose title is taken gets a suffix
+    let id = previous?.id ?? spec.id;
+    for (let n = 2; !previous && takenIds.has(id); n++) id = `${spec.id}-${n}`;
+    takenIds.add(id);
+    spec.id = id;
+    operations.forEach(operation => { operation.specId = id; });
+
+    await store.replaceApiSpec(spec, operations);
+    report.updated.push(id);
+  }
+
+  if (prune) {
+    const stale = existing.filter(spec => !seenSources.has(spec.source)).map(spec => spec.id);
+    if (stale.length > 0) {
+      await store.removeApiSpecs(stale);
+      report.removed = stale;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,197 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+
+export interface PdfPageText {
+  number: number;      // 1-based page number
+  text: string;
+  markdown: string;    // Text with headings marked up
+  headings: string[];
+}
+
+export interface PdfText {
+  title?: string;      // From the document info dictionary
+  pages: PdfPageText[];
+}
+
+export class PdfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfError';
+  }
+}
+
+// Lines whose text is this much larger than the page's body text are headings
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+
+// A PDF is parsed in a worker with its own heap, so a document that inflates
+// into gigabytes or loops forever takes down the worker instead of the server
+const PDF_WORKER_HEAP_MB = 512;
+const PDF_PARSE_TIMEOUT_MS = 60_000;
+
+/**
+ * Pulls the text out of a PDF, page by page, without rendering it, using
+ * pdf.js in a worker thread so large documents don't block the event loop.
+ * Lines are rebuilt from the text positions and lines set noticeably larger
+ * than the body text become headings. Scanned (image-only) and encrypted
+ * documents yield no text.
+ */
+export function extractPdfText(buffer: Buffer): Promise<PdfText> {
+  // Run from source under tsx the worker is the .ts file and needs tsx registered too
+  const extension = path.extname(__filename);
+  const workerFile = path.join(__dirname, `pdfWorker${extension}`);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(workerFile, {
+      workerData: buffer,
+      execArgv: extension === '.ts' ? ['--require', 'tsx/cjs'] : undefined,
+      resourceLimits: { maxOldGenerationSizeMb: PDF_WORKER_HEAP_MB }
+    });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new PdfError(`parsing took longer than ${PDF_PARSE_TIMEOUT_MS / 1000}s`));
+    }, PDF_PARSE_TIMEOUT_MS);
+
+    worker.once('message', (result: { pdf?: PdfText; error?: string }) => {
+      clearTimeout(timer);
+      worker.terminate();
+      if (result.pdf) resolve(result.pdf);
+      else reject(new PdfError(result.error || 'unreadable PDF'));
+    });
+    worker.once('error', error => {
+      clearTimeout(timer);
+      reject(new PdfError(error.message));
+    });
+    worker.once('exit', code => {
+      clearTimeout(timer);
+      // Only reached without a result, e.g. when the worker ran out of memory
+      reject(new PdfError(`parser exited with code ${code}`));
+    });
+  });
+}
+
+/**
+ * Start offsets of each PDF page in the page's `content`; the text of PDF
+ * page n runs from offsets[n - 1] to offsets[n].
+ */
+export function pdfPageAt(offsets: number[], position: number): number {
+  let page = 1;
+  while (page < offsets.length && offsets[page] <= position) page++;
+  return page;
+}
+
+// The PDF page a search hit cites: where the first query word occurs, as in the snippet
+export function pdfPageForQuery(page: { content: string; pdfPages?: number[] }, query: string): number | undefined {
+  if (!page.pdfPages) return undefined;
+  const content = page.content.toLowerCase();
+  const positions = query.toLowerCase().split(/\s+/).filter(Boolean)
+    .map(word => content.indexOf(word))
+    .filter(index => index !== -1);
+  return pdfPageAt(page.pdfPages, positions.length > 0 ? Math.min(...positions) : 0);
+}
+
+// One text item from pdf.js getTextContent()
+export interface PdfTextItem {
+  str: string;
+  transform: number[]; // [a, b, c, d, x, y]
+  width: number;
+  hasEOL: boolean;
+}
+
+interface TextLine {
+  y: number;
+  size: number;   // Largest text size on the line, in user space
+  text: string;
+}
+
+/**
+ * Rebuilds a page's lines from its positioned text items, inserting spaces
+ * where items leave gaps, then lays them out as paragraphs and headings.
+ */
+export function layoutTextItems(items: PdfTextItem[], number: number): PdfPageText {
+  const lines: TextLine[] = [];
+  let line: TextLine | undefined;
+  let lineEnd = 0;
+
+  for (const item of items) {
+    const [, , c, d, x, y] = item.transform;
+    // Rendered text size: the font size scaled by the text matrix
+    const size = Math.hypot(c, d);
+    if (item.str) {
+      if (!line || Math.abs(y - line.y) > Math.max(line.size, size) * 0.5) {
+        line = { y, size, text: '' };
+        lines.push(line);
+      } else if ((x - lineEnd > size * 0.15 || lineEnd - x > size) && !/\s$/.test(line.text) && !/^\s/.test(item.str)) {
+        line.text += ' ';
+      }
+      line.text += item.str;
+      line.size = Math.max(line.size, size);
+      lineEnd = x + item.width;
+    }
+    if (item.hasEOL) line = undefined;
+  }
+
+  return layoutPage(lines, number);
+}
+
+// Joins lines into paragraphs and marks lines set larger than the body text as headings
+function layoutPage(lines: TextLine[], number: number): PdfPageText {
+  const content = lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text);
+
+  // Body size: the size most characters on the page are set in
+  const sizeCounts = new Map<number, number>();
+  for (const line of content) {
+    const size = Math.round(line.size * 2) / 2;
+    sizeCounts.set(size, (sizeCounts.get(size) || 0) + line.text.length);
+  }
+  const bodySize = Array.from(sizeCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+  const headings: string[] = [];
+  const textBlocks: string[] = [];
+  const markdownBlocks: string[] = [];
+  let paragraph: TextLine[] = [];
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    const text = paragraph.reduce((acc, line) =>
+      // Words hyphenated across lines are joined again
+      /\w-$/.test(acc) && /^[a-z]/.test(line.text) ? acc.slice(0, -1) + line.text : acc ? `${acc} ${line.text}` : line.text, '');
+    textBlocks.push(text);
+    markdownBlocks.push(text);
+    paragraph = [];
+  };
+
+  content.forEach((line, index) => {
+    const isHeading = bodySize > 0 && line.size >= bodySize * HEADING_SIZE_RATIO
+      && line.text.length <= MAX_HEADING_LENGTH && /\p{L}/u.test(line.text);
+    if (isHeading) {
+      flush();
+      // Headings wrapped over several lines are one heading
+      const previous = content[index - 1];
+      if (previous && headings.length > 0 && previous.size === line.size && markdownBlocks[markdownBlocks.length - 1]?.startsWith('#')) {
+        headings[headings.length - 1] += ` ${line.text}`;
+        textBlocks[textBlocks.length - 1] += ` ${line.text}`;
+        markdownBlocks[markdownBlocks.length - 1] += ` ${line.text}`;
+        return;
+      }
+      headings.push(line.text);
+      textBlocks.push(line.text);
+      markdownBlocks.push(`${line.size >= bodySize * 1.6 ? '##' : '###'} ${line.text}`);
+      return;
+    }
+
+    const previous = paragraph[paragraph.length - 1];
+    if (previous && Math.abs(previous.y - line.y) > Math.max(previous.size, line.size) * 1.8) flush();
+    paragraph.push(line);
+  });
+  flush();
+
+  return {
+    number,
+    text: textBlocks.join('\n\n'),
+    markdown: markdownBlocks.join('\n\n'),
+    headings
+  };
+}
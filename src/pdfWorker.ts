@@ -0,0 +1,38 @@
+import { parentPort, workerData } from 'worker_threads';
+import { layoutTextItems, PdfPageText, PdfText, PdfTextItem } from './pdfText.js';
+
+// pdf.js ships only as ES modules; a TypeScript import() would compile to require()
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+
+// Runs in a worker thread started by extractPdfText(); posts back { pdf } or { error }
+async function extract(data: Uint8Array): Promise<PdfText> {
+  const pdfjs = await importModule('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0
+  }).promise;
+
+  try {
+    const { info } = await document.getMetadata().catch(() => ({ info: undefined }));
+    const title = typeof info?.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined;
+
+    const pages: PdfPageText[] = [];
+    for (let number = 1; number <= document.numPages; number++) {
+      const page = await document.getPage(number);
+      const { items } = await page.getTextContent();
+      // Marked-content markers carry no text
+      pages.push(layoutTextItems(items.filter((item: any) => 'str' in item) as PdfTextItem[], number));
+      page.cleanup();
+    }
+    return { title, pages };
+  } finally {
+    await document.destroy();
+  }
+}
+
+extract(new Uint8Array(workerData))
+  .then(pdf => parentPort!.postMessage({ pdf }))
+  .catch(error => parentPort!.postMessage({ error: error?.message || String(error) }));
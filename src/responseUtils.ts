@@ -1,4 +1,6 @@
 // Token estimation and response utilities for MCP
+import { PageCallouts } from './callouts.js';
+
 const CHARS_PER_TOKEN = 3.8; // More accurate estimate for JSON content
 const MAX_TOKENS_HARD_LIMIT = 22000; // Your specified limit
 const MAX_TOKENS_SAFE_BUFFER = 21000; // Buffer for response metadata
@@ -62,7 +64,8 @@ export class ResponseUtils {
     offset: number,
     total: number,
     toolPrefix: string = '',
-    responseType: string = 'search'
+    responseType: string = 'search',
+    tokenParams?: Record<string, unknown> // Carried in continuation tokens, e.g. the version filter
   ): TokenSafeResponse {
     // Get results starting from offset
     const remainingResults = allResults.slice(offset);
@@ -82,7 +85,7 @@ export class ResponseUtils {
       
       continuationMessage = `📄 Showing ${actualResults.length} of ${remaining + actualResults.length} remaining results. ` +
         `To continue, use: ${toolPrefix}${responseType === 'search' ? 'search_content' : responseType} ` +
-        `with continuation_token="${this.createContinuationToken(query, nextOffset!)}" ` +
+        `with continuation_token="${this.createContinuationToken(query, nextOffset!, tokenParams)}" ` +
         `(~${nextBatch} more results available)`;
     }
     
@@ -91,7 +94,7 @@ export class ResponseUtils {
       limit: dynamicLimit, // Show actual limit used
       offset,
       hasMore,
-      continuationToken: hasMore ? this.createContinuationToken(query, nextOffset!) : undefined,
+      continuationToken: hasMore ? this.createContinuationToken(query, nextOffset!, tokenParams) : undefined,
       nextInstruction: hasMore ? continuationMessage : undefined
     };
 
@@ -227,6 +230,7 @@ export class ResponseUtils {
           section: page.section,
           subsection: page.subsection,
           summary: this.extractSummary(page.content),
+          lastCommit: page.lastCommit,
           tokenLimitExceeded: true,
           originalTokens: tokens,
           availableActions: [
@@ -317,6 +321,11 @@ export class ResponseUtils {
       structure.codeLanguages = [...new Set(page.codeBlocks.map((cb: any) => cb.language))];
     }
 
+    // Warnings are counted on their own so agents know to read them before acting on the page
+    if (page.callouts) {
+      structure.callouts = PageCallouts.summarize(page.callouts);
+    }
+
     return structure;
   }
 
@@ -0,0 +1,147 @@
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number; // seconds
+}
+
+/**
+ * Minimal robots.txt implementation following RFC 9309: user-agent groups,
+ * Allow/Disallow with `*` and `$` wildcards (longest match wins, Allow wins
+ * ties), plus the widely supported Crawl-delay and Sitemap extensions.
+ */
+export class RobotsTxt {
+  readonly sitemaps: string[];
+  private groups: RobotsGroup[];
+  private disallowAll: boolean;
+
+  private constructor(groups: RobotsGroup[], sitemaps: string[], disallowAll: boolean = false) {
+    this.groups = groups;
+    this.sitemaps = sitemaps;
+    this.disallowAll = disallowAll;
+  }
+
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], []);
+  }
+
+  // Used when robots.txt is unreachable (5xx / network error), as RFC 9309 requires
+  static disallowEverything(): RobotsTxt {
+    return new RobotsTxt([], [], true);
+  }
+
+  static parse(body: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of body.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (!line) continue;
+
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          // Consecutive user-agent lines share one group
+          if (!current || !lastWasAgent) {
+            current = { agents: [], rules: [] };
+            groups.push(current);
+          }
+          current.agents.push(value.toLowerCase());
+          lastWasAgent = true;
+          continue;
+        case 'allow':
+        case 'disallow':
+          // An empty Disallow means "allow everything" and adds no rule
+          if (current && value) {
+            current.rules.push({
+              allow: field === 'allow',
+              pattern: value,
+              regex: RobotsTxt.patternToRegex(value)
+            });
+          }
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay) && delay >= 0) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+        case 'sitemap':
+          if (value) sitemaps.push(value);
+          break;
+      }
+
+      lastWasAgent = false;
+    }
+
+    return new RobotsTxt(groups, sitemaps);
+  }
+
+  isAllowed(path: string, userAgent: string): boolean {
+    if (this.disallowAll) return false;
+
+    const rules = this.rulesFor(userAgent);
+    let best: RobotsRule | null = null;
+
+    for (const rule of rules) {
+      if (!rule.regex.test(path)) continue;
+
+      if (!best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  getCrawlDelay(userAgent: string): number | undefined {
+    const delays = this.matchingGroups(userAgent)
+      .map(group => group.crawlDelay)
+      .filter((delay): delay is number => delay !== undefined);
+
+    return delays.length > 0 ? Math.max(...delays) : undefined;
+  }
+
+  private rulesFor(userAgent: string): RobotsRule[] {
+    return this.matchingGroups(userAgent).flatMap(group => group.rules);
+  }
+
+  private matchingGroups(userAgent: string): RobotsGroup[] {
+    // Match on the product token, e.g. "mcpbook" from "mcpbook/1.0 (+https://...)";
+    // RFC 9309 compares it whole and case-insensitively, so "book" doesn't match "mcpbook"
+    const product = userAgent.split(/[\s/]/)[0].toLowerCase();
+
+    const specific = this.groups.filter(group =>
+      group.agents.includes(product)
+    );
+    if (specific.length > 0) return specific;
+
+    return this.groups.filter(group => group.agents.includes('*'));
+  }
+
+  private static patternToRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const escaped = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${escaped}${anchored ? '$' : ''}`);
+  }
+}
@@ -2,15 +2,80 @@ import * as cheerio from 'cheerio';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { createHash } from 'crypto';
-import { gitBookConfig, getCacheFilePath } from './config.js';
+import { setMaxListeners } from 'events';
+import { gitBookConfig, getCacheFilePath, getAuthSettings } from './config.js';
 import { TextProcessor } from './textProcessor.js';
 import TurndownService from 'turndown';
+import { SitemapParser } from './sitemap.js';
+import { RobotsTxt } from './robots.js';
+import { LlmsTxtParser } from './llmsTxt.js';
+import { extractCodeFences, extractMarkdownLinks, markdownToPlainText } from './markdownUtils.js';
+import { CrawlScope } from './crawlScope.js';
+import { SiteAuth } from './auth.js';
+import { HydrationExtractor } from './hydration.js';
+import { HostLimiter, parseRetryAfter } from './hostLimiter.js';
+import { anySignal, abortableDelay, describeAbortReason } from './abortUtils.js';
+import { SiteProfiles, SiteProfile, SitePlatform } from './siteProfiles.js';
+import { TocParser, TocEntry } from './toc.js';
+import { OpenApiParser } from './openapi.js';
+import { DocVersions } from './versions.js';
+import { PageLocales } from './locales.js';
+import { extractPdfText, PdfText } from './pdfText.js';
+import { PageImages, PageImage } from './images.js';
+import { PageTables, PageTable, TABLE_SELECTOR } from './tables.js';
+import { PageCallouts, PageCallout } from './callouts.js';
+import { CodeExamples, CodeExample } from './codeExamples.js';
+import type { ContentSource } from './contentSource.js';
+
+// Redirects are followed by hand so credentials are only sent where they belong
+const MAX_REDIRECTS = 10;
+
+// Below this much extracted text a page may be a client-rendered shell
+const THIN_CONTENT_CHARS = 1000;
+
+// Frontier changes are written to the crawl state store in batches of this size
+const FRONTIER_FLUSH_SIZE = 25;
+
+// Links to PDFs, indexed as documents when INDEX_PDFS is on
+const PDF_PATH = /\.pdf$/i;
+
+// Statuses that mean "slow down and try again" rather than "this page is broken"
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+// How a fetch turned out: retryable failures go back through the backoff
+export type FetchOutcome = 'success' | 'retryable' | 'permanent';
+
+// Thrown for throttling and network failures so scrapePageWithRetry backs off
+class RetryableFetchError extends Error {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'RetryableFetchError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
 
 export interface CodeBlock {
   language: string;
   code: string;
   title?: string;
   lineNumbers?: boolean;
+  example?: number;        // Index in the page's codeExamples when the block is one tab of an example
+  tab?: string;            // That tab's label
+}
+
+// Where a page's content came from
+export type PageSource = 'html' | 'llms-full' | 'local';
+
+// What kind of document a page was read from
+export type PageContentType = 'html' | 'pdf';
+
+// The last commit that touched a page's source file
+export interface SourceCommit {
+  sha: string;
+  author: string;
+  date: string; // ISO 8601 author date
 }
 
 export interface GitBookPage {
@@ -27,6 +92,21 @@ export interface GitBookPage {
   contentHash: string;
   lastChecked: Date;
   searchableText: string;
+  sitemapLastmod?: string; // <lastmod> from the sitemap at the time of scraping
+  source?: PageSource;     // Defaults to 'html' for pages cached before sources existed
+  etag?: string;           // HTTP validators for conditional revalidation
+  lastModified?: string;
+  missCount?: number;      // Consecutive full crawls that no longer discovered the page
+  version?: string;        // Docs version the page belongs to; undefined for unversioned pages
+  locale?: string;         // Language the page is written in, e.g. "fr" or "pt-BR"
+  alternates?: Record<string, string>; // Translations from hreflang links: locale -> path
+  lastCommit?: SourceCommit; // For pages read from a git repository
+  contentType?: PageContentType; // Defaults to 'html'
+  pdfPages?: number[];     // For PDFs: offset in `content` where each PDF page starts
+  images?: PageImage[];    // Images in the content, with their alt text and captions
+  tables?: PageTable[];    // Data tables in the content, as headers and rows
+  callouts?: PageCallout[]; // Note, tip and warning blocks in the content
+  codeExamples?: CodeExample[]; // Examples shown in several languages as tabs
 }
 
 export interface GitBookContent {
@@ -42,7 +122,48 @@ export interface ScrapingProgress {
 
 export type ProgressCallback = (progress: ScrapingProgress) => void;
 
-export class GitBookScraper {
+export interface CrawlReport {
+  robotsSkipped: string[]; // URLs not fetched because robots.txt disallows them
+  crawlDelayMs: number;    // Effective Crawl-delay applied between requests
+  scopeRejected: Array<{ path: string; reason: string }>; // URLs outside the crawl scope rules
+  pagesRevalidated: number; // Cached pages checked for changes
+  notModified: number;      // ...of which the server answered 304 Not Modified
+  removed: Array<{ path: string; reason: string }>; // Pages dropped from the index
+  fullCrawl: boolean;       // Whether this run re-discovered the whole site
+  authFailures: Array<{ url: string; reason: string }>; // Pages behind a login wall
+  throttled: number;        // 429/503-style responses that made the crawler back off
+  aborted?: string;         // Why the crawl stopped early, if it did
+  resumed: boolean;         // Whether this run picked up an interrupted crawl
+}
+
+// Per-URL progress of a full crawl
+export type FrontierState = 'queued' | 'fetched' | 'failed' | 'skipped';
+
+export interface FrontierEntry {
+  path: string;
+  state: FrontierState;
+  depth: number;
+  error?: string;
+}
+
+export interface CrawlFrontier {
+  entries: FrontierEntry[];
+  discoveryComplete: boolean;
+}
+
+/**
+ * Durable home for a full crawl's frontier and the pages it has fetched so
+ * far, so a crawl that dies halfway can resume instead of starting over.
+ */
+export interface CrawlStateStore {
+  loadFrontier(): Promise<CrawlFrontier>;
+  saveFrontier(entries: FrontierEntry[], discoveryComplete?: boolean): Promise<void>;
+  clearFrontier(): Promise<void>;
+  checkpointPages(pages: GitBookPage[]): Promise<void>;
+  loadPages(paths: string[]): Promise<GitBookContent>;
+}
+
+export class GitBookScraper implements ContentSource {
   private baseUrl: string;
   private content: GitBookContent = {};
   private visitedUrls = new Set<string>();
@@ -57,6 +178,39 @@ export class GitBookScraper {
   private progressCallback?: ProgressCallback;
   private totalDiscovered = 0;
   private totalCompleted = 0;
+  private sitemapLastmod = new Map<string, string>(); // path -> sitemap <lastmod>
+  private robots: RobotsTxt = RobotsTxt.allowAll();
+  private extraRobots = new Map<string, RobotsTxt>(); // ALLOWED_ORIGINS origin -> robots.txt
+  private robotsSkipped = new Set<string>();
+  private crawlDelayMs = 0;
+  private nextRequestAt = 0;
+  private llmsTitles = new Map<string, string>(); // lowercased llms.txt link title -> path
+  private scope = CrawlScope.fromConfig();
+  private urlDepths = new Map<string, number>(); // path -> link hops from the root
+  private scopeRejections = new Map<string, string>(); // path -> reason
+  private pagesRevalidated = 0;
+  private notModifiedCount = 0;
+  private removedPages = new Map<string, string>(); // path -> reason
+  private aliases = new Map<string, string>(); // alias path -> canonical path
+  private auth: SiteAuth;
+  private authFailures = new Map<string, string>(); // url -> reason
+  private fullCrawl = false;
+  private hostLimiter = new HostLimiter(gitBookConfig.maxConcurrentRequests);
+  private throttledResponses = 0;
+  private crawlSignal?: AbortSignal;
+  private abortReason?: string;
+  private cacheTimestamp = new Date(0).toISOString(); // When the loaded cache was written
+  private previousContent: GitBookContent = {}; // Index before a full crawl started
+  private crawlStateStore?: CrawlStateStore;
+  private frontier = new Map<string, FrontierEntry>(); // path -> state in the current full crawl
+  private dirtyFrontier = new Set<string>();     // frontier paths not yet persisted
+  private pendingCheckpoint = new Set<string>(); // fetched pages not yet persisted
+  private frontierDiscoveryComplete = false;
+  private resumed = false;
+  private platformCounts = new Map<SitePlatform, number>(); // pages per detected platform this crawl
+  private detectedPlatform?: SitePlatform;
+  private toc = new Map<string, TocEntry>(); // entry key -> sidebar entry, merged across pages
+  private apiSpecUrls = new Set<string>();   // OpenAPI/Swagger specs linked from crawled pages
 
   constructor(baseUrl: string, progressCallback?: ProgressCallback) {
     console.log(`🏗️  CONSTRUCTOR: GitBookScraper constructor called with baseUrl: ${baseUrl}`);
@@ -65,11 +219,19 @@ export class GitBookScraper {
     this.cacheFile = getCacheFilePath(baseUrl);
     console.log(`🏗️  CONSTRUCTOR: cacheFile set to: ${this.cacheFile}`);
     this.progressCallback = progressCallback;
+    this.auth = new SiteAuth(this.baseUrl, getAuthSettings());
     console.log(`🏗️  CONSTRUCTOR: About to initialize TurndownService...`);
     this.initializeTurndownService();
     console.log(`🏗️  CONSTRUCTOR: GitBookScraper constructor completed`);
   }
 
+  /**
+   * Persist full-crawl progress here so an interrupted crawl can resume.
+   */
+  setCrawlStateStore(store: CrawlStateStore): void {
+    this.crawlStateStore = store;
+  }
+
   private joinUrls(base: string, path: string): string {
     // Handle absolute URLs
     if (path.startsWith('http://') || path.startsWith('https://')) {
@@ -94,18 +256,143 @@ export class GitBookScraper {
     return `${cleanBase}${cleanPath}`;
   }
 
-  private async fetchWithHeaders(url: string): Promise<Response> {
-    return fetch(url, {
-      redirect: 'follow',
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1'
+  private async fetchWithHeaders(url: string, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    let currentUrl = url;
+    // One deadline covers the whole redirect chain and reading the body; it
+    // starts once the limiter lets the first request out, not while queued
+    let signal: AbortSignal | undefined;
+    
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const requestUrl = currentUrl;
+      let response: Response;
+
+      try {
+        response = await this.hostLimiter.run(requestUrl, async () => {
+          await this.waitForCrawlDelay();
+          signal ??= anySignal([this.crawlSignal, AbortSignal.timeout(gitBookConfig.requestTimeoutMs)]);
+
+          return fetch(requestUrl, {
+            redirect: 'manual',
+            signal,
+            headers: {
+              'User-Agent': gitBookConfig.userAgent,
+              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+              'Accept-Language': 'en-US,en;q=0.5',
+              'Accept-Encoding': 'gzip, deflate',
+              'Connection': 'keep-alive',
+              ...this.auth.headersFor(requestUrl),
+              ...extraHeaders
+            }
+          });
+        }, this.crawlSignal);
+      } catch (error) {
+        this.crawlSignal?.throwIfAborted();
+        this.hostLimiter.recordThrottle(requestUrl);
+        if (signal?.aborted) {
+          throw new RetryableFetchError(`Timed out after ${gitBookConfig.requestTimeoutMs}ms fetching ${requestUrl}`);
+        }
+        throw new RetryableFetchError(`Network error fetching ${requestUrl}: ${error instanceof Error ? error.message : String(error)}`);
       }
-    });
+
+      if (this.classifyStatus(response.status) === 'retryable') {
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        this.hostLimiter.recordThrottle(requestUrl, retryAfterMs);
+        this.throttledResponses++;
+        if (gitBookConfig.debug) {
+          console.log(`⏳ Throttled by ${new URL(requestUrl).host} (HTTP ${response.status}), concurrency now ${this.hostLimiter.getLimit(requestUrl)}`);
+        }
+      } else {
+        this.hostLimiter.recordSuccess(requestUrl);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+        await response.body?.cancel();
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+      
+      // Expose where redirects ended up, as redirect: 'follow' would
+      if (currentUrl !== url) {
+        Object.defineProperty(response, 'url', { value: currentUrl });
+      }
+      return response;
+    }
+    
+    throw new Error(`Too many redirects for ${url}`);
+  }
+
+  private async waitForCrawlDelay(): Promise<void> {
+    if (this.crawlDelayMs <= 0) return;
+    
+    // Reserve the next request slot so parallel workers stay spaced out
+    const now = Date.now();
+    const waitMs = Math.max(0, this.nextRequestAt - now);
+    this.nextRequestAt = Math.max(now, this.nextRequestAt) + this.crawlDelayMs;
+    
+    if (waitMs > 0) {
+      await this.delay(waitMs);
+    }
+  }
+
+  private async loadRobots(): Promise<void> {
+    const docsOrigin = new URL(this.baseUrl).origin;
+    this.crawlDelayMs = 0;
+    this.robots = await this.fetchRobots(docsOrigin);
+    
+    this.extraRobots.clear();
+    for (const origin of this.getAllowedOrigins()) {
+      if (origin !== docsOrigin && !this.extraRobots.has(origin)) {
+        this.extraRobots.set(origin, await this.fetchRobots(origin));
+      }
+    }
+    
+    if (gitBookConfig.respectRobotsTxt) {
+      // One request queue serves every origin, so the strictest delay applies
+      const delays = [this.robots, ...this.extraRobots.values()]
+        .map(robots => robots.getCrawlDelay(gitBookConfig.userAgent))
+        .filter((delay): delay is number => delay !== undefined);
+      if (delays.length > 0) {
+        const crawlDelay = Math.max(...delays);
+        this.crawlDelayMs = crawlDelay * 1000;
+        console.log(`🤖 robots.txt requests a Crawl-delay of ${crawlDelay}s`);
+      }
+    }
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    try {
+      const response = await this.fetchWithHeaders(`${origin}/robots.txt`);
+      
+      if (response.ok) {
+        return RobotsTxt.parse(await response.text());
+      }
+      if (response.status >= 500) {
+        console.log(`⚠️  ${origin}/robots.txt returned ${response.status}, treating the site as disallowed`);
+        return RobotsTxt.disallowEverything();
+      }
+      // 4xx: no robots.txt published, everything is allowed
+      return RobotsTxt.allowAll();
+    } catch (error) {
+      console.log(`⚠️  ${origin}/robots.txt unreachable, treating the site as disallowed:`, error instanceof Error ? error.message : String(error));
+      return RobotsTxt.disallowEverything();
+    }
+  }
+
+  private isAllowedByRobots(url: string): boolean {
+    if (!gitBookConfig.respectRobotsTxt) return true;
+    
+    const { origin, pathname, search } = new URL(url);
+    const robots = this.extraRobots.get(origin) || this.robots;
+    if (robots.isAllowed(pathname + search, gitBookConfig.userAgent)) {
+      return true;
+    }
+    
+    if (!this.robotsSkipped.has(url) && gitBookConfig.debug) {
+      console.log(`🤖 Skipping ${url} (disallowed by robots.txt)`);
+    }
+    this.robotsSkipped.add(url);
+    return false;
   }
 
   private reportProgress(currentUrl?: string): void {
@@ -154,6 +441,35 @@ export class GitBookScraper {
       filter: 'br',
       replacement: () => '\n'
     });
+
+    // GFM tables; tables wrapping other tables are layout and keep the default flattening
+    this.turndownService.addRule('gfm-tables', {
+      filter: node => {
+        const element = node as any;
+        return (element.nodeName === 'TABLE' || ['table', 'grid'].includes(element.getAttribute('role')))
+          && !element.querySelector(TABLE_SELECTOR);
+      },
+      replacement: (content, node) => {
+        const $ = cheerio.load((node as any).outerHTML, null, false);
+        const table = PageTables.layout(
+          PageTables.readRows($, $.root().children().first(), cell => this.turndownService.turndown(cell.html() || '').trim())
+        );
+        return table ? `\n\n${PageTables.toMarkdown(table)}\n\n` : content;
+      }
+    });
+
+    // Hints and admonitions become typed GitHub alerts instead of plain paragraphs
+    this.turndownService.addRule('callouts', {
+      filter: node => {
+        const element = node as any;
+        return Boolean(PageCallouts.typeOf(element.nodeName, element.getAttribute('class') || ''));
+      },
+      replacement: (content, node) => {
+        const $ = cheerio.load((node as any).outerHTML, null, false);
+        const callout = PageCallouts.read($, $.root().children().first(), body => this.turndownService.turndown(body.html() || '').trim());
+        return callout?.body ? `\n\n${PageCallouts.toMarkdown(callout)}\n\n` : content;
+      }
+    });
     
     console.log(`🏗️  TURNDOWN: TurndownService initialization completed`);
   }
@@ -167,9 +483,52 @@ export class GitBookScraper {
     return '';
   }
 
-  async scrapeAll(): Promise<void> {
+  /**
+   * Crawls the site, or revalidates the cache when it is still fresh. Aborting
+   * `signal` (or hitting CRAWL_DEADLINE_MS) stops the crawl early; pages fetched
+   * so far are kept and the reason is reported in getCrawlReport().aborted.
+   */
+  async scrapeAll(signal?: AbortSignal): Promise<void> {
     console.log(`🚀 SCRAPER: scrapeAll() started`);
     
+    const deadline = new AbortController();
+    const deadlineMs = gitBookConfig.crawlDeadlineMs;
+    const deadlineTimer = deadlineMs > 0
+      ? setTimeout(() => deadline.abort(new Error(`crawl deadline of ${deadlineMs}ms reached`)), deadlineMs)
+      : undefined;
+    this.crawlSignal = anySignal([signal, deadline.signal]);
+    // Every in-flight request listens on the crawl signal
+    setMaxListeners(0, this.crawlSignal);
+    this.abortReason = undefined;
+    
+    try {
+      await this.crawl();
+    } catch (error) {
+      if (!this.isCrawlAborted()) throw error;
+    } finally {
+      clearTimeout(deadlineTimer);
+    }
+    
+    if (this.isCrawlAborted()) {
+      await this.finishAbortedCrawl();
+    }
+    this.crawlSignal = undefined;
+  }
+
+  private async crawl(): Promise<void> {
+    this.robotsSkipped.clear();
+    this.scopeRejections.clear();
+    this.pagesRevalidated = 0;
+    this.notModifiedCount = 0;
+    this.throttledResponses = 0;
+    this.removedPages.clear();
+    this.fullCrawl = false;
+    this.authFailures.clear();
+    this.previousContent = {};
+    this.resumed = false;
+    this.platformCounts.clear();
+    await this.loadRobots();
+    
     // Try to load from cache first
     console.log(`🚀 SCRAPER: Checking cache...`);
     if (await this.loadFromCache()) {
@@ -177,17 +536,36 @@ export class GitBookScraper {
       
       // Check for changes if cache is not expired
       console.log(`🚀 SCRAPER: Detecting changes...`);
-      await this.detectChanges();
+      const updatedInPlace = await this.detectChanges();
+      if (this.isCrawlAborted()) return;
       
-      if (this.changedPages.size > 0) {
-        console.log(`Detected ${this.changedPages.size} changed pages, updating...`);
+      const hasChanges = this.changedPages.size > 0 || updatedInPlace > 0;
+      if (hasChanges) {
+        console.log(`Detected ${this.changedPages.size + updatedInPlace} changed pages, updating...`);
         await this.updateChangedPagesParallel();
         await this.retryFailedPages();
+        if (this.isCrawlAborted()) return;
+      }
+      if (hasChanges || this.removedPages.size > 0) {
+        this.applyTocSections();
         await this.saveToCache();
       }
+      this.warnAboutAuthFailures();
       return;
     }
     
+    // Start from a clean slate so pages that disappeared from the site can be noticed
+    this.fullCrawl = true;
+    const previousContent = Object.keys(this.content).length > 0 ? this.content : await this.loadExpiredCacheContent();
+    this.previousContent = previousContent;
+    this.content = {};
+    this.visitedUrls.clear();
+    this.resumed = await this.resumeFrontier();
+    if (!this.resumed) {
+      this.toc.clear(); // Rebuilt from the sidebars this crawl sees
+      this.apiSpecUrls.clear();
+    }
+    
     console.log('🚀 SCRAPER: Starting GitBook scraping...');
     console.log('🚀 SCRAPER: About to call scrapeAllPages()');
     await this.scrapeAllPages();
@@ -196,6 +574,14 @@ export class GitBookScraper {
     // Retry failed pages
     await this.retryFailedPages();
     
+    // A partial crawl says nothing about which pages are gone
+    if (this.isCrawlAborted()) return;
+    
+    this.reconcileMissingPages(previousContent);
+    this.previousContent = {};
+    await this.crawlStateStore?.clearFrontier();
+    this.applyTocSections();
+    
     const pageCount = Object.keys(this.content).length;
     console.log(`Scraping completed. Found ${pageCount} pages`);
     
@@ -211,16 +597,136 @@ export class GitBookScraper {
     if (this.failedPages.size > 0) {
       console.log(`Warning: ${this.failedPages.size} pages failed to scrape after retries`);
     }
+    this.warnAboutAuthFailures();
     
     // Save to cache
     await this.saveToCache();
   }
 
+  /**
+   * Keeps what an interrupted crawl fetched, falls back to the previous copy of
+   * everything else, and leaves the cache timestamp alone so the next run
+   * redoes the unfinished work.
+   */
+  private async finishAbortedCrawl(): Promise<void> {
+    this.abortReason = describeAbortReason(this.crawlSignal!);
+    
+    let restored = 0;
+    for (const [path, page] of Object.entries(this.previousContent)) {
+      if (!this.content[path] && !this.removedPages.has(path) && !this.aliases.has(path)) {
+        this.content[path] = page;
+        restored++;
+      }
+    }
+    this.previousContent = {};
+    await this.flushFrontier();
+    this.applyTocSections();
+    
+    console.log(`\n🛑 \x1b[33mCrawl aborted: ${this.abortReason}\x1b[0m`);
+    console.log(`   Keeping ${Object.keys(this.content).length} pages (${restored} from the previous crawl)`);
+    this.warnAboutAuthFailures();
+    
+    await this.saveToCache(this.cacheTimestamp);
+  }
+
+  /**
+   * Picks up an interrupted full crawl: pages it already fetched are reloaded
+   * from the crawl state store and only the rest of the frontier is fetched.
+   */
+  private async resumeFrontier(): Promise<boolean> {
+    this.frontier.clear();
+    this.dirtyFrontier.clear();
+    this.pendingCheckpoint.clear();
+    this.frontierDiscoveryComplete = false;
+    if (!this.crawlStateStore) return false;
+    
+    let saved: CrawlFrontier;
+    try {
+      saved = await this.crawlStateStore.loadFrontier();
+    } catch (error) {
+      console.log('Failed to load crawl progress:', error);
+      return false;
+    }
+    if (saved.entries.length === 0) return false;
+    
+    for (const entry of saved.entries) {
+      this.frontier.set(entry.path, entry);
+    }
+    
+    const fetched = saved.entries.filter(entry => entry.state === 'fetched');
+    const pages = await this.crawlStateStore.loadPages(fetched.map(entry => this.aliases.get(entry.path) ?? entry.path));
+    Object.assign(this.content, pages);
+    
+    // Anything fetched but missing from the store goes back in the queue
+    for (const entry of fetched) {
+      if (!this.content[this.aliases.get(entry.path) ?? entry.path]) {
+        this.setFrontierState(entry.path, 'queued');
+      }
+    }
+    
+    this.frontierDiscoveryComplete = saved.discoveryComplete;
+    console.log(`♻️  Resuming interrupted crawl: ${Object.keys(pages).length} of ${saved.entries.length} pages already fetched${saved.discoveryComplete ? '' : ' (re-running discovery)'}`);
+    return true;
+  }
+
+  private isFrontierActive(): boolean {
+    return this.fullCrawl && this.crawlStateStore !== undefined;
+  }
+
+  private setFrontierState(path: string, state: FrontierState, error?: string): void {
+    const depth = this.frontier.get(path)?.depth ?? this.urlDepths.get(path) ?? 0;
+    this.frontier.set(path, { path, state, depth, error });
+    this.dirtyFrontier.add(path);
+  }
+
+  // Records how a page of a full crawl turned out and checkpoints it when fetched
+  private async trackFrontier(path: string, failure?: 'failed'): Promise<void> {
+    if (!this.isFrontierActive()) return;
+    
+    const storedPath = this.content[path] ? path : this.aliases.get(path);
+    if (failure) {
+      this.setFrontierState(path, 'failed', `failed after ${gitBookConfig.maxRetries} retries`);
+    } else if (storedPath && this.content[storedPath]) {
+      this.setFrontierState(path, 'fetched');
+      this.pendingCheckpoint.add(storedPath);
+    } else {
+      this.setFrontierState(path, 'skipped');
+    }
+    
+    if (this.dirtyFrontier.size >= FRONTIER_FLUSH_SIZE) {
+      await this.flushFrontier();
+    }
+  }
+
+  private async flushFrontier(discoveryComplete?: boolean): Promise<void> {
+    if (!this.isFrontierActive()) return;
+    
+    const entries = Array.from(this.dirtyFrontier, path => this.frontier.get(path)!);
+    const pages = Array.from(this.pendingCheckpoint, path => this.content[path]).filter(page => page !== undefined);
+    this.dirtyFrontier.clear();
+    this.pendingCheckpoint.clear();
+    
+    try {
+      // Pages first: a frontier entry marked fetched must find its page on resume
+      await this.crawlStateStore!.checkpointPages(pages);
+      await this.crawlStateStore!.saveFrontier(entries, discoveryComplete);
+    } catch (error) {
+      console.log('Failed to save crawl progress:', error);
+    }
+  }
+
   private async loadFromCache(): Promise<boolean> {
     try {
       const data = await fs.readFile(this.cacheFile, 'utf-8');
       const cached = JSON.parse(data);
       
+      // Aliases stay useful after the cache expires: old URLs keep resolving
+      this.aliases = new Map(Object.entries(cached.aliases || {}));
+      this.cacheTimestamp = cached.timestamp || this.cacheTimestamp;
+      this.detectedPlatform = cached.platform || this.detectedPlatform;
+      this.toc = new Map((cached.toc || []).map((entry: TocEntry) => [entry.key, entry]));
+      this.apiSpecUrls = new Set(cached.apiSpecs || []);
+      
       // Check if cache is still valid and has content
       const cacheAge = Date.now() - new Date(cached.timestamp).getTime();
       const cacheTtlMs = gitBookConfig.cacheTtlHours * 60 * 60 * 1000;
@@ -236,15 +742,29 @@ export class GitBookScraper {
     return false;
   }
 
-  private async saveToCache(): Promise<void> {
+  // Content of an expired cache, used to tell which pages a full crawl no longer finds
+  private async loadExpiredCacheContent(): Promise<GitBookContent> {
+    try {
+      const data = await fs.readFile(this.cacheFile, 'utf-8');
+      return JSON.parse(data).content || {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  private async saveToCache(timestamp: string = new Date().toISOString()): Promise<void> {
     try {
       // Ensure cache directory exists
       const cacheDir = path.dirname(this.cacheFile);
       await fs.mkdir(cacheDir, { recursive: true });
       
       const cacheData = {
-        timestamp: new Date().toISOString(),
+        timestamp,
         content: this.content,
+        aliases: Object.fromEntries(this.aliases),
+        platform: this.getDetectedPlatform(),
+        toc: Array.from(this.toc.values()),
+        apiSpecs: Array.from(this.apiSpecUrls),
       };
       await fs.writeFile(this.cacheFile, JSON.stringify(cacheData, null, 2));
     } catch (error) {
@@ -252,15 +772,19 @@ export class GitBookScraper {
     }
   }
 
-  private async scrapePage(path: string, forceUpdate: boolean = false): Promise<void> {
+  private async scrapePage(path: string, forceUpdate: boolean = false): Promise<string[]> {
     const url = this.joinUrls(this.baseUrl, path);
     
     if (this.visitedUrls.has(url) && !forceUpdate) {
-      return;
+      return [];
     }
     
     this.visitedUrls.add(url);
 
+    if (!this.isAllowedByRobots(url)) {
+      return [];
+    }
+
     try {
       if (gitBookConfig.debug) {
         console.log(`Scraping: ${url}`);
@@ -268,47 +792,118 @@ export class GitBookScraper {
       
       const response = await this.fetchWithHeaders(url);
       
+      if (this.isBehindAuthWall(url, response)) {
+        return [];
+      }
+      
+      if (this.isGone(response.status)) {
+        this.removePage(path, `HTTP ${response.status}`);
+        return [];
+      }
+      
       if (!response.ok) {
+        if (this.classifyStatus(response.status) === 'retryable') {
+          throw new RetryableFetchError(
+            `HTTP ${response.status} for ${url}`,
+            parseRetryAfter(response.headers.get('retry-after'))
+          );
+        }
         console.log(`Failed to fetch ${url}: ${response.status}`);
-        return;
+        return [];
       }
 
       // Check if it's HTML content before processing
       const contentType = response.headers.get('content-type') || '';
+      if (this.isPdf(path, contentType)) {
+        const pdf = await this.readPdf(url, response);
+        if (pdf) {
+          this.content[path] = this.buildPdfPage(path, url, pdf, response);
+          this.reportProgress(url);
+        }
+        if (forceUpdate) {
+          await this.delay(gitBookConfig.scrapingDelayMs);
+        }
+        return [];
+      }
       if (!contentType.includes('text/html')) {
         if (gitBookConfig.debug) {
           console.log(`Skipping non-HTML content: ${url} (${contentType})`);
         }
-        return;
+        return [];
       }
 
       const html = await response.text();
       const $ = cheerio.load(html);
+      
+      if (SiteAuth.looksLikeLoginPage($)) {
+        this.recordAuthFailure(url, 'served a login form');
+        return [];
+      }
 
-      // Extract page content
-      const title = $('title').text() || $('h1').first().text() || 'Untitled';
-      const content = this.extractContent($);
-      const rawHtml = this.extractRawContent($);
-      const markdown = this.extractMarkdown($);
-      const codeBlocks = this.extractCodeBlocks($);
-      const section = this.extractSection(path);
-      const subsection = this.extractSubsection(path);
+      // Store redirected and duplicate URLs once, under the canonical path
+      const finalUrl = response.url || url;
+      if (finalUrl !== url && !this.absoluteUrlToPath(finalUrl)) {
+        if (gitBookConfig.debug) {
+          console.log(`Skipping ${url}: redirects outside the crawl to ${finalUrl}`);
+        }
+        return [];
+      }
+      // Links are collected before content extraction prunes navigation from the document
+      const links = this.extractInternalLinks($, finalUrl);
+      const canonicalPath = this.resolveCanonicalPath($, path, finalUrl);
+      if (canonicalPath !== path) {
+        this.addAlias(path, canonicalPath);
+        this.visitedUrls.add(this.joinUrls(this.baseUrl, canonicalPath));
+      } else {
+        this.aliases.delete(path); // Served as its own page again
+      }
+      const pageUrl = this.absoluteUrlToPath(finalUrl) === canonicalPath
+        ? finalUrl
+        : this.joinUrls(this.baseUrl, canonicalPath);
+
+      // Extract page content with the selectors of the platform that generated it
+      const profile = this.detectProfile($);
+      const version = DocVersions.detect($, canonicalPath);
+      const resolve = (href: string) => this.resolveLink(href, finalUrl);
+      const locale = PageLocales.detect($, canonicalPath, resolve);
+      const alternates = Object.fromEntries(
+        Object.entries(PageLocales.alternates($, resolve)).filter(([, alternatePath]) => alternatePath !== canonicalPath)
+      );
+      this.mergeToc(TocParser.parse($, profile, resolve));
+      if (gitBookConfig.discoverOpenApi) {
+        OpenApiParser.findSpecLinks($, finalUrl).forEach(specUrl => this.apiSpecUrls.add(specUrl));
+      }
+      const $doc = this.prepareDocument($);
+      const title = this.extractTitle($doc, profile);
+      const content = this.extractContent($doc, profile);
+      const breadcrumbs = SiteProfiles.extractBreadcrumbs($doc, profile, title.trim());
+      const rawHtml = this.extractRawContent($doc, profile);
+      const markdown = this.extractMarkdown($doc, profile);
+      const codeBlocks = this.extractCodeBlocks($doc);
+      const contentRoot = SiteProfiles.findContent($doc, profile) ?? $doc('body');
+      const images = PageImages.fromHtml($doc, contentRoot, finalUrl);
+      const tables = PageTables.fromHtml($doc, contentRoot);
+      const callouts = PageCallouts.fromHtml($doc, contentRoot);
+      const codeExamples = CodeExamples.link(codeBlocks, CodeExamples.fromHtml($doc, contentRoot));
+      const section = this.extractSection(canonicalPath, breadcrumbs);
+      const subsection = this.extractSubsection(canonicalPath, breadcrumbs);
 
       // Calculate content hash
       const contentHash = this.calculateHash(content + title);
       const cleanTitle = title.trim();
       
-      // Generate searchable text
+      // Generate searchable text; alt text is not in the page text, so it is added here
       const searchableText = this.textProcessor.createSearchableText(
         cleanTitle, 
-        content, 
+        [content, PageImages.searchText(images)].filter(Boolean).join('\n'), 
         section, 
-        subsection
+        subsection,
+        locale
       );
       
       // Store the page
-      this.content[path] = {
-        path,
+      this.content[canonicalPath] = {
+        path: canonicalPath,
         title: cleanTitle,
         content,
         rawHtml,
@@ -316,11 +911,22 @@ export class GitBookScraper {
         codeBlocks,
         section,
         subsection,
-        url,
+        url: pageUrl,
         lastUpdated: new Date(),
         contentHash,
         lastChecked: new Date(),
         searchableText,
+        sitemapLastmod: this.sitemapLastmod.get(canonicalPath) || this.sitemapLastmod.get(path),
+        source: 'html',
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined,
+        version,
+        locale,
+        alternates: Object.keys(alternates).length > 0 ? alternates : undefined,
+        images,
+        tables,
+        callouts,
+        codeExamples,
       };
 
       // Report progress after storing page
@@ -330,24 +936,91 @@ export class GitBookScraper {
       if (forceUpdate) {
         await this.delay(gitBookConfig.scrapingDelayMs);
       }
+      return links;
     } catch (error) {
+      if (this.isCrawlAborted()) {
+        this.visitedUrls.delete(url);
+        throw error;
+      }
+      // The request deadline can also fire while the body is still downloading
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        error = new RetryableFetchError(`Timed out after ${gitBookConfig.requestTimeoutMs}ms reading ${url}`);
+      }
+      if (error instanceof RetryableFetchError) {
+        // Let the retry see this page as unvisited again
+        this.visitedUrls.delete(url);
+        throw error;
+      }
       console.log(`Error scraping ${url}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Client-rendered docs ship a near-empty HTML shell and the real content as
+   * hydration data. When the HTML is thin, rebuild the document from that data
+   * if it holds more text; otherwise keep the HTML as served.
+   */
+  private prepareDocument($: cheerio.CheerioAPI): cheerio.CheerioAPI {
+    const htmlTextLength = this.extractContent($).length;
+    if (htmlTextLength >= THIN_CONTENT_CHARS) return $;
+    
+    const hydrated = HydrationExtractor.extract($);
+    if (!hydrated) return $;
+    
+    const $hydrated = cheerio.load(`<html><head><title></title></head><body>${hydrated.html}</body></html>`);
+    $hydrated('title').text($('title').text() || hydrated.title || '');
+    if (this.extractContent($hydrated).length <= htmlTextLength) return $;
+    
+    if (gitBookConfig.debug) {
+      console.log(`💧 Rebuilt page from ${hydrated.source} hydration data`);
+    }
+    return $hydrated;
+  }
+
+  // Detects the page's platform and tallies it for getDetectedPlatform()
+  private detectProfile($: cheerio.CheerioAPI): SiteProfile {
+    const profile = SiteProfiles.detect($);
+    this.platformCounts.set(profile.platform, (this.platformCounts.get(profile.platform) || 0) + 1);
+    return profile;
+  }
+
+  /**
+   * The platform most pages of the last crawl were generated by, or the one
+   * recorded in the cache when this run fetched no pages.
+   */
+  getDetectedPlatform(): SitePlatform | undefined {
+    let best: SitePlatform | undefined;
+    let bestCount = 0;
+    for (const [platform, count] of this.platformCounts) {
+      if (count > bestCount) {
+        best = platform;
+        bestCount = count;
+      }
+    }
+    if (best) {
+      this.detectedPlatform = best;
     }
+    return this.detectedPlatform;
   }
 
-  private extractContent($: cheerio.CheerioAPI): string {
+  private extractTitle($: cheerio.CheerioAPI, profile: SiteProfile): string {
+    return SiteProfiles.extractTitle($, profile) || $('title').text() || $('h1').first().text() || 'Untitled';
+  }
+
+  private extractContent($: cheerio.CheerioAPI, profile: SiteProfile = SiteProfiles.detect($)): string {
     // Clone for text extraction
     const $clone = $.load($.html());
     
     // Remove navigation, header, footer, and other non-content elements
-    $clone('nav, header, footer, .navigation, .sidebar, .toc, .breadcrumb').remove();
+    $clone(`header, footer, ${SiteProfiles.chromeSelectors(profile)}`).remove();
     // Remove script and style content that might leak into text
     $clone('script, style, noscript').remove();
     
     // Extract main content area
-    const mainContent = $clone('main, .content, .page-content, article, .markdown-body').first();
+    const mainContent = SiteProfiles.findContent($clone, profile);
     
-    if (mainContent.length) {
+    if (mainContent) {
       let text = mainContent.text().trim();
       // Filter out JavaScript-like content that leaked through
       text = this.cleanJavaScriptNoise(text);
@@ -371,13 +1044,13 @@ export class GitBookScraper {
     return text.trim();
   }
 
-  private extractRawContent($: cheerio.CheerioAPI): string {
+  private extractRawContent($: cheerio.CheerioAPI, profile: SiteProfile): string {
     // Extract main content area with HTML preserved
-    const mainContent = $('main, .content, .page-content, article, .markdown-body').first();
+    const mainContent = SiteProfiles.findContent($, profile);
     
-    if (mainContent.length) {
+    if (mainContent) {
       // Remove navigation elements but preserve structure
-      mainContent.find('nav, .navigation, .sidebar, .toc, .breadcrumb').remove();
+      mainContent.find(SiteProfiles.chromeSelectors(profile)).remove();
       return mainContent.html() || '';
     }
     
@@ -386,13 +1059,13 @@ export class GitBookScraper {
     return $('body').html() || '';
   }
 
-  private extractMarkdown($: cheerio.CheerioAPI): string {
+  private extractMarkdown($: cheerio.CheerioAPI, profile: SiteProfile): string {
     // Extract main content area for markdown conversion
-    const mainContent = $('main, .content, .page-content, article, .markdown-body').first();
+    const mainContent = SiteProfiles.findContent($, profile);
     
-    if (mainContent.length) {
+    if (mainContent) {
       // Remove navigation elements but preserve structure
-      mainContent.find('nav, .navigation, .sidebar, .toc, .breadcrumb').remove();
+      mainContent.find(SiteProfiles.chromeSelectors(profile)).remove();
       const html = mainContent.html() || '';
       
       if (html) {
@@ -551,56 +1224,137 @@ export class GitBookScraper {
     return 'text'; // Default
   }
 
-  private extractSection(path: string): string {
-    const pathParts = path.split('/').filter(Boolean);
-    if (pathParts.length === 0) return 'Introduction';
+  // Until the sidebar TOC is known (see applyTocSections), breadcrumbs beat guessing from the URL
+  private extractSection(path: string, breadcrumbs: string[] = []): string {
+    if (breadcrumbs.length > 0) return breadcrumbs[0];
     
-    const sectionMap: { [key: string]: string } = {
-      'sdk': 'SDK',
-      'backend': 'Backend',
-      'frontend': 'Frontend',
-      'introduction': 'Introduction',
-    };
+    const pathParts = this.sectionPathParts(path);
+    if (pathParts.length === 0) return 'Introduction';
     
-    return sectionMap[pathParts[0].toLowerCase()] || pathParts[0];
+    return pathParts[0];
   }
 
-  private extractSubsection(path: string): string | undefined {
-    const pathParts = path.split('/').filter(Boolean);
+  private extractSubsection(path: string, breadcrumbs: string[] = []): string | undefined {
+    if (breadcrumbs.length > 0) return breadcrumbs[1];
+    
+    const pathParts = this.sectionPathParts(path);
     if (pathParts.length < 2) return undefined;
     
     return pathParts[1];
   }
 
-  private extractInternalLinks($: cheerio.CheerioAPI): string[] {
+  // Path segments below the version and language prefixes, so /fr/v2/guides/... falls under "guides"
+  private sectionPathParts(path: string): string[] {
+    const pathParts = this.keyPathname(path).split('/').filter(Boolean);
+    const version = DocVersions.fromPath(path);
+    const locale = PageLocales.fromPath(path);
+    const prefixIndexes = pathParts
+      .map((part, index) => index < 2 && (part === version || (locale && PageLocales.normalize(part) === locale)) ? index : -1)
+      .filter(index => index !== -1);
+    return prefixIndexes.length > 0 ? pathParts.slice(Math.max(...prefixIndexes) + 1) : pathParts;
+  }
+
+  // Sidebars differ per page (collapsed groups), so each adds the entries it shows
+  private mergeToc(entries: TocEntry[]): void {
+    for (const entry of entries) {
+      if (!this.toc.has(entry.key)) {
+        this.toc.set(entry.key, entry);
+      }
+    }
+  }
+
+  /**
+   * Takes section and subsection from the page's place in the sidebar: the
+   * top-level group it sits under and the entry below that.
+   */
+  private applyTocSections(): void {
+    if (this.toc.size === 0) return;
+    
+    const byPath = new Map<string, TocEntry>();
+    for (const entry of this.toc.values()) {
+      if (entry.path) {
+        const path = this.aliases.get(entry.path) ?? entry.path;
+        if (!byPath.has(path)) byPath.set(path, entry);
+      }
+    }
+    
+    for (const page of Object.values(this.content)) {
+      const entry = byPath.get(page.path);
+      if (!entry) continue;
+      
+      const trail = TocParser.trail(this.toc, entry.key);
+      const section = trail[0];
+      const subsection = trail[1];
+      if (section === page.section && subsection === page.subsection) continue;
+      
+      page.section = section;
+      page.subsection = subsection;
+      page.searchableText = this.textProcessor.createSearchableText(page.title, page.content, section, subsection, page.locale);
+    }
+  }
+
+  getToc(): TocEntry[] {
+    return Array.from(this.toc.values());
+  }
+
+  getApiSpecUrls(): string[] {
+    return Array.from(this.apiSpecUrls);
+  }
+
+  private extractInternalLinks($: cheerio.CheerioAPI, pageUrl: string): string[] {
     const links: string[] = [];
     
+    // Relative hrefs resolve against <base href> when the page declares one
+    let resolveAgainst = pageUrl;
+    const baseHref = $('base[href]').first().attr('href');
+    if (baseHref) {
+      try {
+        resolveAgainst = new URL(baseHref, pageUrl).toString();
+      } catch {
+        // Malformed <base>, keep the page URL
+      }
+    }
+    
     $('a[href]').each((_, element) => {
       const href = $(element).attr('href');
-      if (href && this.isInternalLink(href)) {
-        const normalizedPath = this.normalizePath(href);
-        if (normalizedPath && !this.visitedUrls.has(`${this.baseUrl}${normalizedPath}`)) {
-          links.push(normalizedPath);
-        }
+      const path = href ? this.resolveLink(href, resolveAgainst) : null;
+      if (path && !this.visitedUrls.has(this.joinUrls(this.baseUrl, path))) {
+        links.push(path);
       }
     });
     
     return [...new Set(links)]; // Remove duplicates
   }
 
-  private isInternalLink(href: string): boolean {
-    // Check if it's an internal link (starts with / or relative)
-    return href.startsWith('/') || 
-           (!href.startsWith('http') && !href.startsWith('#') && !href.startsWith('mailto:'));
+  private resolveLink(href: string, pageUrl: string): string | null {
+    if (href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) {
+      return null;
+    }
+    
+    try {
+      const target = new URL(href, pageUrl);
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') return null;
+      
+      target.hash = '';
+      target.search = '';
+      return this.absoluteUrlToPath(target.toString());
+    } catch {
+      return null;
+    }
   }
 
   private normalizePath(href: string): string | null {
     // Remove query parameters and fragments
-    const cleanHref = href.split('?')[0].split('#')[0];
+    let cleanHref = href.split('?')[0].split('#')[0];
     
     // Skip if it's just a fragment or empty
     if (!cleanHref || cleanHref === '#') return null;
     
+    // "/guide/" and "/guide" are the same page
+    if (cleanHref.length > 1 && cleanHref.endsWith('/')) {
+      cleanHref = cleanHref.replace(/\/+$/, '') || '/';
+    }
+    
     // Filter out static assets and non-content paths
     if (this.isStaticAsset(cleanHref)) return null;
     
@@ -613,6 +1367,9 @@ export class GitBookScraper {
   }
 
   private isStaticAsset(path: string): boolean {
+    // Linked PDFs are documents too when PDF indexing is on, wherever they are stored
+    if (gitBookConfig.indexPdfs && PDF_PATH.test(path)) return false;
+
     // Common static asset patterns
     const staticPatterns = [
       // File extensions
@@ -622,7 +1379,7 @@ export class GitBookScraper {
       // Common non-content paths
       /^\/?(_|\.)/i, // Paths starting with underscore or dot
       /\/search\/?$/i,
-      /\/sitemap/i,
+      /\/sitemap[^/]*\.xml(\.gz)?$/i, // Sitemaps are read separately, not crawled as pages
       /\/feed/i,
       /\/rss/i,
       /\/robots\.txt$/i,
@@ -632,24 +1389,91 @@ export class GitBookScraper {
     return staticPatterns.some(pattern => pattern.test(path));
   }
 
+  // Every pause in a crawl ends early when the crawl is aborted
   private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return abortableDelay(ms, this.crawlSignal);
   }
 
-  private async detectChanges(): Promise<void> {
-    const pagesToCheck = Object.keys(this.content);
-    const batchSize = gitBookConfig.maxConcurrentRequests;
+  private isCrawlAborted(): boolean {
+    return this.crawlSignal?.aborted ?? false;
+  }
+
+  private async detectChanges(): Promise<number> {
+    // llms-full.txt pages are refreshed from the file itself, never from HTML
+    const updatedInPlace = await this.refreshLlmsFullPages();
+    const sitemapPaths = await this.loadSitemapEntries();
+
+    // Pages published in the sitemap since the last crawl
+    for (const path of sitemapPaths) {
+      if (!this.content[path] && !this.changedPages.has(path)) {
+        const decision = this.scope.check(path, 1, Object.keys(this.content).length + this.changedPages.size);
+        if (decision.allowed) {
+          this.changedPages.add(path);
+        } else {
+          this.scopeRejections.set(path, decision.reason!);
+        }
+      }
+    }
+
+    // Pages whose sitemap <lastmod> hasn't moved don't need to be fetched at all
+    const htmlPages = Object.keys(this.content).filter(path => this.content[path].source !== 'llms-full');
+    const pagesToCheck = htmlPages.filter(path => !this.isUnchangedPerSitemap(path));
+    const skipped = htmlPages.length - pagesToCheck.length;
+    if (skipped > 0) {
+      console.log(`🗺️  Skipping ${skipped} pages with unchanged sitemap lastmod`);
+    }
+    
+    // Concurrency is bounded per host by the limiter inside fetchWithHeaders
+    await Promise.all(pagesToCheck.map(path => this.checkPageForChanges(path)));
+    
+    return updatedInPlace;
+  }
+
+  private async refreshLlmsFullPages(): Promise<number> {
+    await this.loadLlmsIndex();
+    const llmsPages = await this.loadLlmsFullPages();
+    let updated = 0;
     
-    for (let i = 0; i < pagesToCheck.length; i += batchSize) {
-      const batch = pagesToCheck.slice(i, i + batchSize);
-      const promises = batch.map(path => this.checkPageForChanges(path));
-      await Promise.all(promises);
+    // Sections dropped from llms-full.txt; skipped when the file itself is unavailable
+    if (Object.keys(llmsPages).length > 0) {
+      for (const [path, page] of Object.entries(this.content)) {
+        if (page.source === 'llms-full' && !llmsPages[path]) {
+          this.removePage(path, 'no longer in llms-full.txt');
+        }
+      }
+    }
+    
+    for (const [path, page] of Object.entries(llmsPages)) {
+      const existing = this.content[path];
+      if (!existing) {
+        const decision = this.scope.check(path, 1, Object.keys(this.content).length);
+        if (!decision.allowed) {
+          this.scopeRejections.set(path, decision.reason!);
+          continue;
+        }
+      }
       
-      // Small delay between batches
-      if (i + batchSize < pagesToCheck.length) {
-        await this.delay(gitBookConfig.scrapingDelayMs);
+      if (!existing || existing.source !== 'llms-full' || existing.contentHash !== page.contentHash) {
+        this.content[path] = page;
+        updated++;
+      } else {
+        existing.lastChecked = new Date();
       }
     }
+    
+    return updated;
+  }
+
+  private isUnchangedPerSitemap(path: string): boolean {
+    const page = this.content[path];
+    const lastmod = this.sitemapLastmod.get(path);
+    
+    if (!page || !lastmod || page.sitemapLastmod !== lastmod) {
+      return false;
+    }
+    
+    page.lastChecked = new Date();
+    return true;
   }
 
   private async checkPageForChanges(path: string): Promise<void> {
@@ -659,19 +1483,50 @@ export class GitBookScraper {
     const url = this.joinUrls(this.baseUrl, path);
     let retryCount = 0;
     
+    if (!this.isAllowedByRobots(url)) {
+      return;
+    }
+    
+    // Let the server tell us nothing changed instead of re-downloading the page
+    const conditionalHeaders: Record<string, string> = {};
+    if (existingPage.etag) {
+      conditionalHeaders['If-None-Match'] = existingPage.etag;
+    }
+    if (existingPage.lastModified) {
+      conditionalHeaders['If-Modified-Since'] = existingPage.lastModified;
+    }
+    
+    this.pagesRevalidated++;
+    
     while (retryCount <= 2) { // Quick retry for change detection
       try {
         if (gitBookConfig.debug && retryCount === 0) {
           console.log(`Checking for changes: ${url}`);
         }
 
-        const response = await this.fetchWithHeaders(url);
+        const response = await this.fetchWithHeaders(url, conditionalHeaders);
+        
+        if (response.status === 304) {
+          existingPage.lastChecked = new Date();
+          this.notModifiedCount++;
+          return;
+        }
+        
+        // Keep the cached copy; a lapsed session shouldn't wipe the index
+        if (this.isBehindAuthWall(url, response)) {
+          return;
+        }
+        
+        if (this.isGone(response.status)) {
+          this.removePage(path, `HTTP ${response.status}`);
+          return;
+        }
         
         if (!response.ok) {
-          if (response.status >= 500 && retryCount < 2) {
-            // Server error - retry
+          if (this.classifyStatus(response.status) === 'retryable' && retryCount < 2) {
             retryCount++;
-            await this.delay(500 * retryCount);
+            const retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? 0;
+            await this.delay(Math.max(500 * retryCount, retryAfterMs));
             continue;
           }
           
@@ -679,15 +1534,37 @@ export class GitBookScraper {
           return;
         }
 
+        if (existingPage.contentType === 'pdf') {
+          // An unreadable download keeps the cached text
+          const pdf = await this.readPdf(url, response);
+          if (!pdf) return;
+          existingPage.lastChecked = new Date();
+          existingPage.etag = response.headers.get('etag') || undefined;
+          existingPage.lastModified = response.headers.get('last-modified') || undefined;
+          if (this.buildPdfPage(path, url, pdf, response).contentHash !== existingPage.contentHash) {
+            this.changedPages.add(path);
+          }
+          return;
+        }
+
         const html = await response.text();
         const $ = cheerio.load(html);
+        
+        if (SiteAuth.looksLikeLoginPage($)) {
+          this.recordAuthFailure(url, 'served a login form');
+          return;
+        }
 
-        const title = $('title').text() || $('h1').first().text() || 'Untitled';
-        const content = this.extractContent($);
+        const profile = SiteProfiles.detect($);
+        const $doc = this.prepareDocument($);
+        const title = this.extractTitle($doc, profile);
+        const content = this.extractContent($doc, profile);
         const newHash = this.calculateHash(content + title);
 
-        // Update last checked time
+        // Update last checked time and validators for the next conditional request
         existingPage.lastChecked = new Date();
+        existingPage.etag = response.headers.get('etag') || undefined;
+        existingPage.lastModified = response.headers.get('last-modified') || undefined;
 
         // Check if content changed
         if (newHash !== existingPage.contentHash) {
@@ -697,6 +1574,7 @@ export class GitBookScraper {
         return; // Success
         
       } catch (error) {
+        if (this.isCrawlAborted()) return;
         if (retryCount < 2) {
           retryCount++;
           if (gitBookConfig.debug) {
@@ -711,6 +1589,74 @@ export class GitBookScraper {
     }
   }
 
+  private isBehindAuthWall(url: string, response: Response): boolean {
+    const reason = SiteAuth.detectAuthFailure(url, response);
+    if (!reason) return false;
+    
+    this.recordAuthFailure(url, reason);
+    return true;
+  }
+
+  private recordAuthFailure(url: string, reason: string): void {
+    if (gitBookConfig.debug) {
+      console.log(`🔒 ${url} requires authentication (${reason})`);
+    }
+    this.authFailures.set(url, reason);
+  }
+
+  private warnAboutAuthFailures(): void {
+    if (this.authFailures.size === 0) return;
+    
+    const hint = this.auth.isConfigured()
+      ? 'the configured credentials were rejected or have expired'
+      : 'no credentials are configured (see the AUTH_* settings)';
+    console.log(`\n🔒 \x1b[33mWARNING: ${this.authFailures.size} pages require authentication; ${hint}\x1b[0m`);
+  }
+
+  private isGone(status: number): boolean {
+    return status === 404 || status === 410;
+  }
+
+  private classifyStatus(status: number): FetchOutcome {
+    if (status < 400) return 'success';
+    return RETRYABLE_STATUSES.has(status) ? 'retryable' : 'permanent';
+  }
+
+  private removePage(path: string, reason: string): void {
+    // A full crawl starts from empty content; the page may only be in the previous index
+    if (!this.content[path] && !this.previousContent[path]) return;
+    
+    delete this.content[path];
+    this.changedPages.delete(path);
+    this.removedPages.set(path, reason);
+    console.log(`🗑️  Removed ${path} from the index (${reason})`);
+  }
+
+  /**
+   * After a full crawl, carries over pages from the previous crawl that were not
+   * found again. A page is only dropped after `stalePageMissLimit` consecutive
+   * misses, so one flaky crawl doesn't wipe part of the index.
+   */
+  private reconcileMissingPages(previousContent: GitBookContent): void {
+    for (const [path, page] of Object.entries(previousContent)) {
+      if (this.content[path] || this.removedPages.has(path) || this.aliases.has(path)) continue;
+      
+      // Still linked from the site but failed to fetch this time: keep the last good copy
+      if (this.discoveredUrls.has(path)) {
+        this.content[path] = page;
+        continue;
+      }
+      
+      const missCount = (page.missCount || 0) + 1;
+      if (missCount >= gitBookConfig.stalePageMissLimit) {
+        this.removedPages.set(path, `not found by ${missCount} consecutive full crawls`);
+        console.log(`🗑️  Removed ${path} from the index (no longer discovered)`);
+      } else {
+        this.content[path] = { ...page, missCount };
+      }
+    }
+  }
+
   private async updateChangedPages(): Promise<void> {
     for (const path of this.changedPages) {
       await this.scrapePage(path, true);
@@ -725,11 +1671,50 @@ export class GitBookScraper {
   }
 
   private async scrapeAllPages(): Promise<void> {
-    // Phase 1: Discover all URLs by scraping root page
-    await this.discoverUrls();
+    // Phase 0: llms-full.txt already holds the docs as markdown, no HTML conversion needed
+    await this.loadLlmsIndex();
+    const llmsPages = await this.loadLlmsFullPages();
+    let llmsPageCount = 0;
+    for (const [path, page] of Object.entries(llmsPages)) {
+      const decision = this.scope.check(path, 1, llmsPageCount);
+      if (decision.allowed) {
+        this.content[path] = page;
+        llmsPageCount++;
+      } else {
+        this.scopeRejections.set(path, decision.reason!);
+      }
+    }
+    if (llmsPageCount > 0) {
+      console.log(`📚 Loaded ${llmsPageCount} pages from llms-full.txt`);
+    }
+    
+    // Phase 1: Discover all URLs by scraping from the root page; pages are kept as they are fetched
+    // Pages llms-full.txt covered aren't fetched, but the links in their markdown are followed
+    if (this.frontierDiscoveryComplete) {
+      this.restoreDiscoveryFromFrontier();
+    } else {
+      await this.discoverUrls(Object.keys(this.content));
+      
+      if (this.isCrawlAborted()) return;
+      
+      for (const path of this.discoveredUrls) {
+        if (!this.frontier.has(path)) {
+          this.setFrontierState(path, 'queued');
+        }
+      }
+      this.frontierDiscoveryComplete = true;
+      await this.flushFrontier(true);
+    }
     
-    // Phase 2: Process all discovered URLs in parallel
-    const allUrls = Array.from(this.discoveredUrls);
+    // Phase 2: Scrape what discovery didn't reach, skipping pages llms-full.txt covered,
+    // pages discovery already fetched or failed, and pages an interrupted crawl already
+    // fetched or ruled out
+    const allUrls = Array.from(this.discoveredUrls).filter(path =>
+      !this.content[path] &&
+      !this.failedPages.has(path) &&
+      !this.visitedUrls.has(this.joinUrls(this.baseUrl, path)) &&
+      !['fetched', 'skipped'].includes(this.frontier.get(path)?.state ?? 'queued')
+    );
     console.log(`🔍 Phase 2: Conversion to array complete. Got ${allUrls.length} URLs`);
     
     if (allUrls.length > 0) {
@@ -742,7 +1727,20 @@ export class GitBookScraper {
     }
   }
 
-  private async discoverUrls(): Promise<void> {
+  private restoreDiscoveryFromFrontier(): void {
+    this.discoveredUrls.clear();
+    this.urlDepths.clear();
+    for (const entry of this.frontier.values()) {
+      this.discoveredUrls.add(entry.path);
+      this.urlDepths.set(entry.path, entry.depth);
+    }
+    console.log(`♻️  Restored ${this.discoveredUrls.size} discovered URLs from the interrupted crawl`);
+  }
+
+  private async discoverUrls(knownPaths: string[] = []): Promise<void> {
+    this.discoveredUrls.clear();
+    this.urlDepths.clear();
+    
     // Try to load discovery cache in debug mode
     if (gitBookConfig.debug && await this.loadDiscoveryCache()) {
       console.log(`🔍 Loaded ${this.discoveredUrls.size} URLs from discovery cache`);
@@ -754,12 +1752,51 @@ export class GitBookScraper {
     const discoveryBatchSize = Math.min(8, gitBookConfig.maxConcurrentRequests); // Parallel discovery
     let batchCount = 0;
 
-    // Always include the root page in discovered URLs
+    // Always include the root page in discovered URLs; it is exempt from scope rules
     this.discoveredUrls.add('/');
+    this.urlDepths.set('/', 0);
+
+    // Pages already loaded (llms-full.txt, or fetched before an interruption) count against
+    // the page budget; their links are read from their markdown
+    for (const path of knownPaths) {
+      this.discoveredUrls.add(path);
+      this.urlDepths.set(path, 1);
+      queue.push(path);
+    }
+
+    // Seeds aren't reached through links; they count as one hop from the root
+    // llms.txt links come first: the site curated that order for readers
+    const llmsPaths = Array.from(new Set(this.llmsTitles.values()));
+    for (const path of llmsPaths) {
+      if (this.admitPath(path, 1)) {
+        queue.push(path);
+      }
+    }
+    if (llmsPaths.length > 0) {
+      console.log(`📚 Seeded ${llmsPaths.length} URLs from llms.txt`);
+    }
+
+    // Seed the frontier with everything the site publishes in its sitemaps
+    const sitemapPaths = await this.loadSitemapEntries();
+    for (const path of sitemapPaths) {
+      if (this.admitPath(path, 1)) {
+        queue.push(path);
+      }
+    }
+    if (sitemapPaths.length > 0) {
+      console.log(`🗺️  Seeded ${sitemapPaths.length} URLs from sitemaps`);
+    }
+
+    // An interrupted crawl's frontier carries on where it stopped
+    for (const entry of this.frontier.values()) {
+      if (this.admitPath(entry.path, entry.depth)) {
+        queue.push(entry.path);
+      }
+    }
 
     console.log('🔍 Starting URL discovery...');
 
-    while (queue.length > 0) {
+    while (queue.length > 0 && !this.isCrawlAborted()) {
       // Process multiple paths in parallel
       const batch: string[] = [];
       while (batch.length < discoveryBatchSize && queue.length > 0) {
@@ -780,14 +1817,15 @@ export class GitBookScraper {
 
       try {
         // Parallel discovery requests
-        const discoveryPromises = batch.map(path => this.discoverFromPath(path));
+        const discoveryPromises = batch.map(path => this.discoverPage(path));
         const batchResults = await Promise.allSettled(discoveryPromises);
         
         // Collect all new links from successful discoveries
-        const newLinks: string[] = [];
+        const newLinks: Array<{ link: string; depth: number }> = [];
         batchResults.forEach((result, index) => {
           if (result.status === 'fulfilled') {
-            newLinks.push(...result.value);
+            const depth = (this.urlDepths.get(batch[index]) ?? 0) + 1;
+            newLinks.push(...result.value.map(link => ({ link, depth })));
           } else if (gitBookConfig.debug) {
             // Only show discovery failures in debug mode to avoid breaking progress line
             console.log(`\nDiscovery failed for ${batch[index]}:`, result.reason);
@@ -795,10 +1833,9 @@ export class GitBookScraper {
         });
 
         // Add new links to queue
-        for (const link of newLinks) {
-          if (!processed.has(link) && !queue.includes(link)) {
+        for (const { link, depth } of newLinks) {
+          if (!processed.has(link) && this.admitPath(link, depth)) {
             queue.push(link);
-            this.discoveredUrls.add(link);
           }
         }
 
@@ -821,93 +1858,310 @@ export class GitBookScraper {
     console.log(`🔄 Discovery phase finished, returning control to scrapeAllPages...`);
   }
 
-  private async discoverFromPath(path: string): Promise<string[]> {
-    try {
-      const url = this.joinUrls(this.baseUrl, path);
-      const response = await this.fetchWithHeaders(url);
+  private async loadSitemapEntries(): Promise<string[]> {
+    const parser = new SitemapParser(url => this.fetchWithHeaders(url));
+    const entries = await parser.discover(this.baseUrl, this.robots.sitemaps);
+    
+    const paths = new Set<string>();
+    for (const entry of entries) {
+      const path = this.absoluteUrlToPath(entry.url);
+      if (!path) continue;
       
-      if (response.ok) {
-        // Check if it's HTML content
-        const contentType = response.headers.get('content-type') || '';
-        if (!contentType.includes('text/html')) {
-          if (gitBookConfig.debug) {
-            console.log(`Skipping non-HTML content: ${url} (${contentType})`);
-          }
-          return [];
+      paths.add(path);
+      if (entry.lastmod) {
+        this.sitemapLastmod.set(path, entry.lastmod);
+      }
+    }
+    
+    return Array.from(paths);
+  }
+
+  private async fetchLlmsFile(name: 'llms.txt' | 'llms-full.txt'): Promise<string | null> {
+    // Prefer the file next to the docs, then the site root
+    const candidates = new Set([`${this.baseUrl}/${name}`, `${new URL(this.baseUrl).origin}/${name}`]);
+    
+    for (const url of candidates) {
+      if (!this.isAllowedByRobots(url)) continue;
+      
+      try {
+        const response = await this.fetchWithHeaders(url);
+        if (!response.ok) continue;
+        
+        const body = await response.text();
+        if (body.trim() && !LlmsTxtParser.looksLikeHtml(body)) {
+          return body;
+        }
+      } catch (error) {
+        if (gitBookConfig.debug) {
+          console.log(`Failed to fetch ${url}:`, error);
         }
+      }
+    }
+    
+    return null;
+  }
 
-        const html = await response.text();
-        const $ = cheerio.load(html);
-        return this.extractInternalLinks($);
+  private async loadLlmsIndex(): Promise<void> {
+    this.llmsTitles.clear();
+    if (!gitBookConfig.useLlmsTxt) return;
+    
+    const body = await this.fetchLlmsFile('llms.txt');
+    if (!body) return;
+    
+    const index = LlmsTxtParser.parseIndex(body, `${this.baseUrl}/`);
+    for (const link of index.links) {
+      const path = this.absoluteUrlToPath(this.stripMarkdownSuffix(link.url));
+      if (path && !this.llmsTitles.has(link.title.toLowerCase())) {
+        this.llmsTitles.set(link.title.toLowerCase(), path);
       }
+    }
+  }
+
+  private async loadLlmsFullPages(): Promise<GitBookContent> {
+    const pages: GitBookContent = {};
+    if (!gitBookConfig.useLlmsTxt) return pages;
+    
+    const body = await this.fetchLlmsFile('llms-full.txt');
+    if (!body) return pages;
+    
+    let unresolved = 0;
+    for (const doc of LlmsTxtParser.splitFullText(body)) {
+      // Pages are identified by their Source: line, or by matching an llms.txt link title
+      const path = doc.url
+        ? this.absoluteUrlToPath(this.stripMarkdownSuffix(doc.url))
+        : this.llmsTitles.get(doc.title.toLowerCase()) || null;
       
-      return [];
-    } catch (error) {
-      if (gitBookConfig.debug) {
-        console.log(`Discovery failed for ${path}:`, error);
+      if (!path) {
+        unresolved++;
+        continue;
       }
-      return [];
+      
+      pages[path] = this.buildMarkdownPage(path, doc.title, doc.markdown, 'llms-full');
+    }
+    
+    if (unresolved > 0) {
+      console.log(`⚠️  ${unresolved} llms-full.txt sections had no resolvable URL and were skipped`);
+    }
+    
+    return pages;
+  }
+
+  // llms.txt links usually point at the .md rendition of a page
+  private stripMarkdownSuffix(url: string): string {
+    return url.replace(/(\/index\.html)?\.md$/, '');
+  }
+
+  private buildMarkdownPage(path: string, title: string, rawMarkdown: string, source: PageSource): GitBookPage {
+    const markdown = PageCallouts.normalizeMarkdown(rawMarkdown);
+    const content = markdownToPlainText(markdown);
+    const section = this.extractSection(path);
+    const subsection = this.extractSubsection(path);
+    const locale = PageLocales.fromPath(path);
+    const codeBlocks = extractCodeFences(markdown);
+    const codeExamples = CodeExamples.link(codeBlocks, CodeExamples.fromMarkdown(markdown));
+    
+    return {
+      path,
+      title,
+      content,
+      rawHtml: '',
+      markdown,
+      codeBlocks,
+      images: PageImages.fromMarkdown(markdown, this.joinUrls(this.baseUrl, path)),
+      tables: PageTables.fromMarkdown(markdown),
+      callouts: PageCallouts.fromMarkdown(markdown),
+      codeExamples,
+      section,
+      subsection,
+      url: this.joinUrls(this.baseUrl, path),
+      lastUpdated: new Date(),
+      contentHash: this.calculateHash(content + title),
+      lastChecked: new Date(),
+      searchableText: this.textProcessor.createSearchableText(title, content, section, subsection, locale),
+      sitemapLastmod: this.sitemapLastmod.get(path),
+      source,
+      version: DocVersions.fromPath(path),
+      locale
+    };
+  }
+
+  /**
+   * Maps an absolute URL to a page key. Pages under the docs base path are keyed
+   * by their path ("/" for the base itself); pages on ALLOWED_ORIGINS are keyed
+   * by their full URL. Anything else is out of bounds and yields null.
+   */
+  private absoluteUrlToPath(url: string): string | null {
+    try {
+      const entryUrl = new URL(url);
+      const base = new URL(this.baseUrl);
+      
+      if (entryUrl.origin === base.origin) {
+        if (!this.isUnderPrefix(entryUrl.pathname, base.pathname)) return null;
+        if (entryUrl.pathname.replace(/\/$/, '') === base.pathname.replace(/\/$/, '')) return '/';
+        return this.normalizePath(entryUrl.pathname);
+      }
+      
+      const allowed = gitBookConfig.allowedOrigins.some(prefix => {
+        const prefixUrl = new URL(prefix);
+        return prefixUrl.origin === entryUrl.origin && this.isUnderPrefix(entryUrl.pathname, prefixUrl.pathname);
+      });
+      if (!allowed || this.isStaticAsset(entryUrl.pathname)) return null;
+      
+      return `${entryUrl.origin}${entryUrl.pathname.replace(/(.)\/+$/, '$1')}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Picks the key a page is stored under: its <link rel="canonical"> when that
+   * points inside the crawl, else the URL any redirects landed on, else the
+   * requested path.
+   */
+  private resolveCanonicalPath($: cheerio.CheerioAPI, requestedPath: string, finalUrl: string): string {
+    const canonicalHref = $('link[rel~="canonical"]').first().attr('href');
+    if (canonicalHref) {
+      try {
+        const canonicalPath = this.absoluteUrlToPath(new URL(canonicalHref, finalUrl).toString());
+        // Some sites point every page's canonical at the home page; that would collapse the index
+        if (canonicalPath && (canonicalPath !== '/' || requestedPath === '/')) {
+          return canonicalPath;
+        }
+      } catch {
+        // Malformed canonical URL, fall back to the response URL
+      }
+    }
+    
+    return this.absoluteUrlToPath(finalUrl) || requestedPath;
+  }
+
+  private addAlias(alias: string, canonical: string): void {
+    this.aliases.set(alias, canonical);
+    this.aliases.delete(canonical);
+    
+    // Keep aliases a single hop from their page
+    for (const [from, to] of this.aliases) {
+      if (to === alias) {
+        this.aliases.set(from, canonical);
+      }
+    }
+    
+    // A copy cached under the old key is superseded by the canonical one
+    delete this.content[alias];
+  }
+
+  private isUnderPrefix(pathname: string, prefix: string): boolean {
+    const cleanPrefix = prefix.replace(/\/$/, '');
+    return !cleanPrefix || pathname === cleanPrefix || pathname.startsWith(`${cleanPrefix}/`);
+  }
+
+  private getAllowedOrigins(): string[] {
+    return gitBookConfig.allowedOrigins.map(prefix => new URL(prefix).origin);
+  }
+
+  // Pages from ALLOWED_ORIGINS are keyed by absolute URL; sections come from the path part
+  private keyPathname(path: string): string {
+    return /^https?:\/\//.test(path) ? new URL(path).pathname : path;
+  }
+
+  private admitPath(path: string, depth: number): boolean {
+    if (this.discoveredUrls.has(path) || this.scopeRejections.has(path)) {
+      return false;
+    }
+    
+    const decision = this.scope.check(path, depth, this.discoveredUrls.size);
+    if (!decision.allowed) {
+      this.scopeRejections.set(path, decision.reason!);
+      return false;
+    }
+    
+    this.discoveredUrls.add(path);
+    this.urlDepths.set(path, depth);
+    // Saved with the next frontier flush, so a crawl stopped mid-discovery keeps its queue
+    if (this.isFrontierActive() && !this.frontier.has(path)) {
+      this.setFrontierState(path, 'queued');
+    }
+    return true;
+  }
+
+  /**
+   * Scrapes a page as it is discovered, so the scraping phase doesn't fetch it
+   * again. Pages already held (from llms-full.txt, or fetched before an
+   * interrupted crawl) aren't fetched; their links come from their markdown.
+   */
+  private async discoverPage(path: string): Promise<string[]> {
+    const known = this.content[this.aliases.get(path) ?? path];
+    if (known) {
+      return this.markdownLinks(known);
     }
+    // Ruled out by an interrupted crawl: nothing to follow
+    if (this.frontier.get(path)?.state === 'skipped') return [];
+    
+    return this.scrapePageSafe(path);
+  }
+
+  private markdownLinks(page: GitBookPage): string[] {
+    const links = extractMarkdownLinks(page.markdown)
+      .map(href => this.resolveLink(href, page.url))
+      .filter((path): path is string => path !== null);
+    return [...new Set(links)];
   }
 
   private async scrapePathsParallel(paths: string[], forceUpdate: boolean = false): Promise<void> {
     console.log(`🚀 ENTERED scrapePathsParallel function with ${paths.length} paths`);
     
-    const batchSize = gitBookConfig.maxConcurrentRequests;
     let processed = 0;
     let successful = 0;
+    const progressInterval = Math.max(1, Math.ceil(paths.length / 20));
     
-    console.log(`🚀 Starting parallel scraping of ${paths.length} pages with batch size ${batchSize}...`);
+    console.log(`🚀 Starting parallel scraping of ${paths.length} pages (up to ${gitBookConfig.maxConcurrentRequests} concurrent requests per host)...`);
     
-    for (let i = 0; i < paths.length; i += batchSize) {
-      const batch = paths.slice(i, i + batchSize);
+    // Everything is queued at once; the host limiter decides how many run
+    await Promise.allSettled(paths.map(async path => {
+      await this.scrapePageSafe(path, forceUpdate);
       
-      // Show progress more frequently to ensure visibility
-      const currentBatch = Math.floor(i / batchSize) + 1;
-      const totalBatches = Math.ceil(paths.length / batchSize);
-      if (currentBatch % 5 === 0 || currentBatch === 1 || currentBatch === totalBatches) {
-        console.log(`🔄 Processing batch ${currentBatch}/${totalBatches} (${batch.length} pages) - ${processed}/${paths.length} completed`);
+      processed++;
+      if (!this.failedPages.has(path)) {
+        successful++;
       }
-      
-      // Process batch in parallel
-      const promises = batch.map(path => this.scrapePageSafe(path, forceUpdate));
-      const results = await Promise.allSettled(promises);
-      
-      // Count successful results
-      results.forEach(result => {
-        processed++;
-        if (result.status === 'fulfilled') {
-          successful++;
-        }
-      });
-      
-      // Delay between batches
-      if (i + batchSize < paths.length) {
-        await this.delay(gitBookConfig.scrapingDelayMs);
+      if (processed % progressInterval === 0 || processed === paths.length) {
+        console.log(`🔄 Progress: ${processed}/${paths.length} pages processed`);
       }
-    }
+    }));
     
     console.log(`\n✅ Parallel processing complete: ${successful}/${processed} pages successful`);
   }
 
-  private async scrapePageSafe(path: string, forceUpdate: boolean = false): Promise<void> {
+  // Scrapes a page, recording failures instead of throwing; resolves to the page's links
+  private async scrapePageSafe(path: string, forceUpdate: boolean = false): Promise<string[]> {
+    let links: string[] = [];
     try {
-      await this.scrapePageWithRetry(path, forceUpdate);
+      links = await this.scrapePageWithRetry(path, forceUpdate);
     } catch (error) {
+      // Pages cut off by an abort aren't failures; the next crawl picks them up
+      if (this.isCrawlAborted()) return [];
       this.handlePageFailure(path, error);
     }
+    
+    await this.trackFrontier(path, this.failedPages.has(path) ? 'failed' : undefined);
+    return links;
   }
 
-  private async scrapePageWithRetry(path: string, forceUpdate: boolean = false, retryCount: number = 0): Promise<void> {
+  private async scrapePageWithRetry(path: string, forceUpdate: boolean = false, retryCount: number = 0): Promise<string[]> {
     try {
-      await this.scrapePage(path, forceUpdate);
+      const links = await this.scrapePage(path, forceUpdate);
       
       // Success - remove from failed pages if it was there
       this.failedPages.delete(path);
+      return links;
       
     } catch (error) {
-      if (retryCount < gitBookConfig.maxRetries) {
-        const delay = Math.min(1000 * Math.pow(2, retryCount), 10000); // Exponential backoff, max 10s
+      if (retryCount < gitBookConfig.maxRetries && !this.isCrawlAborted()) {
+        const backoff = Math.min(1000 * Math.pow(2, retryCount), 10000); // Exponential backoff, max 10s
+        // Never retry sooner than the server's Retry-After asked for
+        const delay = error instanceof RetryableFetchError && error.retryAfterMs !== undefined
+          ? Math.max(backoff, error.retryAfterMs)
+          : backoff;
         
         if (gitBookConfig.debug) {
           console.log(`Retrying ${path} in ${delay}ms (attempt ${retryCount + 1}/${gitBookConfig.maxRetries})`);
@@ -936,27 +2190,13 @@ export class GitBookScraper {
   }
 
   private async retryFailedPages(): Promise<void> {
-    if (this.retryQueue.length === 0) return;
+    if (this.retryQueue.length === 0 || this.isCrawlAborted()) return;
     
     console.log(`Retrying ${this.retryQueue.length} failed pages...`);
     
-    // Process failed pages with reduced concurrency to be more conservative
-    const retryBatchSize = Math.max(1, Math.floor(gitBookConfig.maxConcurrentRequests / 2));
-    
-    for (let i = 0; i < this.retryQueue.length; i += retryBatchSize) {
-      const batch = this.retryQueue.slice(i, i + retryBatchSize);
-      
-      const currentRetryBatch = Math.floor(i / retryBatchSize) + 1;
-      console.log(`🔄 Retry batch ${currentRetryBatch}/${Math.ceil(this.retryQueue.length / retryBatchSize)} (${batch.length} pages)`);
-      
-      const promises = batch.map(path => this.scrapePageSafe(path, true));
-      await Promise.allSettled(promises);
-      
-      // Longer delay between retry batches
-      if (i + retryBatchSize < this.retryQueue.length) {
-        await this.delay(gitBookConfig.scrapingDelayMs * 2);
-      }
-    }
+    // Throttled hosts have already shrunk their limit, so no extra batching here
+    const retries = [...this.retryQueue];
+    await Promise.allSettled(retries.map(path => this.scrapePageSafe(path, true)));
     
     // Clear retry queue after processing
     if (this.retryQueue.length > 0) {
@@ -972,6 +2212,98 @@ export class GitBookScraper {
     return { failedPages, totalRetries };
   }
 
+  getCrawlReport(): CrawlReport {
+    return {
+      robotsSkipped: Array.from(this.robotsSkipped),
+      crawlDelayMs: this.crawlDelayMs,
+      scopeRejected: Array.from(this.scopeRejections, ([path, reason]) => ({ path, reason })),
+      pagesRevalidated: this.pagesRevalidated,
+      notModified: this.notModifiedCount,
+      removed: Array.from(this.removedPages, ([path, reason]) => ({ path, reason })),
+      fullCrawl: this.fullCrawl,
+      authFailures: Array.from(this.authFailures, ([url, reason]) => ({ url, reason })),
+      throttled: this.throttledResponses,
+      aborted: this.abortReason,
+      resumed: this.resumed
+    };
+  }
+
+  private isPdf(path: string, contentType: string): boolean {
+    return gitBookConfig.indexPdfs && (contentType.includes('application/pdf') || PDF_PATH.test(path));
+  }
+
+  // Downloads and extracts a PDF; null (with a log line) when it is too large or unreadable
+  private async readPdf(url: string, response: Response): Promise<PdfText | null> {
+    const maxBytes = gitBookConfig.pdfMaxSizeMb * 1024 * 1024;
+    if (parseInt(response.headers.get('content-length') || '0', 10) > maxBytes) {
+      await response.body?.cancel();
+      console.log(`Skipping ${url}: PDF larger than ${gitBookConfig.pdfMaxSizeMb} MB`);
+      return null;
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (buffer.length > maxBytes) {
+      console.log(`Skipping ${url}: PDF larger than ${gitBookConfig.pdfMaxSizeMb} MB`);
+      return null;
+    }
+
+    let pdf: PdfText;
+    try {
+      pdf = await extractPdfText(buffer);
+    } catch (error) {
+      console.log(`Skipping ${url}: cannot read PDF (${error instanceof Error ? error.message : String(error)})`);
+      return null;
+    }
+    if (!pdf.pages.some(page => page.text)) {
+      console.log(`Skipping ${url}: PDF has no extractable text`);
+      return null;
+    }
+    return pdf;
+  }
+
+  /**
+   * One page holds the whole PDF. Its PDF pages are joined in order and
+   * pdfPages records where each starts, so search hits can cite a page.
+   */
+  private buildPdfPage(pagePath: string, url: string, pdf: PdfText, response: Response): GitBookPage {
+    const pdfPages: number[] = [];
+    let content = '';
+    for (const page of pdf.pages) {
+      if (pdfPages.length > 0) content += '\n\n';
+      pdfPages.push(content.length);
+      content += page.text;
+    }
+
+    const fileName = decodeURIComponent(path.posix.basename(pagePath)).replace(PDF_PATH, '');
+    const title = pdf.title || pdf.pages.find(page => page.headings.length > 0)?.headings[0] || fileName;
+    const markdown = pdf.pages.map(page => `<!-- Page ${page.number} -->\n\n${page.markdown}`).join('\n\n');
+    const section = this.extractSection(pagePath);
+    const locale = PageLocales.fromPath(pagePath);
+
+    return {
+      path: pagePath,
+      title,
+      content,
+      rawHtml: '',
+      markdown,
+      codeBlocks: [],
+      section,
+      url,
+      lastUpdated: new Date(),
+      contentHash: this.calculateHash(content + title),
+      lastChecked: new Date(),
+      searchableText: this.textProcessor.createSearchableText(title, content, section, undefined, locale),
+      sitemapLastmod: this.sitemapLastmod.get(pagePath),
+      source: 'html',
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      version: DocVersions.fromPath(pagePath),
+      locale,
+      contentType: 'pdf',
+      pdfPages
+    };
+  }
+
   private calculateHash(content: string): string {
     return createHash('sha256').update(content).digest('hex');
   }
@@ -1020,7 +2352,12 @@ export class GitBookScraper {
   }
 
   getPage(path: string): GitBookPage | undefined {
-    return this.content[path];
+    const canonical = this.aliases.get(path);
+    return this.content[path] || (canonical ? this.content[canonical] : undefined);
+  }
+
+  getAliases(): Record<string, string> {
+    return Object.fromEntries(this.aliases);
   }
 
   searchContent(query: string): GitBookPage[] {
@@ -0,0 +1,162 @@
+import * as cheerio from 'cheerio';
+
+export type SitePlatform = 'docusaurus' | 'mkdocs' | 'sphinx' | 'mintlify' | 'gitbook' | 'generic';
+
+export interface SiteProfile {
+  platform: SitePlatform;
+  generatorPattern?: RegExp;   // Matched against <meta name="generator">
+  markers: string[];           // Any match identifies the platform
+  contentSelectors: string[];  // Main content area, most specific first
+  removeSelectors: string[];   // Chrome inside the content area (edit links, pagination, ...)
+  navigationSelectors: string[];
+  titleSelectors: string[];    // Tried before <title>, which often carries a site suffix
+  breadcrumbSelectors: string[];
+}
+
+const GENERIC_PROFILE: SiteProfile = {
+  platform: 'generic',
+  markers: [],
+  contentSelectors: ['main', '.content', '.page-content', 'article', '.markdown-body'],
+  removeSelectors: ['.breadcrumb'],
+  navigationSelectors: ['nav', '.navigation', '.sidebar', '.toc'],
+  titleSelectors: [],
+  breadcrumbSelectors: ['.breadcrumb li', 'nav[aria-label="breadcrumb" i] li']
+};
+
+const PROFILES: SiteProfile[] = [
+  {
+    platform: 'docusaurus',
+    generatorPattern: /docusaurus/i,
+    markers: ['#__docusaurus', '.theme-doc-markdown', '.docusaurus-highlight-code-line'],
+    contentSelectors: ['.theme-doc-markdown', 'article .markdown', 'article'],
+    removeSelectors: [
+      '.theme-doc-breadcrumbs', '.theme-doc-footer', '.theme-edit-this-page', '.theme-last-updated',
+      '.theme-doc-toc-mobile', '.theme-doc-version-badge', '.pagination-nav', '.hash-link'
+    ],
+    navigationSelectors: ['.theme-doc-sidebar-container', 'nav.menu', '.table-of-contents'],
+    titleSelectors: ['.theme-doc-markdown h1', 'article h1'],
+    breadcrumbSelectors: ['.theme-doc-breadcrumbs .breadcrumbs__item']
+  },
+  {
+    platform: 'mkdocs',
+    generatorPattern: /mkdocs/i,
+    markers: ['.md-content__inner', '.md-container', 'script[src*="mkdocs"]'],
+    contentSelectors: ['.md-content__inner', 'article.md-content__inner', 'div[role="main"]'],
+    removeSelectors: [
+      '.md-content__button', '.md-source-file', '.md-footer', '.md-feedback', '.headerlink',
+      '.rst-footer-buttons'
+    ],
+    navigationSelectors: ['.md-sidebar', '.md-nav', '.md-tabs', '.wy-menu-vertical', '.bs-sidebar'],
+    titleSelectors: ['.md-content__inner h1', 'div[role="main"] h1'],
+    breadcrumbSelectors: ['.md-path__item', '.wy-breadcrumbs li']
+  },
+  {
+    platform: 'sphinx',
+    generatorPattern: /sphinx|docutils/i,
+    markers: ['.sphinxsidebar', 'script[src*="documentation_options.js"]', '.bd-article', '.wy-nav-content'],
+    contentSelectors: ['[itemprop="articleBody"]', 'article.bd-article', 'div.body[role="main"]', 'div.body'],
+    removeSelectors: ['.headerlink', '.rst-footer-buttons', '.prev-next-area', '.bd-footer-article', '.related'],
+    navigationSelectors: ['.sphinxsidebar', '.wy-menu-vertical', '.bd-sidebar-primary', '.bd-sidebar-secondary', 'nav.bd-docs-nav'],
+    titleSelectors: ['[itemprop="articleBody"] h1', 'article.bd-article h1', 'div.body h1'],
+    breadcrumbSelectors: ['.wy-breadcrumbs li', '.bd-breadcrumbs li']
+  },
+  {
+    platform: 'mintlify',
+    generatorPattern: /mintlify/i,
+    markers: ['#content-area', 'script[src*="mintlify"]', 'link[href*="mintlify"]'],
+    contentSelectors: ['#content-area .prose', '#content-area', '#content'],
+    removeSelectors: ['#pagination', '#footer', '.feedback-toolbar', '[id^="feedback"]'],
+    navigationSelectors: ['#sidebar', '#navigation-items', '#table-of-contents'],
+    titleSelectors: ['#page-title', '#header h1'],
+    breadcrumbSelectors: ['#header .eyebrow', '.eyebrow']
+  },
+  {
+    platform: 'gitbook',
+    generatorPattern: /gitbook/i,
+    markers: ['[data-testid="page.desktopTableOfContents"]', '.gitbook-root', 'link[href*="gitbook.io"]', 'script[src*="gitbook"]'],
+    contentSelectors: ['main .page-body', 'main [data-testid="page.contentEditor"]', 'main'],
+    removeSelectors: [
+      'aside', '.page-footer', '[aria-label="Pagination"]', '[data-testid="page.footer"]',
+      'a[href*="gitbook.com/?utm_"]'
+    ],
+    navigationSelectors: ['[data-testid="page.desktopTableOfContents"]', 'aside[data-testid="table-of-contents"]', 'aside nav'],
+    titleSelectors: ['main header h1', 'main h1'],
+    breadcrumbSelectors: ['nav[aria-label="Breadcrumb" i] li', '[data-testid="page.breadcrumbs"] a']
+  }
+];
+
+/**
+ * Recognises the documentation generator behind a page from its generator meta
+ * tag and DOM markers, and extracts content, titles and breadcrumbs with that
+ * platform's selectors. Unknown sites get the generic selectors.
+ */
+export class SiteProfiles {
+  static readonly generic = GENERIC_PROFILE;
+
+  static detect($: cheerio.CheerioAPI): SiteProfile {
+    const generator = $('meta[name="generator"]').map((_, el) => $(el).attr('content') || '').get().join(' ');
+    if (generator) {
+      const byGenerator = PROFILES.find(profile => profile.generatorPattern?.test(generator));
+      if (byGenerator) return byGenerator;
+    }
+
+    return PROFILES.find(profile => profile.markers.some(marker => $(marker).length > 0)) || GENERIC_PROFILE;
+  }
+
+  static get(platform: SitePlatform): SiteProfile {
+    return PROFILES.find(profile => profile.platform === platform) || GENERIC_PROFILE;
+  }
+
+  /**
+   * The page's main content element, falling back to the generic selectors.
+   * Returns null when nothing matches.
+   */
+  static findContent($: cheerio.CheerioAPI, profile: SiteProfile): cheerio.Cheerio<any> | null {
+    if (profile !== GENERIC_PROFILE) {
+      for (const selector of profile.contentSelectors) {
+        const element = $(selector).filter((_, el) => $(el).text().trim().length > 0).first();
+        if (element.length) return element;
+      }
+    }
+
+    // Generic selectors take the first match in document order
+    const element = $(GENERIC_PROFILE.contentSelectors.join(', ')).first();
+    return element.length ? element : null;
+  }
+
+  // Navigation and page chrome that never belongs in indexed content
+  static chromeSelectors(profile: SiteProfile): string {
+    return [
+      ...GENERIC_PROFILE.navigationSelectors,
+      ...GENERIC_PROFILE.removeSelectors,
+      ...(profile === GENERIC_PROFILE ? [] : [...profile.navigationSelectors, ...profile.removeSelectors])
+    ].join(', ');
+  }
+
+  static extractTitle($: cheerio.CheerioAPI, profile: SiteProfile): string | undefined {
+    for (const selector of profile.titleSelectors) {
+      const title = $(selector).first().text().replace(/\s+/g, ' ').trim();
+      if (title) return title;
+    }
+    return undefined;
+  }
+
+  /**
+   * Breadcrumb labels leading to the page, without the home link and the
+   * page itself.
+   */
+  static extractBreadcrumbs($: cheerio.CheerioAPI, profile: SiteProfile, pageTitle: string): string[] {
+    for (const selector of [...profile.breadcrumbSelectors, ...GENERIC_PROFILE.breadcrumbSelectors]) {
+      const items = $(selector)
+        .map((_, el) => $(el).text().replace(/\s+/g, ' ').trim())
+        .get()
+        .filter(label => label && !/^(home|docs|documentation)$/i.test(label));
+
+      if (items.length > 0) {
+        if (items[items.length - 1] === pageTitle) items.pop();
+        return items;
+      }
+    }
+    return [];
+  }
+}
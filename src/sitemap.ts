@@ -0,0 +1,131 @@
+import * as cheerio from 'cheerio';
+import { gunzip } from 'zlib';
+import { promisify } from 'util';
+import { gitBookConfig } from './config.js';
+
+const gunzipAsync = promisify(gunzip);
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+}
+
+export interface ParsedSitemap {
+  sitemaps: SitemapEntry[]; // Nested sitemaps (from a <sitemapindex>)
+  urls: SitemapEntry[];     // Page entries (from a <urlset>)
+}
+
+export type SitemapFetcher = (url: string) => Promise<Response>;
+
+// Guard against sitemap indexes that reference each other or fan out endlessly
+const MAX_SITEMAPS = 50;
+
+// The sitemap protocol caps a sitemap at 50 MB uncompressed; a .gz that inflates
+// further is malformed or a compression bomb
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export class SitemapParser {
+  private fetcher: SitemapFetcher;
+
+  constructor(fetcher: SitemapFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Collects every page URL published through robots.txt `Sitemap:` entries
+   * and the conventional sitemap.xml locations for the given site.
+   */
+  async discover(siteUrl: string, robotsSitemaps: string[] = []): Promise<SitemapEntry[]> {
+    const site = new URL(siteUrl);
+    const candidates = [...robotsSitemaps];
+
+    // Conventional locations: origin root, plus the docs base path when it differs
+    candidates.push(`${site.origin}/sitemap.xml`);
+    const basePath = site.pathname.replace(/\/$/, '');
+    if (basePath) {
+      candidates.push(`${site.origin}${basePath}/sitemap.xml`);
+    }
+
+    const visited = new Set<string>();
+    const entries = new Map<string, SitemapEntry>();
+
+    for (const candidate of candidates) {
+      await this.collect(candidate, visited, entries);
+    }
+
+    return Array.from(entries.values());
+  }
+
+  private async collect(url: string, visited: Set<string>, entries: Map<string, SitemapEntry>): Promise<void> {
+    if (visited.has(url) || visited.size >= MAX_SITEMAPS) return;
+    visited.add(url);
+
+    let xml: string;
+    try {
+      const response = await this.fetcher(url);
+      if (!response.ok) return;
+      xml = await this.readBody(response);
+    } catch (error) {
+      if (gitBookConfig.debug) {
+        console.log(`Failed to fetch sitemap ${url}:`, error);
+      }
+      return;
+    }
+
+    const parsed = SitemapParser.parse(xml);
+
+    for (const entry of parsed.urls) {
+      entries.set(entry.url, entry);
+    }
+
+    for (const nested of parsed.sitemaps) {
+      await this.collect(nested.url, visited, entries);
+    }
+  }
+
+  private async readBody(response: Response): Promise<string> {
+    const buffer = Buffer.from(await response.arrayBuffer());
+
+    // .xml.gz sitemaps are served as binary; fetch only decodes Content-Encoding
+    if (buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+      const xml = await gunzipAsync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES });
+      return xml.toString('utf-8');
+    }
+
+    return buffer.toString('utf-8');
+  }
+
+  static parse(xml: string): ParsedSitemap {
+    const result: ParsedSitemap = { sitemaps: [], urls: [] };
+
+    // Cheap sanity check so HTML error pages served with 200 are ignored
+    if (!/<(urlset|sitemapindex)[\s>]/i.test(xml)) {
+      return result;
+    }
+
+    const $ = cheerio.load(xml, { xml: true });
+
+    $('sitemapindex > sitemap').each((_, element) => {
+      const entry = SitemapParser.readEntry($, element);
+      if (entry) result.sitemaps.push(entry);
+    });
+
+    $('urlset > url').each((_, element) => {
+      const entry = SitemapParser.readEntry($, element);
+      if (entry) result.urls.push(entry);
+    });
+
+    return result;
+  }
+
+  private static readEntry($: cheerio.CheerioAPI, element: any): SitemapEntry | null {
+    const loc = $(element).children('loc').first().text().trim();
+    if (!loc) return null;
+
+    const lastmod = $(element).children('lastmod').first().text().trim();
+    return {
+      url: loc,
+      lastmod: lastmod || undefined
+    };
+  }
+}
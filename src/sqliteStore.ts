@@ -1,11 +1,32 @@
 import Database from 'better-sqlite3';
-import { GitBookContent, GitBookPage } from './scraper.js';
-import { TextProcessor } from './textProcessor.js';
-import { SearchResult } from './store.js';
+import { GitBookContent, GitBookPage, CrawlStateStore, CrawlFrontier, FrontierEntry, FrontierState } from './scraper.js';
+import { TextProcessor, cjkBigrams, removeCjk } from './textProcessor.js';
+import { TocEntry } from './toc.js';
+import { DocVersions } from './versions.js';
+import { PageLocales } from './locales.js';
+import { SearchResult, PageFilters } from './store.js';
 import { getCacheFilePath } from './config.js';
+import { ApiCatalogStore, ApiCatalogSyncReport, ApiOperation, ApiOperationFilters, ApiOperationRef, ApiOperationSummary, ApiSpec } from './openapi.js';
+import { pdfPageForQuery } from './pdfText.js';
 import path from 'path';
 
-export class SQLiteStore {
+export interface FrontierProgress {
+  total: number;
+  queued: number;
+  fetched: number;
+  failed: number;
+  skipped: number;
+  discoveryComplete: boolean;
+  updatedAt: string | null;
+}
+
+export interface VersionSummary {
+  version: string;
+  pages: number;
+  isDefault: boolean;
+}
+
+export class SQLiteStore implements CrawlStateStore, ApiCatalogStore {
   private db: Database.Database;
   private textProcessor = new TextProcessor();
   private searchCache = new Map<string, SearchResult[]>();
@@ -42,10 +63,54 @@ export class SQLiteStore {
         last_updated INTEGER NOT NULL,
         content_hash TEXT NOT NULL,
         last_checked INTEGER NOT NULL,
-        searchable_text TEXT NOT NULL
+        searchable_text TEXT NOT NULL,
+        sitemap_lastmod TEXT,
+        source TEXT NOT NULL DEFAULT 'html',
+        etag TEXT,
+        last_modified TEXT,
+        miss_count INTEGER NOT NULL DEFAULT 0,
+        version TEXT,
+        locale TEXT,
+        alternates TEXT, -- JSON object: locale -> path
+        last_commit TEXT, -- JSON object: sha, author, date
+        content_type TEXT NOT NULL DEFAULT 'html',
+        pdf_pages TEXT, -- JSON array: offset in content where each PDF page starts
+        images TEXT, -- JSON array: src, alt, caption, title, heading
+        tables TEXT, -- JSON array: caption, heading, headers, rows
+        callouts TEXT, -- JSON array: type, title, text, heading
+        code_examples TEXT -- JSON array: heading, variants (label, language, index in code_blocks)
       )
     `);
 
+    // Columns added after the initial schema; existing databases get them here
+    this.ensureColumn('pages', 'sitemap_lastmod', 'TEXT');
+    this.ensureColumn('pages', 'source', "TEXT NOT NULL DEFAULT 'html'");
+    this.ensureColumn('pages', 'etag', 'TEXT');
+    this.ensureColumn('pages', 'last_modified', 'TEXT');
+    this.ensureColumn('pages', 'miss_count', 'INTEGER NOT NULL DEFAULT 0');
+    this.ensureColumn('pages', 'version', 'TEXT');
+    this.ensureColumn('pages', 'locale', 'TEXT');
+    this.ensureColumn('pages', 'alternates', 'TEXT');
+    this.ensureColumn('pages', 'last_commit', 'TEXT');
+    this.ensureColumn('pages', 'content_type', "TEXT NOT NULL DEFAULT 'html'");
+    this.ensureColumn('pages', 'pdf_pages', 'TEXT');
+    this.ensureColumn('pages', 'images', 'TEXT');
+    this.ensureColumn('pages', 'tables', 'TEXT');
+    this.ensureColumn('pages', 'callouts', 'TEXT');
+    this.ensureColumn('pages', 'code_examples', 'TEXT');
+
+    // FTS5 tables can't gain columns, so an index missing one of the filter columns is rebuilt
+    const rebuildFts = this.tableExists('pages_fts')
+      && ['version', 'locale'].some(column => !this.hasColumn('pages_fts', column));
+    if (rebuildFts) {
+      this.db.exec(`
+        DROP TRIGGER IF EXISTS pages_ai;
+        DROP TRIGGER IF EXISTS pages_ad;
+        DROP TRIGGER IF EXISTS pages_au;
+        DROP TABLE pages_fts;
+      `);
+    }
+
     // Full-text search table
     this.db.exec(`
       CREATE VIRTUAL TABLE IF NOT EXISTS pages_fts USING fts5(
@@ -54,11 +119,108 @@ export class SQLiteStore {
         searchable_text,
         section,
         subsection,
+        version UNINDEXED,
+        locale UNINDEXED,
         content='pages',
         content_rowid='rowid'
       )
     `);
 
+    // Other URLs (redirects, duplicates) that lead to a stored page
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS page_aliases (
+        alias TEXT PRIMARY KEY,
+        path TEXT NOT NULL
+      )
+    `);
+
+    // Per-URL state of an unfinished full crawl; emptied when the crawl completes
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_frontier (
+        path TEXT PRIMARY KEY,
+        state TEXT NOT NULL, -- queued | fetched | failed | skipped
+        depth INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // The site's sidebar hierarchy, one row per entry
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS toc (
+        key TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        path TEXT,
+        parent_key TEXT,
+        position INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+
+    // OpenAPI/Swagger specs and their operations; schemas are stored with $refs inlined
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS api_specs (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        version TEXT,
+        format TEXT NOT NULL,
+        source TEXT NOT NULL UNIQUE,
+        description TEXT,
+        servers TEXT NOT NULL, -- JSON array
+        content_hash TEXT NOT NULL,
+        operation_count INTEGER NOT NULL DEFAULT 0,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS api_operations (
+        spec_id TEXT NOT NULL,
+        operation_id TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        summary TEXT,
+        description TEXT,
+        tags TEXT NOT NULL, -- JSON array
+        deprecated INTEGER NOT NULL DEFAULT 0,
+        parameters TEXT NOT NULL, -- JSON array
+        request_body TEXT, -- JSON object
+        responses TEXT NOT NULL, -- JSON array
+        security TEXT, -- JSON array
+        servers TEXT NOT NULL, -- JSON array
+        PRIMARY KEY (spec_id, method, path)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS api_operations_fts USING fts5(
+        operation_id,
+        method,
+        path,
+        summary,
+        description,
+        tags,
+        content='api_operations',
+        content_rowid='rowid'
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TRIGGER IF NOT EXISTS api_operations_ai AFTER INSERT ON api_operations BEGIN
+        INSERT INTO api_operations_fts(rowid, operation_id, method, path, summary, description, tags)
+        VALUES (new.rowid, new.operation_id, new.method, new.path, new.summary, new.description, new.tags);
+      END;
+      CREATE TRIGGER IF NOT EXISTS api_operations_ad AFTER DELETE ON api_operations BEGIN
+        INSERT INTO api_operations_fts(api_operations_fts, rowid, operation_id, method, path, summary, description, tags)
+        VALUES ('delete', old.rowid, old.operation_id, old.method, old.path, old.summary, old.description, old.tags);
+      END;
+      CREATE TRIGGER IF NOT EXISTS api_operations_au AFTER UPDATE ON api_operations BEGIN
+        INSERT INTO api_operations_fts(api_operations_fts, rowid, operation_id, method, path, summary, description, tags)
+        VALUES ('delete', old.rowid, old.operation_id, old.method, old.path, old.summary, old.description, old.tags);
+        INSERT INTO api_operations_fts(rowid, operation_id, method, path, summary, description, tags)
+        VALUES (new.rowid, new.operation_id, new.method, new.path, new.summary, new.description, new.tags);
+      END
+    `);
+
     // Metadata table for cache info
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS metadata (
@@ -71,26 +233,45 @@ export class SQLiteStore {
     // Create triggers to keep FTS in sync
     this.db.exec(`
       CREATE TRIGGER IF NOT EXISTS pages_ai AFTER INSERT ON pages BEGIN
-        INSERT INTO pages_fts(rowid, path, title, searchable_text, section, subsection)
-        VALUES (new.rowid, new.path, new.title, new.searchable_text, new.section, new.subsection);
+        INSERT INTO pages_fts(rowid, path, title, searchable_text, section, subsection, version, locale)
+        VALUES (new.rowid, new.path, new.title, new.searchable_text, new.section, new.subsection, new.version, new.locale);
       END
     `);
 
     this.db.exec(`
       CREATE TRIGGER IF NOT EXISTS pages_ad AFTER DELETE ON pages BEGIN
-        INSERT INTO pages_fts(pages_fts, rowid, path, title, searchable_text, section, subsection)
-        VALUES ('delete', old.rowid, old.path, old.title, old.searchable_text, old.section, old.subsection);
+        INSERT INTO pages_fts(pages_fts, rowid, path, title, searchable_text, section, subsection, version, locale)
+        VALUES ('delete', old.rowid, old.path, old.title, old.searchable_text, old.section, old.subsection, old.version, old.locale);
       END
     `);
 
     this.db.exec(`
       CREATE TRIGGER IF NOT EXISTS pages_au AFTER UPDATE ON pages BEGIN
-        INSERT INTO pages_fts(pages_fts, rowid, path, title, searchable_text, section, subsection)
-        VALUES ('delete', old.rowid, old.path, old.title, old.searchable_text, old.section, old.subsection);
-        INSERT INTO pages_fts(rowid, path, title, searchable_text, section, subsection)
-        VALUES (new.rowid, new.path, new.title, new.searchable_text, new.section, new.subsection);
+        INSERT INTO pages_fts(pages_fts, rowid, path, title, searchable_text, section, subsection, version, locale)
+        VALUES ('delete', old.rowid, old.path, old.title, old.searchable_text, old.section, old.subsection, old.version, old.locale);
+        INSERT INTO pages_fts(rowid, path, title, searchable_text, section, subsection, version, locale)
+        VALUES (new.rowid, new.path, new.title, new.searchable_text, new.section, new.subsection, new.version, new.locale);
       END
     `);
+
+    if (rebuildFts) {
+      this.db.exec(`INSERT INTO pages_fts(pages_fts) VALUES ('rebuild')`);
+    }
+  }
+
+  private tableExists(table: string): boolean {
+    return Boolean(this.db.prepare(`SELECT 1 FROM sqlite_master WHERE name = ?`).get(table));
+  }
+
+  private hasColumn(table: string, column: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    return columns.some(col => col.name === column);
+  }
+
+  private ensureColumn(table: string, column: string, definition: string): void {
+    if (!this.hasColumn(table, column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
   }
 
   async updateContent(content: GitBookContent): Promise<void> {
@@ -100,14 +281,27 @@ export class SQLiteStore {
       return;
     }
 
+    this.writePages(pages);
+
+    // Update metadata
+    this.setMetadata('last_updated', new Date().toISOString());
+    this.setMetadata('page_count', pages.length.toString());
+    
+    // Clear search cache
+    this.searchCache.clear();
+  }
+
+  private writePages(pages: GitBookPage[]): void {
     // Use transaction for better performance
     const transaction = this.db.transaction((pages: GitBookPage[]) => {
       const insertStmt = this.db.prepare(`
         INSERT OR REPLACE INTO pages (
           path, title, content, raw_html, markdown, code_blocks,
           section, subsection, url, last_updated, content_hash,
-          last_checked, searchable_text
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          last_checked, searchable_text, sitemap_lastmod, source,
+          etag, last_modified, miss_count, version, locale, alternates, last_commit,
+          content_type, pdf_pages, images, tables, callouts, code_examples
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       for (const page of pages) {
@@ -124,32 +318,164 @@ export class SQLiteStore {
           page.lastUpdated instanceof Date ? page.lastUpdated.getTime() : new Date(page.lastUpdated).getTime(),
           page.contentHash,
           page.lastChecked instanceof Date ? page.lastChecked.getTime() : new Date(page.lastChecked).getTime(),
-          page.searchableText
+          page.searchableText,
+          page.sitemapLastmod || null,
+          page.source || 'html',
+          page.etag || null,
+          page.lastModified || null,
+          page.missCount || 0,
+          page.version || null,
+          page.locale || null,
+          page.alternates ? JSON.stringify(page.alternates) : null,
+          page.lastCommit ? JSON.stringify(page.lastCommit) : null,
+          page.contentType || 'html',
+          page.pdfPages ? JSON.stringify(page.pdfPages) : null,
+          page.images ? JSON.stringify(page.images) : null,
+          page.tables ? JSON.stringify(page.tables) : null,
+          page.callouts ? JSON.stringify(page.callouts) : null,
+          page.codeExamples ? JSON.stringify(page.codeExamples) : null
         );
       }
     });
 
     transaction(pages);
+  }
 
-    // Update metadata
-    this.setMetadata('last_updated', new Date().toISOString());
-    this.setMetadata('page_count', pages.length.toString());
-    
-    // Clear search cache
+  async removePages(paths: string[]): Promise<number> {
+    if (paths.length === 0) {
+      return 0;
+    }
+
+    // The pages_ad trigger removes the matching pages_fts rows
+    const transaction = this.db.transaction((paths: string[]) => {
+      const deleteStmt = this.db.prepare(`DELETE FROM pages WHERE path = ?`);
+      let removed = 0;
+      for (const path of paths) {
+        removed += deleteStmt.run(path).changes;
+      }
+      return removed;
+    });
+
+    const removed = transaction(paths);
+
+    this.setMetadata('page_count', String(await this.getPageCount()));
+    this.searchCache.clear();
+
+    return removed;
+  }
+
+  async updateAliases(aliases: Record<string, string>): Promise<void> {
+    const entries = Object.entries(aliases);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const transaction = this.db.transaction((entries: [string, string][]) => {
+      const deletePageStmt = this.db.prepare(`DELETE FROM pages WHERE path = ?`);
+      const deleteAliasStmt = this.db.prepare(`DELETE FROM page_aliases WHERE alias = ?`);
+      const insertStmt = this.db.prepare(`
+        INSERT OR REPLACE INTO page_aliases (alias, path) VALUES (?, ?)
+      `);
+
+      for (const [alias, path] of entries) {
+        // The page now lives under its canonical path
+        deletePageStmt.run(alias);
+        deleteAliasStmt.run(path);
+        insertStmt.run(alias, path);
+      }
+    });
+
+    transaction(entries);
     this.searchCache.clear();
   }
 
-  async getPage(path: string): Promise<GitBookPage | undefined> {
+  async replaceToc(entries: TocEntry[]): Promise<void> {
+    const transaction = this.db.transaction((entries: TocEntry[]) => {
+      this.db.exec(`DELETE FROM toc`);
+      const insertStmt = this.db.prepare(`
+        INSERT INTO toc (key, title, path, parent_key, position) VALUES (?, ?, ?, ?, ?)
+      `);
+      for (const entry of entries) {
+        insertStmt.run(entry.key, entry.title, entry.path ?? null, entry.parentKey ?? null, entry.position);
+      }
+    });
+
+    transaction(entries);
+  }
+
+  async getTocEntries(): Promise<TocEntry[]> {
+    const rows = this.db.prepare(`SELECT key, title, path, parent_key, position FROM toc`).all() as any[];
+    return rows.map(row => ({
+      key: row.key,
+      title: row.title,
+      path: row.path ?? undefined,
+      parentKey: row.parent_key ?? undefined,
+      position: row.position
+    }));
+  }
+
+  /**
+   * Looks a page up by path or alias. With `version`, a page from another
+   * version is swapped for its counterpart in that version; with `locale`,
+   * for the translation its hreflang links point to.
+   */
+  async getPage(path: string, filters: PageFilters = {}): Promise<GitBookPage | undefined> {
     const stmt = this.db.prepare(`
       SELECT * FROM pages WHERE path = ?
     `);
     
-    const row = stmt.get(path) as any;
+    let row = stmt.get(path) as any;
+    if (!row) {
+      const canonical = this.resolveAlias(path);
+      row = canonical ? stmt.get(canonical) : undefined;
+    }
     if (!row) return undefined;
 
+    const { version, locale } = filters;
+    if (!DocVersions.matches(row.version || undefined, version)) {
+      const counterpart = DocVersions.swapVersion(row.path, row.version, version!);
+      row = counterpart ? stmt.get(counterpart) : undefined;
+      if (!row) return undefined;
+    }
+
+    if (locale && !PageLocales.matches(row.locale || undefined, PageLocales.normalize(locale))) {
+      const page = this.rowToPage(row);
+      const translation = Object.entries(page.alternates || {})
+        .find(([alternateLocale]) => PageLocales.matches(alternateLocale, PageLocales.normalize(locale)));
+      return translation ? this.getPage(translation[1], { version }) : undefined;
+    }
+
     return this.rowToPage(row);
   }
 
+  // Old links keep working: full URLs, redirected paths and trailing-slash variants
+  private resolveAlias(path: string): string | null {
+    let candidate = path;
+    if (/^https?:\/\//.test(candidate)) {
+      try {
+        candidate = new URL(candidate).pathname;
+      } catch {
+        return null;
+      }
+    }
+
+    const variants = [candidate];
+    if (candidate.length > 1 && candidate.endsWith('/')) {
+      variants.push(candidate.replace(/\/+$/, ''));
+    } else {
+      variants.push(`${candidate}/`);
+    }
+
+    const aliasStmt = this.db.prepare(`SELECT path FROM page_aliases WHERE alias = ?`);
+    const pageStmt = this.db.prepare(`SELECT path FROM pages WHERE path = ?`);
+    for (const variant of variants) {
+      const row = (aliasStmt.get(variant) || pageStmt.get(variant)) as { path: string } | undefined;
+      if (row) return row.path;
+    }
+
+    return null;
+  }
+
   async getAllPages(): Promise<GitBookPage[]> {
     const stmt = this.db.prepare(`
       SELECT * FROM pages ORDER BY path
@@ -177,27 +503,43 @@ export class SQLiteStore {
     return rows.map(row => row.section);
   }
 
-  async search(query: string, limit: number = 20, offset: number = 0): Promise<SearchResult[]> {
+  /**
+   * Full-text search within one docs version (plus unversioned pages).
+   * `version` defaults to the default version; 'all' searches every version.
+   * `locale` keeps pages in that language ("pt" also matches "pt-BR").
+   */
+  async search(query: string, limit: number = 20, offset: number = 0, filters: PageFilters = {}): Promise<SearchResult[]> {
+    const versionFilter = this.resolveVersion(filters.version);
+    const localeFilter = PageLocales.normalize(filters.locale);
+
     // Check cache first (only cache first page results)
-    const cacheKey = `${query}:${limit}:${offset}`;
+    const cacheKey = `${query}:${limit}:${offset}:${versionFilter ?? ''}:${localeFilter ?? ''}`;
     if (this.searchCache.has(cacheKey)) {
       const cached = this.searchCache.get(cacheKey)!;
       return cached;
     }
 
     // Use FTS5 for fast search
-    const searchQuery = query.split(' ').map(term => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+    const searchQuery = this.buildMatchQuery(query, { locale: this.queryLocale(localeFilter) });
+    if (!searchQuery) return [];
     
     const stmt = this.db.prepare(`
       SELECT pages.*, pages_fts.rank 
       FROM pages_fts 
       JOIN pages ON pages.rowid = pages_fts.rowid
       WHERE pages_fts MATCH ?
+        AND (? IS NULL OR pages.version IS NULL OR pages.version = ?)
+        AND (? IS NULL OR pages.locale = ? OR pages.locale LIKE ? || '-%')
       ORDER BY pages_fts.rank
       LIMIT ? OFFSET ?
     `);
 
-    const rows = stmt.all(searchQuery, limit, offset) as any[];
+    const rows = stmt.all(
+      searchQuery,
+      versionFilter ?? null, versionFilter ?? null,
+      localeFilter ?? null, localeFilter ?? null, localeFilter ?? null,
+      limit, offset
+    ) as any[];
     
     const results: SearchResult[] = rows.map(row => {
       const page = this.rowToPage(row);
@@ -207,6 +549,7 @@ export class SQLiteStore {
         page,
         score: 1 - (row.rank || 0), // Convert rank to score
         snippet,
+        pdfPage: pdfPageForQuery(page, query),
         matches: [] // FTS5 doesn't provide detailed match info
       };
     });
@@ -261,7 +604,22 @@ export class SQLiteStore {
       lastUpdated: new Date(row.last_updated),
       contentHash: row.content_hash,
       lastChecked: new Date(row.last_checked),
-      searchableText: row.searchable_text
+      searchableText: row.searchable_text,
+      sitemapLastmod: row.sitemap_lastmod || undefined,
+      source: row.source || 'html',
+      etag: row.etag || undefined,
+      lastModified: row.last_modified || undefined,
+      missCount: row.miss_count || undefined,
+      version: row.version || undefined,
+      locale: row.locale || undefined,
+      alternates: row.alternates ? JSON.parse(row.alternates) : undefined,
+      lastCommit: row.last_commit ? JSON.parse(row.last_commit) : undefined,
+      contentType: row.content_type || 'html',
+      pdfPages: row.pdf_pages ? JSON.parse(row.pdf_pages) : undefined,
+      images: row.images ? JSON.parse(row.images) : undefined,
+      tables: row.tables ? JSON.parse(row.tables) : undefined,
+      callouts: row.callouts ? JSON.parse(row.callouts) : undefined,
+      codeExamples: row.code_examples ? JSON.parse(row.code_examples) : undefined
     };
   }
 
@@ -291,8 +649,8 @@ export class SQLiteStore {
   }
 
   // Legacy methods for compatibility with ContentStore interface
-  async searchContent(query: string, limit?: number, offset?: number): Promise<any[]> {
-    const results = await this.search(query, limit, offset);
+  async searchContent(query: string, limit?: number, offset?: number, filters: PageFilters = {}): Promise<any[]> {
+    const results = await this.search(query, limit, offset, filters);
     return results.map(r => ({
       page: {
         path: r.page.path,
@@ -303,27 +661,105 @@ export class SQLiteStore {
         url: r.page.url,
         lastUpdated: r.page.lastUpdated,
         lastChecked: r.page.lastChecked,
-        codeBlocks: r.page.codeBlocks
+        codeBlocks: r.page.codeBlocks,
+        version: r.page.version,
+        locale: r.page.locale,
+        alternates: r.page.alternates,
+        contentType: r.page.contentType
         // Removed: duplicate content fields, rawHtml (massive), contentHash (internal), searchableText (internal)
       },
       snippet: r.snippet,
+      pdfPage: r.pdfPage,
       score: r.score
     }));
   }
   
-  async searchContentCount(query: string): Promise<number> {
-    const searchQuery = query.split(' ').map(term => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+  async searchContentCount(query: string, filters: PageFilters = {}): Promise<number> {
+    const versionFilter = this.resolveVersion(filters.version);
+    const localeFilter = PageLocales.normalize(filters.locale);
+    const searchQuery = this.buildMatchQuery(query, { locale: this.queryLocale(localeFilter) });
+    if (!searchQuery) return 0;
     
     const stmt = this.db.prepare(`
       SELECT COUNT(*) as count
       FROM pages_fts 
+      JOIN pages ON pages.rowid = pages_fts.rowid
       WHERE pages_fts MATCH ?
+        AND (? IS NULL OR pages.version IS NULL OR pages.version = ?)
+        AND (? IS NULL OR pages.locale = ? OR pages.locale LIKE ? || '-%')
     `);
     
-    const result = stmt.get(searchQuery) as { count: number };
+    const result = stmt.get(
+      searchQuery,
+      versionFilter ?? null, versionFilter ?? null,
+      localeFilter ?? null, localeFilter ?? null, localeFilter ?? null
+    ) as { count: number };
+    return result.count;
+  }
+
+  /**
+   * FTS5 query matching any of the terms. With `stemming`, a term also matches
+   * its stem in that locale, since searchable_text is indexed stemmed. CJK
+   * terms are indexed as bigrams, so they match when all of their bigrams
+   * occur in the page.
+   */
+  private buildMatchQuery(query: string, stemming?: { locale?: string }): string {
+    const quote = (term: string) => `"${term.replace(/"/g, '""')}"`;
+    return query.split(/\s+/).filter(Boolean).map(term => {
+      const bigrams = cjkBigrams(term);
+      if (bigrams.length === 0) {
+        const stems = stemming ? this.textProcessor.processText(term, stemming.locale) : [];
+        if (stems.length === 0 || (stems.length === 1 && stems[0] === term.toLowerCase())) return quote(term);
+        const stemmed = stems.length === 1 ? quote(stems[0]) : `(${stems.map(quote).join(' AND ')})`;
+        return `(${quote(term)} OR ${stemmed})`;
+      }
+      const rest = removeCjk(term).trim();
+      const parts = [...bigrams, ...(rest ? rest.split(/\s+/) : [])].map(quote);
+      return parts.length === 1 ? parts[0] : `(${parts.join(' AND ')})`;
+    }).join(' OR ');
+  }
+
+  // Language query terms are stemmed in: the requested locale, else the index's only
+  // language; pages without a locale were stemmed with the English rules
+  private queryLocale(localeFilter?: string): string | undefined {
+    if (localeFilter) return localeFilter;
+    const rows = this.db.prepare(`SELECT DISTINCT locale FROM pages`).all() as { locale: string | null }[];
+    return rows.length === 1 ? rows[0].locale ?? undefined : undefined;
+  }
+
+  // Locales present in the index with their page counts
+  async listLocales(): Promise<{ locale: string; pages: number }[]> {
+    return this.db.prepare(`
+      SELECT locale, COUNT(*) as pages FROM pages WHERE locale IS NOT NULL GROUP BY locale ORDER BY pages DESC
+    `).all() as { locale: string; pages: number }[];
+  }
+
+  // Versions present in the index, newest release first, with the default flagged
+  async listVersions(): Promise<VersionSummary[]> {
+    const rows = this.db.prepare(`
+      SELECT version, COUNT(*) as pages FROM pages WHERE version IS NOT NULL GROUP BY version
+    `).all() as { version: string; pages: number }[];
+
+    const defaultVersion = DocVersions.pickDefault(rows.map(row => row.version));
+    return rows
+      .sort((a, b) => DocVersions.compare(b.version, a.version))
+      .map(row => ({ version: row.version, pages: row.pages, isDefault: row.version === defaultVersion }));
+  }
+
+  async getUnversionedPageCount(): Promise<number> {
+    const result = this.db.prepare(`SELECT COUNT(*) as count FROM pages WHERE version IS NULL`).get() as { count: number };
     return result.count;
   }
 
+  // Undefined means "the default version"; 'all' lifts the filter
+  private resolveVersion(version?: string): string | undefined {
+    if (version === 'all') return undefined;
+    if (version) return version;
+
+    const versions = this.db.prepare(`SELECT DISTINCT version FROM pages WHERE version IS NOT NULL`).all() as { version: string }[];
+    return DocVersions.pickDefault(versions.map(row => row.version));
+  }
+
   async listSections(): Promise<string[]> {
     return this.getSections();
   }
@@ -361,11 +797,288 @@ export class SQLiteStore {
         await this.updateContent(cached.content);
         console.error(`Migrated ${Object.keys(cached.content).length} pages from JSON cache to SQLite`);
       }
+      if (cached.aliases) {
+        await this.updateAliases(cached.aliases);
+      }
     } catch (error) {
       // Ignore if JSON cache doesn't exist
     }
   }
 
+  // Crawl frontier persistence, so an interrupted full crawl can resume
+  async loadFrontier(): Promise<CrawlFrontier> {
+    const rows = this.db.prepare(`SELECT path, state, depth, error FROM crawl_frontier`).all() as any[];
+    return {
+      entries: rows.map(row => ({
+        path: row.path,
+        state: row.state as FrontierState,
+        depth: row.depth,
+        error: row.error || undefined
+      })),
+      discoveryComplete: this.getMetadata('frontier_discovery_complete') === 'true'
+    };
+  }
+
+  async saveFrontier(entries: FrontierEntry[], discoveryComplete?: boolean): Promise<void> {
+    const transaction = this.db.transaction((entries: FrontierEntry[]) => {
+      const upsertStmt = this.db.prepare(`
+        INSERT OR REPLACE INTO crawl_frontier (path, state, depth, error, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+      const now = Date.now();
+      for (const entry of entries) {
+        upsertStmt.run(entry.path, entry.state, entry.depth, entry.error || null, now);
+      }
+    });
+
+    transaction(entries);
+
+    if (discoveryComplete !== undefined) {
+      this.setMetadata('frontier_discovery_complete', String(discoveryComplete));
+    }
+  }
+
+  async clearFrontier(): Promise<void> {
+    this.db.exec(`DELETE FROM crawl_frontier`);
+    this.setMetadata('frontier_discovery_complete', 'false');
+  }
+
+  // Pages of an unfinished crawl become searchable right away, but don't count as a finished update
+  async checkpointPages(pages: GitBookPage[]): Promise<void> {
+    if (pages.length === 0) {
+      return;
+    }
+
+    this.writePages(pages);
+    this.setMetadata('page_count', String(await this.getPageCount()));
+    this.searchCache.clear();
+  }
+
+  async loadPages(paths: string[]): Promise<GitBookContent> {
+    const stmt = this.db.prepare(`SELECT * FROM pages WHERE path = ?`);
+    const content: GitBookContent = {};
+    for (const path of paths) {
+      const row = stmt.get(path);
+      if (row) {
+        content[path] = this.rowToPage(row);
+      }
+    }
+    return content;
+  }
+
+  getFrontierProgress(): FrontierProgress | null {
+    const rows = this.db.prepare(`
+      SELECT state, COUNT(*) as count, MAX(updated_at) as updated_at FROM crawl_frontier GROUP BY state
+    `).all() as { state: FrontierState; count: number; updated_at: number }[];
+    
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const progress: FrontierProgress = {
+      total: 0,
+      queued: 0,
+      fetched: 0,
+      failed: 0,
+      skipped: 0,
+      discoveryComplete: this.getMetadata('frontier_discovery_complete') === 'true',
+      updatedAt: null
+    };
+    let updatedAt = 0;
+    for (const row of rows) {
+      progress[row.state] = row.count;
+      progress.total += row.count;
+      updatedAt = Math.max(updatedAt, row.updated_at);
+    }
+    progress.updatedAt = new Date(updatedAt).toISOString();
+    return progress;
+  }
+
+  // Documentation platform the site was generated with (docusaurus, mkdocs, ...)
+  setPlatform(platform: string): void {
+    this.setMetadata('platform', platform);
+  }
+
+  getPlatform(): string | null {
+    return this.getMetadata('platform');
+  }
+
+  // Commit of the git repository the index was last read from
+  setSourceCommit(commit: string): void {
+    this.setMetadata('source_commit', commit);
+  }
+
+  getSourceCommit(): string | null {
+    return this.getMetadata('source_commit');
+  }
+
+  // Outcome of the last OpenAPI catalog sync, shown by the status tools
+  setApiCatalogReport(report: ApiCatalogSyncReport): void {
+    this.setMetadata('api_catalog_report', JSON.stringify(report));
+  }
+
+  getApiCatalogReport(): ApiCatalogSyncReport | null {
+    const report = this.getMetadata('api_catalog_report');
+    return report ? JSON.parse(report) : null;
+  }
+
+  async listApiSpecs(): Promise<ApiSpec[]> {
+    const rows = this.db.prepare(`SELECT * FROM api_specs ORDER BY title`).all() as any[];
+    return rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      version: row.version ?? undefined,
+      format: row.format,
+      source: row.source,
+      description: row.description ?? undefined,
+      servers: JSON.parse(row.servers),
+      contentHash: row.content_hash,
+      operationCount: row.operation_count
+    }));
+  }
+
+  // Stores a spec and its operations, replacing whatever was stored for its id
+  async replaceApiSpec(spec: ApiSpec, operations: ApiOperation[]): Promise<void> {
+    const transaction = this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM api_operations WHERE spec_id = ?`).run(spec.id);
+      this.db.prepare(`DELETE FROM api_specs WHERE id = ? OR source = ?`).run(spec.id, spec.source);
+      this.db.prepare(`
+        INSERT INTO api_specs (id, title, version, format, source, description, servers, content_hash, operation_count, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        spec.id, spec.title, spec.version ?? null, spec.format, spec.source, spec.description ?? null,
+        JSON.stringify(spec.servers), spec.contentHash, spec.operationCount, Date.now()
+      );
+
+      // A spec may list the same method and path twice; the first one wins
+      const insertStmt = this.db.prepare(`
+        INSERT OR IGNORE INTO api_operations (
+          spec_id, operation_id, method, path, summary, description, tags, deprecated,
+          parameters, request_body, responses, security, servers
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const operation of operations) {
+        insertStmt.run(
+          spec.id, operation.operationId, operation.method, operation.path,
+          operation.summary ?? null, operation.description ?? null, JSON.stringify(operation.tags),
+          operation.deprecated ? 1 : 0, JSON.stringify(operation.parameters),
+          operation.requestBody ? JSON.stringify(operation.requestBody) : null,
+          JSON.stringify(operation.responses),
+          operation.security ? JSON.stringify(operation.security) : null,
+          JSON.stringify(operation.servers)
+        );
+      }
+    });
+
+    transaction();
+  }
+
+  async removeApiSpecs(ids: string[]): Promise<void> {
+    const transaction = this.db.transaction((ids: string[]) => {
+      for (const id of ids) {
+        this.db.prepare(`DELETE FROM api_operations WHERE spec_id = ?`).run(id);
+        this.db.prepare(`DELETE FROM api_specs WHERE id = ?`).run(id);
+      }
+    });
+
+    transaction(ids);
+  }
+
+  async listApiOperations(filters: ApiOperationFilters = {}, limit: number = 50, offset: number = 0): Promise<{ operations: ApiOperationSummary[]; total: number }> {
+    const [where, params] = this.apiOperationFilter(filters);
+    const total = (this.db.prepare(`SELECT COUNT(*) as count FROM api_operations WHERE ${where}`).get(...params) as { count: number }).count;
+    const rows = this.db.prepare(`
+      SELECT spec_id, operation_id, method, path, summary, tags, deprecated
+      FROM api_operations
+      WHERE ${where}
+      ORDER BY spec_id, path, method
+      LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as any[];
+
+    return {
+      operations: rows.map(row => ({
+        specId: row.spec_id,
+        operationId: row.operation_id,
+        method: row.method,
+        path: row.path,
+        summary: row.summary ?? undefined,
+        tags: JSON.parse(row.tags),
+        deprecated: row.deprecated === 1
+      })),
+      total
+    };
+  }
+
+  async searchApiOperations(query: string, filters: ApiOperationFilters = {}, limit: number = 10): Promise<ApiOperation[]> {
+    const searchQuery = this.buildMatchQuery(query);
+    if (!searchQuery) return [];
+    const [where, params] = this.apiOperationFilter(filters);
+
+    const rows = this.db.prepare(`
+      SELECT api_operations.*
+      FROM api_operations_fts
+      JOIN api_operations ON api_operations.rowid = api_operations_fts.rowid
+      WHERE api_operations_fts MATCH ? AND ${where}
+      ORDER BY api_operations_fts.rank
+      LIMIT ?
+    `).all(searchQuery, ...params, limit) as any[];
+    return rows.map(row => this.rowToApiOperation(row));
+  }
+
+  // Operations matching an operationId or a method and path; several when specs share them
+  async findApiOperations(ref: ApiOperationRef): Promise<ApiOperation[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM api_operations
+      WHERE (? IS NULL OR spec_id = ?)
+        AND (? IS NULL OR operation_id = ?)
+        AND (? IS NULL OR method = ?)
+        AND (? IS NULL OR path = ?)
+      ORDER BY spec_id
+    `).all(
+      ref.spec ?? null, ref.spec ?? null,
+      ref.operationId ?? null, ref.operationId ?? null,
+      ref.method?.toUpperCase() ?? null, ref.method?.toUpperCase() ?? null,
+      ref.path ?? null, ref.path ?? null
+    ) as any[];
+    return rows.map(row => this.rowToApiOperation(row));
+  }
+
+  private apiOperationFilter(filters: ApiOperationFilters): [string, unknown[]] {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (filters.spec) {
+      clauses.push('api_operations.spec_id = ?');
+      params.push(filters.spec);
+    }
+    if (filters.method) {
+      clauses.push('api_operations.method = ?');
+      params.push(filters.method.toUpperCase());
+    }
+    if (filters.tag) {
+      clauses.push('EXISTS (SELECT 1 FROM json_each(api_operations.tags) WHERE lower(json_each.value) = lower(?))');
+      params.push(filters.tag);
+    }
+    return [clauses.length > 0 ? clauses.join(' AND ') : '1 = 1', params];
+  }
+
+  private rowToApiOperation(row: any): ApiOperation {
+    return {
+      specId: row.spec_id,
+      operationId: row.operation_id,
+      method: row.method,
+      path: row.path,
+      summary: row.summary ?? undefined,
+      description: row.description ?? undefined,
+      tags: JSON.parse(row.tags),
+      deprecated: row.deprecated === 1,
+      parameters: JSON.parse(row.parameters),
+      requestBody: row.request_body ? JSON.parse(row.request_body) : undefined,
+      responses: JSON.parse(row.responses),
+      security: row.security ? JSON.parse(row.security) : undefined,
+      servers: JSON.parse(row.servers)
+    };
+  }
+
   // Domain info caching for fast startup
   setDomainInfo(domainInfo: any): void {
     this.setMetadata('domain_info', JSON.stringify(domainInfo));
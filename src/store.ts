@@ -1,11 +1,17 @@
 import { GitBookContent, GitBookPage } from './scraper.js';
 import Fuse from 'fuse.js';
 import { TextProcessor } from './textProcessor.js';
+import { TocEntry } from './toc.js';
+import { DocVersions } from './versions.js';
+import { PageLocales } from './locales.js';
+import { pdfPageForQuery } from './pdfText.js';
+import { ApiCatalogStore, ApiOperation, ApiOperationFilters, ApiOperationRef, ApiOperationSummary, ApiSpec } from './openapi.js';
 
 export interface SearchResult {
   page: GitBookPage;
   score: number;
   snippet: string;
+  pdfPage?: number; // For PDFs: the page the snippet was taken from
   matches: Array<{
     indices: ReadonlyArray<readonly [number, number]>;
     value?: string;
@@ -13,8 +19,18 @@ export interface SearchResult {
   }>;
 }
 
-export class ContentStore {
+// Narrows search and page lookups; see SQLiteStore.search for the defaults
+export interface PageFilters {
+  version?: string;
+  locale?: string;
+}
+
+export class ContentStore implements ApiCatalogStore {
   private content: GitBookContent = {};
+  private aliases: Record<string, string> = {}; // alias path -> canonical path
+  private toc: TocEntry[] = [];
+  private apiSpecs = new Map<string, ApiSpec>();
+  private apiOperations: ApiOperation[] = [];
   private lastUpdated: Date | null = null;
   private fuse: Fuse<GitBookPage> | null = null;
   private textProcessor = new TextProcessor();
@@ -47,15 +63,127 @@ export class ContentStore {
     });
   }
 
-  async getPage(path: string): Promise<GitBookPage | undefined> {
-    return this.content[path];
+  async updateAliases(aliases: Record<string, string>): Promise<void> {
+    this.aliases = aliases;
+  }
+
+  async updateToc(entries: TocEntry[]): Promise<void> {
+    this.toc = entries;
+  }
+
+  async getToc(): Promise<TocEntry[]> {
+    return this.toc;
+  }
+
+  async listApiSpecs(): Promise<ApiSpec[]> {
+    return Array.from(this.apiSpecs.values()).sort((a, b) => a.title.localeCompare(b.title));
   }
 
-  async searchContent(query: string): Promise<SearchResult[]> {
+  async replaceApiSpec(spec: ApiSpec, operations: ApiOperation[]): Promise<void> {
+    for (const existing of this.apiSpecs.values()) {
+      if (existing.source === spec.source) this.apiSpecs.delete(existing.id);
+    }
+    this.apiSpecs.set(spec.id, spec);
+    this.apiOperations = this.apiOperations.filter(operation => operation.specId !== spec.id).concat(operations);
+  }
+
+  async removeApiSpecs(ids: string[]): Promise<void> {
+    ids.forEach(id => this.apiSpecs.delete(id));
+    this.apiOperations = this.apiOperations.filter(operation => !ids.includes(operation.specId));
+  }
+
+  async listApiOperations(filters: ApiOperationFilters = {}, limit: number = 50, offset: number = 0): Promise<{ operations: ApiOperationSummary[]; total: number }> {
+    const matching = this.filterApiOperations(filters)
+      .sort((a, b) => a.specId.localeCompare(b.specId) || a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+    return {
+      operations: matching.slice(offset, offset + limit).map(({ specId, operationId, method, path, summary, tags, deprecated }) =>
+        ({ specId, operationId, method, path, summary, tags, deprecated })),
+      total: matching.length
+    };
+  }
+
+  // Ranks by how many query terms each operation mentions; names and paths count double
+  async searchApiOperations(query: string, filters: ApiOperationFilters = {}, limit: number = 10): Promise<ApiOperation[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    return this.filterApiOperations(filters)
+      .map(operation => {
+        const names = `${operation.operationId} ${operation.method} ${operation.path}`.toLowerCase();
+        const text = `${operation.summary || ''} ${operation.description || ''} ${operation.tags.join(' ')}`.toLowerCase();
+        const score = terms.reduce((sum, term) => sum + (names.includes(term) ? 2 : 0) + (text.includes(term) ? 1 : 0), 0);
+        return { operation, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(result => result.operation);
+  }
+
+  async findApiOperations(ref: ApiOperationRef): Promise<ApiOperation[]> {
+    return this.apiOperations.filter(operation =>
+      (!ref.spec || operation.specId === ref.spec) &&
+      (!ref.operationId || operation.operationId === ref.operationId) &&
+      (!ref.method || operation.method === ref.method.toUpperCase()) &&
+      (!ref.path || operation.path === ref.path)
+    );
+  }
+
+  private filterApiOperations(filters: ApiOperationFilters): ApiOperation[] {
+    return this.apiOperations.filter(operation =>
+      (!filters.spec || operation.specId === filters.spec) &&
+      (!filters.method || operation.method === filters.method.toUpperCase()) &&
+      (!filters.tag || operation.tags.some(tag => tag.toLowerCase() === filters.tag!.toLowerCase()))
+    );
+  }
+
+  async getPage(path: string, filters: PageFilters = {}): Promise<GitBookPage | undefined> {
+    let page: GitBookPage | undefined = this.content[path] || this.content[this.aliases[path]];
+    const { version } = filters;
+    if (page && !DocVersions.matches(page.version, version)) {
+      // The same page in the requested version
+      const counterpart = DocVersions.swapVersion(page.path, page.version!, version!);
+      page = counterpart ? this.content[counterpart] : undefined;
+    }
+    
+    const locale = PageLocales.normalize(filters.locale);
+    if (page && locale && !PageLocales.matches(page.locale, locale)) {
+      // The translation its hreflang links point to
+      const translation = Object.entries(page.alternates || {}).find(([alternateLocale]) => PageLocales.matches(alternateLocale, locale));
+      return translation ? this.getPage(translation[1], { version }) : undefined;
+    }
+    return page;
+  }
+
+  // Versions present in the content, newest release first
+  async listVersions(): Promise<{ version: string; pages: number; isDefault: boolean }[]> {
+    const counts = new Map<string, number>();
+    for (const page of Object.values(this.content)) {
+      if (page.version) counts.set(page.version, (counts.get(page.version) || 0) + 1);
+    }
+    
+    const defaultVersion = DocVersions.pickDefault(Array.from(counts.keys()));
+    return Array.from(counts.entries())
+      .sort(([a], [b]) => DocVersions.compare(b, a))
+      .map(([version, pages]) => ({ version, pages, isDefault: version === defaultVersion }));
+  }
+
+  /**
+   * Searches one docs version (plus unversioned pages). `version` defaults
+   * to the default version; 'all' searches every version. `locale` keeps
+   * pages in that language.
+   */
+  async searchContent(query: string, limit: number = 20, offset: number = 0, filters: PageFilters = {}): Promise<SearchResult[]> {
     if (!this.fuse) {
       return [];
     }
 
+    const { version } = filters;
+    const versionFilter = version === 'all'
+      ? undefined
+      : version || (await this.listVersions()).find(entry => entry.isDefault)?.version;
+    const localeFilter = PageLocales.normalize(filters.locale);
+
     const searchTerms = this.textProcessor.getSearchTerms(query);
     const allResults = new Map<string, SearchResult>();
 
@@ -140,8 +268,10 @@ export class ContentStore {
 
     // Convert to array and sort by score (lower is better)
     return Array.from(allResults.values())
+      .filter(result => DocVersions.matches(result.page.version, versionFilter) && PageLocales.matches(result.page.locale, localeFilter))
       .sort((a, b) => a.score - b.score)
-      .slice(0, 20); // Limit results
+      .slice(offset, offset + limit)
+      .map(result => ({ ...result, pdfPage: pdfPageForQuery(result.page, query) }));
   }
 
   private isCodeRelatedQuery(query: string): boolean {
@@ -0,0 +1,216 @@
+import * as cheerio from 'cheerio';
+import { forEachMarkdownLine, markdownToPlainText } from './markdownUtils.js';
+
+// A data table from a page, flattened to one header row and plain-text cells
+export interface PageTable {
+  caption?: string;     // <caption>, or the caption of the figure holding the table
+  heading?: string;     // Nearest heading above the table
+  headers: string[];
+  rows: string[][];
+}
+
+// One row as read from the page, before spans are laid out
+export interface TableRowSource {
+  cells: Array<{ value: string; colspan: number; rowspan: number }>;
+  head: boolean;        // In <thead>, or made only of header cells
+}
+
+// HTML tables and the div grids some platforms (GitBook among them) render tables as
+export const TABLE_SELECTOR = 'table, [role="table"], [role="grid"]';
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6';
+const CELL_ROLES = ['cell', 'gridcell', 'columnheader', 'rowheader'];
+
+// Spans beyond this are treated as mistakes rather than laid out
+const MAX_SPAN = 50;
+
+const DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Reads tables into a grid of cells. Cells spanning several rows or columns
+ * are repeated in every slot they cover so each row stands on its own, and
+ * stacked header rows are merged into one ("Limits / Burst").
+ */
+export class PageTables {
+  // Data tables inside `root`, the page's content element
+  static fromHtml($: cheerio.CheerioAPI, root: cheerio.Cheerio<any>): PageTable[] {
+    const tables: PageTable[] = [];
+    let heading: string | undefined;
+
+    root.find(`${HEADING_SELECTOR}, ${TABLE_SELECTOR}`).each((_, element) => {
+      const $el = $(element);
+      if (/^h[1-6]$/.test(element.tagName)) {
+        heading = cleanText($el.text()) || heading;
+        return;
+      }
+      // Layout tables wrapping other tables aren't data
+      if ($el.find(TABLE_SELECTOR).length > 0) return;
+
+      const grid = PageTables.layout(PageTables.readRows($, $el, cellText));
+      if (!grid) return;
+      const caption = cleanText($el.children('caption').first().text()) ||
+        cleanText($el.closest('figure').find('figcaption').first().text());
+      tables.push({ caption: caption || undefined, heading, ...grid });
+    });
+
+    return tables;
+  }
+
+  // GitHub-flavored pipe tables in Markdown/MDX
+  static fromMarkdown(markdown: string): PageTable[] {
+    const lines: string[] = [];
+    forEachMarkdownLine(markdown, (line, inFence) => lines.push(inFence ? '' : line));
+
+    const tables: PageTable[] = [];
+    let heading: string | undefined;
+    for (let i = 0; i < lines.length; i++) {
+      const headingMatch = lines[i].match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+      if (headingMatch) {
+        heading = cleanText(markdownToPlainText(headingMatch[1]));
+        continue;
+      }
+      if (!lines[i].includes('|') || !DELIMITER_ROW.test(lines[i + 1] ?? '') || !lines[i + 1].includes('-')) continue;
+
+      const headers = splitPipeRow(lines[i]);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitPipeRow(lines[i]);
+        rows.push(headers.map((_, column) => cells[column] ?? ''));
+        i++;
+      }
+      i--;
+      tables.push({ heading, headers, rows });
+    }
+    return tables;
+  }
+
+  /**
+   * The rows of a table element. `cellValue` turns a cell into the string
+   * stored in the grid: plain text for data, markdown when rendering.
+   */
+  static readRows($: cheerio.CheerioAPI, table: cheerio.Cheerio<any>, cellValue: (cell: cheerio.Cheerio<any>) => string): TableRowSource[] {
+    const isHtmlTable = table.is('table');
+    const owner = (el: any) => $(el).parent().closest(TABLE_SELECTOR)[0];
+    const rows = (isHtmlTable ? table.find('tr') : table.find('[role="row"]'))
+      .filter((_, row) => owner(row) === table[0]);
+
+    return rows.toArray().map(row => {
+      const $row = $(row);
+      const cells = isHtmlTable
+        ? $row.children('td, th')
+        : $row.find(CELL_ROLES.map(role => `[role="${role}"]`).join(', ')).filter((_, cell) => $(cell).closest('[role="row"]')[0] === row);
+
+      const isHeader = (cell: any) => cell.tagName === 'th' || $(cell).attr('role') === 'columnheader';
+      return {
+        cells: cells.toArray().map(cell => ({
+          value: cellValue($(cell)),
+          colspan: parseSpan($(cell).attr('colspan') ?? $(cell).attr('aria-colspan')) || 1,
+          rowspan: parseSpan($(cell).attr('rowspan') ?? $(cell).attr('aria-rowspan'))
+        })),
+        head: $row.parent().is('thead') || (cells.length > 0 && cells.toArray().every(isHeader))
+      };
+    });
+  }
+
+  /**
+   * Lays rows out on a grid. Leading header rows become the headers; a table
+   * without any uses its first row. Null when the table has no cells.
+   */
+  static layout(rows: TableRowSource[]): { headers: string[]; rows: string[][] } | null {
+    const grid: string[][] = [];
+    rows.forEach((row, r) => {
+      grid[r] ??= [];
+      let column = 0;
+      for (const cell of row.cells) {
+        while (grid[r][column] !== undefined) column++;
+        // rowspan="0" runs to the end of the table
+        const rowspan = cell.rowspan === 0 ? rows.length - r : Math.min(cell.rowspan, rows.length - r);
+        for (let dr = 0; dr < rowspan; dr++) {
+          grid[r + dr] ??= [];
+          for (let dc = 0; dc < cell.colspan; dc++) grid[r + dr][column + dc] = cell.value;
+        }
+        column += cell.colspan;
+      }
+    });
+
+    const width = Math.max(0, ...grid.map(row => row.length));
+    if (width === 0) return null;
+    const filled = grid.map(row => Array.from({ length: width }, (_, column) => row[column] ?? ''));
+
+    let headerCount = 0;
+    while (headerCount < rows.length - 1 && rows[headerCount].head) headerCount++;
+    headerCount = Math.max(headerCount, 1);
+
+    const headers = Array.from({ length: width }, (_, column) => {
+      const parts: string[] = [];
+      for (const row of filled.slice(0, headerCount)) {
+        if (row[column] && !parts.includes(row[column])) parts.push(row[column]);
+      }
+      return parts.join(' / ');
+    });
+    return { headers, rows: filled.slice(headerCount) };
+  }
+
+  static toMarkdown(table: { headers: string[]; rows: string[][] }): string {
+    const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>').trim();
+    const line = (cells: string[]) => `| ${cells.map(cell).join(' | ')} |`;
+    return [
+      line(table.headers),
+      line(table.headers.map(() => '---')),
+      ...table.rows.map(line)
+    ].join('\n');
+  }
+
+  // Tables whose caption, heading or column names mention every word of the query
+  static filter(tables: PageTable[], query: string): PageTable[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return tables.filter(table => {
+      const label = [table.caption, table.heading, ...table.headers].join(' ').toLowerCase();
+      return words.every(word => label.includes(word));
+    });
+  }
+}
+
+// Line breaks and paragraphs inside a cell become spaces instead of running words together
+function cellText(cell: cheerio.Cheerio<any>): string {
+  const $cell = cell.clone();
+  $cell.find('br').replaceWith(' ');
+  $cell.find('p, li, div').before(' ').after(' ');
+  return cleanText($cell.text());
+}
+
+function parseSpan(value: string | undefined): number {
+  const span = parseInt(value || '', 10);
+  if (span === 0) return 0;
+  return Number.isFinite(span) && span > 0 ? Math.min(span, MAX_SPAN) : 1;
+}
+
+// Cells of a pipe table row; escaped pipes and pipes in code spans stay in the cell
+function splitPipeRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '\\' && trimmed[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      current += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map(cell => cleanText(markdownToPlainText(cell.replace(/<br\s*\/?>/gi, ' '))));
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
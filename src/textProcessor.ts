@@ -1,4 +1,52 @@
-import { PorterStemmer, WordTokenizer, stopwords } from 'natural';
+import {
+  PorterStemmer, PorterStemmerDe, PorterStemmerEs, PorterStemmerFa, PorterStemmerFr, PorterStemmerIt,
+  PorterStemmerNl, PorterStemmerNo, PorterStemmerPt, PorterStemmerRu, PorterStemmerSv, PorterStemmerUk,
+  Stemmer, WordTokenizer, stopwords
+} from 'natural';
+
+// Stemmers for the languages natural supports; each also drops its language's stopwords
+const LOCALE_STEMMERS: Record<string, Stemmer> = {
+  de: PorterStemmerDe,
+  es: PorterStemmerEs,
+  fa: PorterStemmerFa,
+  fr: PorterStemmerFr,
+  it: PorterStemmerIt,
+  nl: PorterStemmerNl,
+  no: PorterStemmerNo,
+  nb: PorterStemmerNo,
+  pt: PorterStemmerPt,
+  ru: PorterStemmerRu,
+  sv: PorterStemmerSv,
+  uk: PorterStemmerUk,
+};
+
+// Chinese, Japanese and Korean are written without spaces between words (ー and 々 belong to no script)
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー々]+/gu;
+
+/**
+ * Splits CJK text into overlapping character pairs, the usual way to index
+ * unsegmented scripts: "安装指南" becomes 安装, 装指, 指南. FTS5's default
+ * tokenizer would otherwise keep a whole sentence as one token.
+ */
+export function cjkBigrams(text: string): string[] {
+  const bigrams: string[] = [];
+  for (const [run] of text.matchAll(CJK_RUN)) {
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      bigrams.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      bigrams.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return bigrams;
+}
+
+// The text with its CJK runs blanked out, leaving what word-based tokenizers handle
+export function removeCjk(text: string): string {
+  return text.replace(CJK_RUN, ' ');
+}
 
 export class TextProcessor {
   private tokenizer = new WordTokenizer();
@@ -55,22 +103,41 @@ export class TextProcessor {
     'state-of-the-art',
   ]);
 
-  processText(text: string): string[] {
+  /**
+   * Index tokens for `text`. Pages without a locale, and English ones, get
+   * the English rules below; other languages use their stemmer when natural
+   * has one and plain Unicode word splitting otherwise. CJK runs always
+   * become bigrams.
+   */
+  processText(text: string, locale?: string): string[] {
     if (!text) return [];
     
-    // Normalize text
-    const normalized = this.normalizeText(text);
-    
-    // Tokenize
-    const tokens = this.tokenizer.tokenize(normalized) || [];
+    const language = locale ? locale.split('-')[0].toLowerCase() : 'en';
+    const cjkTokens = cjkBigrams(text);
+    const rest = removeCjk(text);
     
-    // Process tokens
-    const processed = tokens
-      .map(token => this.normalizeToken(token))
-      .filter(token => this.shouldKeepToken(token))
-      .map(token => this.stemToken(token));
+    let processed: string[];
+    if (language === 'en') {
+      // Normalize text
+      const normalized = this.normalizeText(rest);
+      
+      // Tokenize
+      const tokens = this.tokenizer.tokenize(normalized) || [];
+      
+      // Process tokens
+      processed = tokens
+        .map(token => this.normalizeToken(token))
+        .filter(token => this.shouldKeepToken(token))
+        .map(token => this.stemToken(token));
+    } else {
+      const stemmer = LOCALE_STEMMERS[language];
+      const tokens = stemmer
+        ? stemmer.tokenizeAndStem(rest)
+        : rest.toLowerCase().split(/[^\p{L}\p{N}_-]+/u);
+      processed = tokens.filter(token => token.length >= 2 && !/^\d+$/.test(token));
+    }
     
-    return [...new Set(processed)]; // Remove duplicates
+    return [...new Set([...processed, ...cjkTokens])]; // Remove duplicates
   }
 
   processQuery(query: string): string[] {
@@ -133,12 +200,12 @@ export class TextProcessor {
   }
 
   // Create searchable text for indexing
-  createSearchableText(title: string, content: string, section: string, subsection?: string): string {
+  createSearchableText(title: string, content: string, section: string, subsection?: string, locale?: string): string {
     const parts = [title, content, section];
     if (subsection) parts.push(subsection);
     
     const processed = parts
-      .map(part => this.processText(part).join(' '))
+      .map(part => this.processText(part, locale).join(' '))
       .filter(Boolean);
     
     return processed.join(' ');
@@ -0,0 +1,165 @@
+import * as cheerio from 'cheerio';
+import { SiteProfile, SiteProfiles } from './siteProfiles.js';
+
+// One node of the site's navigation, stored flat with a pointer to its parent
+export interface TocEntry {
+  key: string;          // The page path, or "<parent key>>title" for labels without a page
+  title: string;
+  path?: string;        // Page the entry links to; undefined for group labels
+  parentKey?: string;
+  position: number;     // Order among its siblings
+}
+
+export interface TocNode {
+  title: string;
+  path?: string;
+  children: TocNode[];
+}
+
+// Section captions that head a list in Sphinx/RTD and similar sidebars
+const CAPTION_SELECTOR = 'p.caption, .caption, h1, h2, h3, h4, h5, h6';
+
+/**
+ * Reads a page's sidebar into TOC entries and turns stored entries back into
+ * a tree.
+ */
+export class TocParser {
+  /**
+   * Parses the navigation element with the most internal links. `resolve`
+   * maps an href to a crawl path, or null for links leaving the docs.
+   */
+  static parse($: cheerio.CheerioAPI, profile: SiteProfile, resolve: (href: string) => string | null): TocEntry[] {
+    const nav = TocParser.findNavigation($, profile, resolve);
+    if (!nav) return [];
+
+    const entries: TocEntry[] = [];
+    const seen = new Set<string>();
+    const add = (title: string, path: string | null, parentKey: string | undefined, position: number): string | null => {
+      const key = path ?? `${parentKey ?? ''}>${title}`;
+      if (!title || seen.has(key)) return null;
+      seen.add(key);
+      entries.push({ key, title, path: path ?? undefined, parentKey, position });
+      return key;
+    };
+
+    const walkList = (list: cheerio.Cheerio<any>, parentKey: string | undefined) => {
+      let position = 0;
+      list.children('li').each((_, li) => {
+        const $li = $(li);
+        const nestedLists = $li.find('ul, ol').filter((_, el) => $(el).parent().closest('li')[0] === li);
+        const link = $li.find('a[href]').filter((_, el) => $(el).closest('li')[0] === li).first();
+
+        const $label = $li.clone();
+        $label.find('ul, ol').remove();
+        const title = (link.length ? link.text() : $label.text()).replace(/\s+/g, ' ').trim();
+        const path = link.length ? resolve(link.attr('href')!) : null;
+        // External links in the sidebar aren't part of the docs tree
+        if (link.length && !path && nestedLists.length === 0) return;
+
+        const key = add(title, path, parentKey, position);
+        if (key === null) return;
+        position++;
+
+        nestedLists.each((_, nested) => walkList($(nested), key));
+      });
+    };
+
+    const topLists = nav.find('ul, ol').filter((_, el) => $(el).parentsUntil(nav).filter('ul, ol').length === 0);
+    if (topLists.length === 0) {
+      // Flat navigation without lists: keep the links in order
+      nav.find('a[href]').each((index, el) => {
+        add($(el).text().replace(/\s+/g, ' ').trim(), resolve($(el).attr('href')!), undefined, index);
+      });
+      return entries;
+    }
+
+    let captionPosition = 0;
+    topLists.each((_, list) => {
+      const $list = $(list);
+      const caption = $list.prevAll(CAPTION_SELECTOR).first().text().replace(/\s+/g, ' ').trim();
+      if (caption) {
+        add(caption, null, undefined, captionPosition++);
+      }
+      walkList($list, caption ? `>${caption}` : undefined);
+    });
+
+    return entries;
+  }
+
+  private static findNavigation($: cheerio.CheerioAPI, profile: SiteProfile, resolve: (href: string) => string | null): cheerio.Cheerio<any> | null {
+    const selectors = [...profile.navigationSelectors, ...SiteProfiles.generic.navigationSelectors];
+    let best: cheerio.Cheerio<any> | null = null;
+    let bestLinks = 1; // A sidebar links to more than one page
+
+    $(selectors.join(', ')).each((_, el) => {
+      const $el = $(el);
+      if ($el.closest('[aria-label*="breadcrumb" i], .breadcrumb, .breadcrumbs').length) return;
+
+      const paths = new Set<string>();
+      $el.find('a[href]').each((_, a) => {
+        const path = resolve($(a).attr('href')!);
+        if (path) paths.add(path);
+      });
+      if (paths.size > bestLinks) {
+        best = $el;
+        bestLinks = paths.size;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Builds the tree from flat entries. With `rootPath`, returns only the
+   * subtree under the entry for that path (or with that title); `maxDepth`
+   * limits how many levels are included.
+   */
+  static buildTree(entries: TocEntry[], rootPath?: string, maxDepth?: number): TocNode[] | null {
+    const children = new Map<string | undefined, TocEntry[]>();
+    const keys = new Set(entries.map(entry => entry.key));
+    for (const entry of entries) {
+      // Entries whose parent wasn't captured hang off the root
+      const parentKey = entry.parentKey && keys.has(entry.parentKey) ? entry.parentKey : undefined;
+      if (!children.has(parentKey)) children.set(parentKey, []);
+      children.get(parentKey)!.push(entry);
+    }
+
+    const build = (parentKey: string | undefined, depth: number, ancestors: Set<string>): TocNode[] => {
+      if (maxDepth !== undefined && depth > maxDepth) return [];
+      return (children.get(parentKey) || [])
+        .filter(entry => !ancestors.has(entry.key))
+        .sort((a, b) => a.position - b.position)
+        .map(entry => ({
+          title: entry.title,
+          path: entry.path,
+          children: build(entry.key, depth + 1, new Set(ancestors).add(entry.key))
+        }));
+    };
+
+    if (!rootPath) {
+      return build(undefined, 1, new Set());
+    }
+
+    const root = entries.find(entry => entry.path === rootPath)
+      || entries.find(entry => entry.title.toLowerCase() === rootPath.toLowerCase());
+    if (!root) return null;
+
+    return [{ title: root.title, path: root.path, children: build(root.key, 2, new Set([root.key])) }];
+  }
+
+  /**
+   * Titles of the entries above `path`, outermost first, followed by the
+   * entry's own title.
+   */
+  static trail(entries: Map<string, TocEntry>, path: string): string[] {
+    const trail: string[] = [];
+    let entry = entries.get(path);
+    const visited = new Set<string>();
+    while (entry && !visited.has(entry.key)) {
+      visited.add(entry.key);
+      trail.unshift(entry.title);
+      entry = entry.parentKey ? entries.get(entry.parentKey) : undefined;
+    }
+    return trail;
+  }
+}
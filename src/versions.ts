@@ -0,0 +1,111 @@
+import * as cheerio from 'cheerio';
+import { gitBookConfig } from './config.js';
+
+// Path segments that name a docs version: v2, v2.1, 1.4, 1.4.x, next, latest, stable
+const VERSION_SEGMENT = /^(v\d+(\.(\d+|x))*|\d+\.(\d+|x)(\.(\d+|x))*|next|latest|stable)$/i;
+
+// Labels that point at the current release; preferred as the default version
+const RELEASE_ALIASES = ['latest', 'stable'];
+
+// Version selectors of the common doc generators, checked when the URL carries no version
+const VERSION_MARKUP: Array<{ selector: string; read: (el: cheerio.Cheerio<any>) => string | undefined }> = [
+  { selector: 'meta[name="docsearch:version"]', read: el => el.attr('content')?.split(',')[0] },
+  { selector: 'html[class*="docs-version-"]', read: el => el.attr('class')?.match(/docs-version-(\S+)/)?.[1] },
+  { selector: '.md-version__current', read: el => el.text() },
+  { selector: '.version-switcher__button', read: el => el.attr('data-active-version-name') || el.text() },
+  { selector: 'select[id*="version" i] option[selected], select[class*="version" i] option[selected]', read: el => el.attr('value') || el.text() }
+];
+
+/**
+ * Works out which docs version a page belongs to and which version searches
+ * default to. Pages without a version (landing pages, shared guides) belong
+ * to every version.
+ */
+export class DocVersions {
+  /**
+   * Version of a page: VERSION_PATTERN first, then a version segment in the
+   * URL, then the generator's version selector.
+   */
+  static detect($: cheerio.CheerioAPI, path: string): string | undefined {
+    const fromPath = DocVersions.fromPath(path);
+    if (fromPath) return fromPath;
+
+    for (const { selector, read } of VERSION_MARKUP) {
+      const element = $(selector).first();
+      if (!element.length) continue;
+      const version = read(element)?.replace(/\s+/g, ' ').trim();
+      if (version) return version;
+    }
+    return undefined;
+  }
+
+  static fromPath(path: string): string | undefined {
+    const pathname = DocVersions.pathname(path);
+
+    if (gitBookConfig.versionPattern) {
+      return pathname.match(new RegExp(gitBookConfig.versionPattern))?.[1] || undefined;
+    }
+
+    // Versions sit near the root (/v2/..., /docs/1.4/...), never deep inside a page path
+    return pathname.split('/').filter(Boolean).slice(0, 2).find(segment => VERSION_SEGMENT.test(segment));
+  }
+
+  static isVersionSegment(segment: string): boolean {
+    return VERSION_SEGMENT.test(segment);
+  }
+
+  /**
+   * The version searches use when none is given: DEFAULT_VERSION, a
+   * "latest"/"stable" label, or else the highest numbered release.
+   */
+  static pickDefault(versions: string[]): string | undefined {
+    if (versions.length === 0) return undefined;
+    if (gitBookConfig.defaultVersion) return gitBookConfig.defaultVersion;
+
+    const alias = versions.find(version => RELEASE_ALIASES.includes(version.toLowerCase()));
+    if (alias) return alias;
+
+    const releases = versions.filter(version => /^v?\d/i.test(version));
+    if (releases.length === 0) return versions[0];
+    return releases.sort(DocVersions.compare)[releases.length - 1];
+  }
+
+  // Orders numbered versions: v1.9 < v1.10 < 2.0; an ".x" component sorts above any number
+  static compare(a: string, b: string): number {
+    const parts = (version: string) => version.replace(/^v/i, '').split('.')
+      .map(part => part.toLowerCase() === 'x' ? Infinity : parseInt(part, 10) || 0);
+    const left = parts(a);
+    const right = parts(b);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const diff = (left[i] ?? 0) - (right[i] ?? 0);
+      if (diff !== 0 && !isNaN(diff)) return diff;
+    }
+    return a.localeCompare(b);
+  }
+
+  // Unversioned pages match every version; no requested version matches everything
+  static matches(pageVersion: string | undefined, version: string | undefined): boolean {
+    return !version || !pageVersion || pageVersion === version;
+  }
+
+  /**
+   * The same page in another version, by replacing the version segment of
+   * its path. Returns null when the path has no such segment.
+   */
+  static swapVersion(path: string, from: string, to: string): string | null {
+    const segments = path.split('/');
+    const index = segments.indexOf(from);
+    if (index === -1) return null;
+    segments[index] = to;
+    return segments.join('/');
+  }
+
+  private static pathname(path: string): string {
+    if (!/^https?:\/\//.test(path)) return path;
+    try {
+      return new URL(path).pathname;
+    } catch {
+      return path;
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { PageCallouts } from '../src/callouts.js';
+
+function fromHtml(body: string) {
+  const $ = cheerio.load(`<html><body><main>${body}</main></body></html>`);
+  return PageCallouts.fromHtml($, $('main'));
+}
+
+test('admonition kinds of each platform map to the GitHub alert types', () => {
+  assert.equal(PageCallouts.typeOf('div', 'hint hint-danger'), 'caution');
+  assert.equal(PageCallouts.typeOf('div', 'hint hint-info'), 'note');
+  assert.equal(PageCallouts.typeOf('div', 'theme-admonition theme-admonition-tip alert alert--success'), 'tip');
+  assert.equal(PageCallouts.typeOf('div', 'admonition admonition-caution alert alert--warning'), 'warning');
+  assert.equal(PageCallouts.typeOf('div', 'admonition seealso'), 'note');
+  assert.equal(PageCallouts.typeOf('details', 'failure'), 'caution');
+  assert.equal(PageCallouts.typeOf('div', 'markdown-alert markdown-alert-important'), 'important');
+  // Unknown kinds are still callouts, just notes
+  assert.equal(PageCallouts.typeOf('div', 'admonition custom-kind'), 'note');
+  assert.equal(PageCallouts.typeOf('details', 'faq-collapsible'), undefined);
+  assert.equal(PageCallouts.typeOf('div', 'alert alert--warning'), undefined);
+});
+
+test('callouts keep custom titles, drop default ones and list nested callouts separately', () => {
+  const callouts = fromHtml(`
+    <h2>Upgrading</h2>
+    <div class="theme-admonition theme-admonition-warning alert alert--warning">
+      <div class="admonitionHeading_x">Breaking change</div>
+      <div class="admonitionContent_x"><p>Back up your data.</p><p>Then migrate.</p>
+        <div class="admonition tip"><p class="admonition-title">Tip</p><p>Use --dry-run first.</p></div>
+      </div>
+    </div>
+    <div class="admonition note"><p class="admonition-title">Note</p><h4>Inside</h4><p>Old clients keep working.</p></div>
+    <h2>Empty</h2>
+    <div class="hint hint-info"></div>`);
+
+  assert.deepEqual(callouts, [
+    { type: 'warning', title: 'Breaking change', text: 'Back up your data. Then migrate.', heading: 'Upgrading' },
+    { type: 'tip', title: undefined, text: 'Use --dry-run first.', heading: 'Upgrading' },
+    { type: 'note', title: undefined, text: 'Inside Old clients keep working.', heading: 'Upgrading' },
+  ]);
+});
+
+test('Docusaurus, MkDocs and GitBook callout syntax is rewritten as GitHub alerts', () => {
+  const markdown = PageCallouts.normalizeMarkdown([
+    ':::danger[Data loss]',
+    'Deleting a project is permanent.',
+    ':::',
+    '',
+    '!!! info "Info"',
+    '    Runs on every platform.',
+    '',
+    '    ```sh',
+    '    npm start',
+    '    ```',
+    'After the block.',
+    '',
+    '{% hint style="success" %}',
+    'Done!',
+    '{% endhint %}',
+  ].join('\n'));
+
+  assert.equal(markdown, [
+    '> [!CAUTION]',
+    '> **Data loss**',
+    '> Deleting a project is permanent.',
+    '',
+    // A title that only repeats the kind is left out; the block ends where the indentation does
+    '> [!NOTE]',
+    '> Runs on every platform.',
+    '>',
+    '> ```sh',
+    '> npm start',
+    '> ```',
+    '',
+    'After the block.',
+    '',
+    '> [!TIP]',
+    '> Done!',
+  ].join('\n'));
+});
+
+test('GitHub alerts are read from markdown with their titles and nesting', () => {
+  const callouts = PageCallouts.fromMarkdown([
+    '## Security',
+    '> [!WARNING]',
+    '> **Tokens**',
+    '> Never commit `.env` files.',
+    '> > [!danger]',
+    '> > Rotate leaked keys at once.',
+    '',
+    '```md',
+    '> [!NOTE]',
+    '> Only an example',
+    '```',
+  ].join('\n'));
+
+  assert.deepEqual(callouts, [
+    { type: 'warning', title: 'Tokens', text: 'Never commit .env files.', heading: 'Security' },
+    { type: 'caution', title: undefined, text: 'Rotate leaked keys at once.', heading: 'Security' },
+  ]);
+});
+
+test('callouts render back to alerts and are counted by type', () => {
+  assert.equal(PageCallouts.toMarkdown({ type: 'important', title: 'Heads up', body: 'Line one\n\nLine two' }),
+    '> [!IMPORTANT]\n> **Heads up**\n> Line one\n>\n> Line two');
+  assert.deepEqual(PageCallouts.summarize([
+    { type: 'warning', text: 'a' }, { type: 'caution', text: 'b' }, { type: 'tip', text: 'c' },
+  ]), { total: 3, warnings: 2, byType: { warning: 1, caution: 1, tip: 1 } });
+});
@@ -0,0 +1,159 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { CodeExamples } from '../src/codeExamples.js';
+import type { CodeBlock } from '../src/scraper.js';
+
+function fromHtml(body: string) {
+  const $ = cheerio.load(`<html><body><main>${body}</main></body></html>`);
+  return CodeExamples.fromHtml($, $('main'));
+}
+
+test('Docusaurus tabs pair labels with panels and take the language from the code or the label', () => {
+  const groups = fromHtml(`
+    <h2>Create a client</h2>
+    <div class="tabs-container">
+      <ul role="tablist"><li role="tab">Node.js</li><li role="tab">Python</li><li role="tab">cURL</li><li role="tab">Notes</li></ul>
+      <div role="tabpanel"><pre><code class="language-ts">const client = new Client();</code></pre></div>
+      <div role="tabpanel" hidden><pre><code>client = Client()</code></pre></div>
+      <div role="tabpanel" hidden><pre>curl https://api.example.com</pre></div>
+      <div role="tabpanel" hidden><p>No code here.</p></div>
+    </div>`);
+
+  assert.deepEqual(groups, [{
+    heading: 'Create a client',
+    tabs: [
+      { label: 'Node.js', language: 'ts', code: 'const client = new Client();' },
+      { label: 'Python', language: 'python', code: 'client = Client()' },
+      { label: 'cURL', language: 'bash', code: 'curl https://api.example.com' },
+    ],
+  }]);
+});
+
+test('MkDocs content tabs and bare ARIA tablists are read; single-tab groups are not examples', () => {
+  const groups = fromHtml(`
+    <h3>Install</h3>
+    <div class="tabbed-set">
+      <div class="tabbed-labels"><label>pip</label><label>Poetry</label></div>
+      <div class="tabbed-content">
+        <div class="tabbed-block"><div class="language-bash highlight"><pre><code>pip install pkg</code></pre></div></div>
+        <div class="tabbed-block"><div class="language-bash highlight"><pre><code>poetry add pkg</code></pre></div></div>
+      </div>
+    </div>
+    <div role="tablist"><button role="tab" aria-controls="go">Go</button><button role="tab" aria-controls="rb">Ruby</button></div>
+    <div id="rb" role="tabpanel"><pre><code>Client.new</code></pre></div>
+    <div id="go" role="tabpanel"><pre><code>client.New()</code></pre></div>
+    <div class="tabbed-set"><div class="tabbed-labels"><label>Only</label></div>
+      <div class="tabbed-content"><div class="tabbed-block"><pre><code>echo one</code></pre></div></div>
+    </div>`);
+
+  assert.deepEqual(groups, [
+    { heading: 'Install', tabs: [
+      { label: 'pip', language: 'bash', code: 'pip install pkg' },
+      { label: 'Poetry', language: 'bash', code: 'poetry add pkg' },
+    ] },
+    // Panels follow aria-controls, not document order
+    { heading: 'Install', tabs: [
+      { label: 'Go', language: 'go', code: 'client.New()' },
+      { label: 'Ruby', language: 'ruby', code: 'Client.new' },
+    ] },
+  ]);
+});
+
+test('MkDocs, GitBook and labelled MDX tabs are read from markdown', () => {
+  const groups = CodeExamples.fromMarkdown([
+    '## Send a request',
+    '',
+    '=== "JavaScript"',
+    '',
+    '    ```js',
+    '    await client.send();',
+    '    ```',
+    '',
+    '=== "Python"',
+    '',
+    '    ```',
+    '    client.send()',
+    '    ```',
+    '',
+    '## Authenticate',
+    '',
+    '{% tabs %}',
+    '{% tab title="Go" %}',
+    '```go',
+    'client.Auth(token)',
+    '```',
+    '{% endtab %}',
+    '{% tab title="Shell" %}',
+    '```',
+    'export TOKEN=abc',
+    '```',
+    '{% endtab %}',
+    '{% endtabs %}',
+    '',
+    '**Node.js**',
+    '',
+    '```',
+    'npm install pkg',
+    '```',
+    '**Python (pip)**',
+    '```',
+    'pip install pkg',
+    '```',
+    '',
+    '```md',
+    '=== "Not a tab"',
+    '```',
+  ].join('\n'));
+
+  assert.deepEqual(groups, [
+    { heading: 'Send a request', tabs: [
+      { label: 'JavaScript', language: 'js', code: 'await client.send();' },
+      { label: 'Python', language: 'python', code: 'client.send()' },
+    ] },
+    { heading: 'Authenticate', tabs: [
+      { label: 'Go', language: 'go', code: 'client.Auth(token)' },
+      { label: 'Shell', language: 'bash', code: 'export TOKEN=abc' },
+    ] },
+    { heading: 'Authenticate', tabs: [
+      { label: 'Node.js', language: 'javascript', code: 'npm install pkg' },
+      { label: 'Python (pip)', language: 'python', code: 'pip install pkg' },
+    ] },
+  ]);
+});
+
+test('linking marks the code blocks of each example with their tab and language', () => {
+  const blocks: CodeBlock[] = [
+    { language: 'text', code: 'intro' },
+    { language: 'javascript', code: 'send()' },
+    { language: 'text', code: 'client.send()' },
+  ];
+  const examples = CodeExamples.link(blocks, [
+    { heading: 'Send', tabs: [{ label: 'JS', code: 'send()' }, { label: 'Python', language: 'python', code: 'client.send()' }] },
+    // Only one of its tabs is on the page, so it is no example
+    { tabs: [{ label: 'Go', language: 'go', code: 'Send()' }, { label: 'JS', code: 'send()' }] },
+  ]);
+
+  assert.deepEqual(examples, [{ heading: 'Send', variants: [
+    { label: 'JS', language: 'javascript', block: 1 },
+    { label: 'Python', language: 'python', block: 2 },
+  ] }]);
+  assert.deepEqual(blocks.map(({ example, tab, language }) => ({ example, tab, language })), [
+    { example: undefined, tab: undefined, language: 'text' },
+    { example: 0, tab: 'JS', language: 'javascript' },
+    { example: 0, tab: 'Python', language: 'python' },
+  ]);
+  assert.equal(CodeExamples.variantIn(examples[0], 'py'), 2);
+  assert.equal(CodeExamples.variantIn(examples[0], 'go'), -1);
+});
+
+test('tab labels and aliases name the language code blocks use', () => {
+  assert.equal(CodeExamples.languageForLabel('Node.js'), 'javascript');
+  assert.equal(CodeExamples.languageForLabel('cURL'), 'bash');
+  assert.equal(CodeExamples.languageForLabel('C#'), 'csharp');
+  assert.equal(CodeExamples.languageForLabel('TypeScript (Deno)'), 'typescript');
+  assert.equal(CodeExamples.languageForLabel('Python SDK'), 'python');
+  assert.equal(CodeExamples.languageForLabel('Response'), undefined);
+  assert.ok(CodeExamples.sameLanguage('TS', 'typescript'));
+  assert.ok(!CodeExamples.sameLanguage('java', 'javascript'));
+});
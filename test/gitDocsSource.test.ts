@@ -0,0 +1,48 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { GitDocsSource } from '../src/gitDocsSource.js';
+
+let tmpDir: string;
+let repoDir: string;
+
+function git(...args: string[]): void {
+  execFileSync('git', ['-c', 'user.name=Docs Writer', '-c', 'user.email=docs@example.com', ...args], { cwd: repoDir, stdio: 'ignore' });
+}
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpbook-git-'));
+  repoDir = path.join(tmpDir, 'repo');
+  process.env.XDG_CONFIG_HOME = path.join(tmpDir, 'config');
+
+  await fs.mkdir(path.join(repoDir, 'docs'), { recursive: true });
+  await fs.writeFile(path.join(repoDir, 'docs', 'install.md'), '# Install\n\nRun the installer.\n');
+  git('init', '--quiet');
+  git('add', '.');
+  git('commit', '--quiet', '-m', 'Add install guide');
+});
+
+after(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+test('an uncommitted edit that is reverted is read again', async () => {
+  const file = path.join(repoDir, 'docs', 'install.md');
+  const source = new GitDocsSource(repoDir, 'docs', '', pathToFileURL(path.join(repoDir, 'docs')).href);
+  await source.scrapeAll();
+  assert.match(source.getContent()['/install'].content, /Run the installer\./);
+  assert.equal(source.getContent()['/install'].lastCommit?.author, 'Docs Writer');
+
+  await fs.writeFile(file, '# Install\n\nWork in progress.\n');
+  await source.scrapeAll();
+  assert.match(source.getContent()['/install'].content, /Work in progress\./);
+
+  git('checkout', '--', 'docs/install.md');
+  await source.scrapeAll();
+  assert.match(source.getContent()['/install'].content, /Run the installer\./);
+});
@@ -0,0 +1,125 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { HydrationExtractor } from '../src/hydration.js';
+import { GitBookScraper } from '../src/scraper.js';
+import { gitBookConfig } from '../src/config.js';
+
+const text = (value: string, marks: string[] = []) =>
+  ({ object: 'text', leaves: [{ text: value, marks: marks.map(type => ({ type })) }] });
+const block = (type: string, nodes: unknown[], data: Record<string, unknown> = {}) =>
+  ({ object: 'block', type, data, nodes });
+
+// A GitBook page whose HTML is an empty shell and whose content sits in __NEXT_DATA__
+const GITBOOK_DOCUMENT = {
+  object: 'document',
+  nodes: [
+    block('heading-2', [text('Install')]),
+    block('paragraph', [
+      text('Run the '),
+      text('installer', ['bold']),
+      text(' and read the '),
+      { object: 'inline', type: 'link', data: { ref: { url: 'https://example.com/guide' } }, nodes: [text('guide')] },
+      text('. '.concat('The installer sets everything up. '.repeat(40))),
+    ]),
+    block('code', [block('code-line', [text('npm install <pkg>')])], { syntax: 'bash' }),
+    block('hint', [block('paragraph', [text('Node 18 or later is required.')])], { style: 'warning' }),
+  ],
+};
+
+function nextDataShell(pageProps: unknown): string {
+  return `<html><head><title></title></head><body><div id="__next"></div>` +
+    `<script id="__NEXT_DATA__" type="application/json">${JSON.stringify({ props: { pageProps } })}</script></body></html>`;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let tmpDir: string;
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpbook-hydration-'));
+  process.env.XDG_CONFIG_HOME = tmpDir;
+  await fs.mkdir(path.join(tmpDir, 'mcpbooks'), { recursive: true });
+  Object.assign(gitBookConfig, { cacheTtlHours: 0, scrapingDelayMs: 0, maxRetries: 0, useLlmsTxt: false });
+
+  const html = nextDataShell({ page: { title: 'Installation', document: GITBOOK_DOCUMENT } });
+  server = http.createServer((req, res) => {
+    const found = req.url === '/';
+    res.writeHead(found ? 200 : 404, { 'Content-Type': 'text/html' });
+    res.end(found ? html : 'Not found');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+test('rebuilds a GitBook document tree from __NEXT_DATA__ with its title', () => {
+  const $ = cheerio.load(nextDataShell({ page: { title: 'Installation', document: GITBOOK_DOCUMENT } }));
+  const hydrated = HydrationExtractor.extract($)!;
+
+  assert.equal(hydrated.source, 'gitbook-document');
+  assert.equal(hydrated.title, 'Installation');
+  assert.match(hydrated.html, /<h2>Install<\/h2>/);
+  assert.match(hydrated.html, /<strong>installer<\/strong>/);
+  assert.match(hydrated.html, /<a href="https:\/\/example.com\/guide">guide<\/a>/);
+  // Code is escaped, not injected as markup
+  assert.match(hydrated.html, /<pre><code class="language-bash">npm install &lt;pkg&gt;<\/code><\/pre>/);
+  assert.match(hydrated.html, /<div class="hint hint-warning">/);
+});
+
+test('a client-rendered page is indexed as markdown from its hydration data', async () => {
+  const scraper = new GitBookScraper(baseUrl);
+  await scraper.scrapeAll();
+  const page = scraper.getContent()['/'];
+
+  assert.equal(page.title, 'Installation');
+  assert.match(page.markdown, /## Install/);
+  assert.match(page.markdown, /\*\*installer\*\*/);
+  assert.match(page.markdown, /\[guide\]\(https:\/\/example.com\/guide\)/);
+  assert.deepEqual(page.codeBlocks.map(({ language, code }) => ({ language, code })), [{ language: 'bash', code: 'npm install <pkg>' }]);
+});
+
+test('picks up pre-rendered HTML embedded in a JSON payload', () => {
+  const body = `<h1>Configuration</h1><p>${'Settings live in config.yaml. '.repeat(20)}</p>`;
+  const $ = cheerio.load(`<html><body><script type="application/json">${JSON.stringify({ data: { title: 'Configuration', bodyHtml: body } })}</script></body></html>`);
+  const hydrated = HydrationExtractor.extract($)!;
+
+  assert.equal(hydrated.source, 'embedded-html');
+  assert.equal(hydrated.title, 'Configuration');
+  assert.equal(hydrated.html, body);
+});
+
+test('renders React Server Component payloads, following row references', () => {
+  const intro = 'Streaming pages send their content as RSC rows. ';
+  const rows = [
+    `1:["$","p",null,{"children":"${intro}"}]`,
+    `0:["$","article",null,{"className":"doc","children":[["$","h1",null,{"children":"Streaming"}],"$1",["$","script",null,{"children":"alert(1)"}]]}]`,
+  ].join('\n') + '\n';
+  const $ = cheerio.load(`<html><body><script>self.__next_f.push([1, ${JSON.stringify(rows)}])</script></body></html>`);
+  const hydrated = HydrationExtractor.extract($)!;
+
+  assert.equal(hydrated.source, 'rsc');
+  assert.equal(hydrated.html, `<article class="doc"><h1>Streaming</h1>\n<p>${intro}</p>\n</article>\n`);
+});
+
+test('self-referencing RSC rows and broken JSON do not hang or throw', () => {
+  const rows = '0:["$","div",null,{"children":["Loop ","$0"]}]\n';
+  const $ = cheerio.load(`<html><body><script type="application/json">{not json</script>` +
+    `<script>self.__next_f.push([1, ${JSON.stringify(rows)}])</script></body></html>`);
+
+  assert.equal(HydrationExtractor.extract($)?.html, '<div>Loop </div>\n');
+});
+
+test('a page without hydration data yields nothing', () => {
+  assert.equal(HydrationExtractor.extract(cheerio.load('<html><body><main><p>Static</p></main></body></html>')), null);
+});
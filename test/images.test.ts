@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { PageImages } from '../src/images.js';
+
+const PAGE_URL = 'https://docs.example.com/guides/setup/';
+
+function fromHtml(body: string) {
+  const $ = cheerio.load(`<html><body><main>${body}</main></body></html>`);
+  return PageImages.fromHtml($, $('main'), PAGE_URL);
+}
+
+test('figures keep their caption and images the heading they sit under', () => {
+  const images = fromHtml(`
+    <h2>Architecture</h2>
+    <figure><img src="../img/arch.png" alt="System  diagram" title="Overview"><figcaption>How <em>requests</em> flow</figcaption></figure>
+    <h3>Dashboard</h3>
+    <p><img src="/img/dashboard.png" alt=""></p>`);
+
+  assert.deepEqual(images, [
+    { src: 'https://docs.example.com/guides/img/arch.png', alt: 'System diagram', caption: 'How requests flow', title: 'Overview', heading: 'Architecture' },
+    { src: 'https://docs.example.com/img/dashboard.png', alt: '', caption: undefined, title: undefined, heading: 'Dashboard' },
+  ]);
+});
+
+test('lazy-loaded sources are read and icons, data URIs and repeats are skipped', () => {
+  const images = fromHtml(`
+    <img src="/placeholder.gif" data-src="/img/real.png" alt="Real">
+    <img srcset="/img/set.png 1x, /img/set@2x.png 2x">
+    <img src="/img/icon.svg" width="16" height="16" alt="icon">
+    <img src="data:image/png;base64,AAAA" alt="inline">
+    <img src="/img/real.png" title="Again">`);
+
+  assert.deepEqual(images.map(({ src, alt, title }) => ({ src, alt, title })), [
+    { src: 'https://docs.example.com/img/real.png', alt: 'Real', title: 'Again' },
+    { src: 'https://docs.example.com/img/set.png', alt: '', title: undefined },
+  ]);
+});
+
+test('markdown images, <img> tags and figures with captions are read from source files', () => {
+  const images = PageImages.fromMarkdown([
+    '# Install',
+    '![Installer window](./installer.png "The installer")',
+    '',
+    '```md',
+    '![Not an image](./in-code.png)',
+    '```',
+    '## **Configure**',
+    '<figure>',
+    '  <img src="config.png" alt="Config screen" />',
+    '  <figcaption>The <code>config</code> page</figcaption>',
+    '</figure>',
+    '<img src=\'https://cdn.example.com/logo.png\' alt="Logo">',
+  ].join('\n'), 'file:///repo/docs/guides/');
+
+  assert.deepEqual(images, [
+    { src: 'file:///repo/docs/guides/installer.png', alt: 'Installer window', title: 'The installer', heading: 'Install' },
+    { src: 'file:///repo/docs/guides/config.png', alt: 'Config screen', caption: 'The config page', title: undefined, heading: 'Configure' },
+    { src: 'https://cdn.example.com/logo.png', alt: 'Logo', caption: undefined, title: undefined, heading: 'Configure' },
+  ]);
+});
+
+test('alt text, titles and captions make up the searchable text', () => {
+  const text = PageImages.searchText([
+    { src: 'https://docs.example.com/a.png', alt: 'Login form', caption: 'Signing in' },
+    { src: 'https://docs.example.com/b.png', alt: '', title: 'Logout button' },
+  ]);
+
+  assert.equal(text, 'Login form\nSigning in\nLogout button');
+});
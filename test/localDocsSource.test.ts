@@ -0,0 +1,112 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { LocalDocsSource } from '../src/localDocsSource.js';
+
+let tmpDir: string;
+let docsDir: string;
+
+async function writeDoc(relativePath: string, source: string): Promise<void> {
+  const file = path.join(docsDir, relativePath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, source);
+}
+
+async function readDocs(): Promise<LocalDocsSource> {
+  const source = new LocalDocsSource(docsDir, pathToFileURL(docsDir).href);
+  await source.scrapeAll();
+  return source;
+}
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpbook-local-'));
+  docsDir = path.join(tmpDir, 'docs');
+  // Keep the cache file out of the real config directory
+  process.env.XDG_CONFIG_HOME = path.join(tmpDir, 'config');
+
+  await writeDoc('index.md', '# Welcome\n\nStart here.\n');
+  await writeDoc('02-guides/_category_.json', JSON.stringify({ label: 'User Guides', position: 1 }));
+  await writeDoc('02-guides/01-install.md', [
+    '---',
+    'title: "Installing"',
+    'sidebar_label: Install',
+    'sidebar_position: 2',
+    '---',
+    '',
+    'Run the installer.',
+  ].join('\n'));
+  await writeDoc('02-guides/configure.mdx', [
+    '---',
+    'slug: /setup/config',
+    'sidebar_position: 1',
+    '---',
+    "import Tabs from '@theme/Tabs';",
+    "export const meta = { hidden: true };",
+    '',
+    '# Configure',
+    '',
+    '<Tabs>',
+    'Edit the config file.',
+    '</Tabs>',
+  ].join('\n'));
+  await writeDoc('02-guides/draft.md', '---\ndraft: true\n---\n# Not yet\n');
+  await writeDoc('02-guides/_partial.mdx', '# Included elsewhere\n');
+  await writeDoc('.hidden/secret.md', '# Hidden\n');
+  await writeDoc('node_modules/pkg/readme.md', '# Dependency\n');
+  await writeDoc('reference/api-keys.md', 'No heading here.\n');
+  await writeDoc('notes.txt', 'Not a document');
+});
+
+after(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+test('reads titles, slugs and sidebar labels from frontmatter', async () => {
+  const content = (await readDocs()).getContent();
+
+  assert.equal(content['/guides/install'].title, 'Installing');
+  assert.equal(content['/setup/config'].title, 'Configure');
+  // Without frontmatter or a heading the file name becomes the title
+  assert.equal(content['/reference/api-keys'].title, 'Api keys');
+  assert.equal(content['/'].title, 'Welcome');
+});
+
+test('strips MDX imports, exports and JSX tags but keeps the prose', async () => {
+  const page = (await readDocs()).getContent()['/setup/config'];
+
+  assert.doesNotMatch(page.markdown, /import Tabs|export const|<\/?Tabs>/);
+  assert.match(page.markdown, /Edit the config file\./);
+  assert.equal(page.source, 'local');
+});
+
+test('places pages in sections from folders and _category_.json', async () => {
+  const source = await readDocs();
+  const content = source.getContent();
+
+  assert.equal(content['/guides/install'].section, 'User Guides');
+  assert.equal(content['/reference/api-keys'].section, 'Reference');
+
+  // sidebar_position orders siblings within a folder
+  const guides = source.getToc().filter(entry => entry.parentKey === '>User Guides');
+  assert.deepEqual(guides.map(entry => entry.title), ['Configure', 'Install']);
+});
+
+test('skips drafts, partials, hidden folders, dependencies and non-docs', async () => {
+  const paths = Object.keys((await readDocs()).getContent()).sort();
+
+  assert.deepEqual(paths, ['/', '/guides/install', '/reference/api-keys', '/setup/config']);
+});
+
+test('reports deleted files as removed on the next read', async () => {
+  const source = await readDocs();
+  await fs.rm(path.join(docsDir, 'reference/api-keys.md'));
+  await source.scrapeAll();
+
+  assert.equal(source.getContent()['/reference/api-keys'], undefined);
+  assert.deepEqual(source.getCrawlReport().removed, [{ path: '/reference/api-keys', reason: 'file deleted' }]);
+  await writeDoc('reference/api-keys.md', 'No heading here.\n');
+});
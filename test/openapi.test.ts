@@ -0,0 +1,87 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OpenApiLoader } from '../src/openapi.js';
+
+let tmpDir: string;
+
+before(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpbook-openapi-'));
+  await fs.writeFile(path.join(tmpDir, 'openapi.yaml'), [
+    'openapi: 3.0.3',
+    'info:',
+    '  title: Pets API',
+    '  version: "1.2"',
+    '  description: |',
+    '    Manage pets.',
+    '    Two lines.',
+    'servers:',
+    '  - url: https://api.example.com/v1',
+    'paths:',
+    '  /pets/{petId}:',
+    '    parameters:',
+    '      - $ref: "#/components/parameters/PetId"',
+    '    get:',
+    '      operationId: getPet',
+    '      summary: Get a pet',
+    '      tags: [pets]',
+    '      responses:',
+    "        '200':",
+    '          description: The pet',
+    '          content:',
+    '            application/json:',
+    '              schema:',
+    '                $ref: "./schemas.yaml#/Pet"',
+    '    delete:',
+    '      summary: Delete a pet',
+    '      deprecated: true',
+    '      responses:',
+    "        '204':",
+    '          description: Deleted',
+    'components:',
+    '  parameters:',
+    '    PetId: &petId',
+    '      name: petId',
+    '      in: path',
+    '      required: true',
+    '      schema: { type: integer }',
+  ].join('\n'));
+  await fs.writeFile(path.join(tmpDir, 'schemas.yaml'), [
+    'Pet:',
+    '  type: object',
+    '  properties:',
+    '    name: { type: string, example: Rex }',
+  ].join('\n'));
+});
+
+after(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+test('loads a YAML spec with block scalars, flow collections and external refs', async () => {
+  const { spec, operations } = await new OpenApiLoader().load(path.join(tmpDir, 'openapi.yaml'));
+
+  assert.equal(spec.title, 'Pets API');
+  assert.equal(spec.version, '1.2');
+  assert.equal(spec.format, 'OpenAPI 3.0.3');
+  assert.match(spec.description ?? '', /Manage pets\.\nTwo lines\./);
+  assert.deepEqual(spec.servers, ['https://api.example.com/v1']);
+  assert.equal(spec.operationCount, 2);
+
+  const getPet = operations.find(operation => operation.operationId === 'getPet')!;
+  assert.equal(getPet.method, 'GET');
+  assert.deepEqual(getPet.tags, ['pets']);
+  // Path-level parameters are inherited through their $ref
+  assert.deepEqual(getPet.parameters.map(parameter => [parameter.name, parameter.in, parameter.required]), [['petId', 'path', true]]);
+  assert.deepEqual(getPet.responses[0].example, { name: 'Rex' });
+
+  const deletePet = operations.find(operation => operation.method === 'DELETE')!;
+  assert.equal(deletePet.deprecated, true);
+  assert.ok(deletePet.operationId);
+});
+
+test('rejects a document that is not valid YAML', () => {
+  assert.throws(() => OpenApiLoader.parseDocument('openapi: 3.0.0\n  info: [unclosed', 'spec.yaml'));
+});
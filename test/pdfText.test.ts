@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractPdfText, PdfError } from '../src/pdfText.js';
+
+// Assembles a PDF with one page per content stream, Helvetica text and a correct xref table
+function buildPdf(title: string, pageStreams: string[]): Buffer {
+  const objects: string[] = [];
+  const pageIds = pageStreams.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  objects[4] = `<< /Title (${title}) >>`;
+  pageStreams.forEach((stream, i) => {
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+test('extracts the title, text and headings of each page', async () => {
+  const pdf = await extractPdfText(buildPdf('Field Manual', [
+    'BT /F1 24 Tf 72 700 Td (Getting started) Tj ET ' +
+    'BT /F1 11 Tf 72 660 Td (Install the package) Tj ET ' +
+    'BT /F1 11 Tf 180 660 Td (and run it.) Tj ET',
+    'BT /F1 11 Tf 72 700 Td (Second page body.) Tj ET',
+  ]));
+
+  assert.equal(pdf.title, 'Field Manual');
+  assert.equal(pdf.pages.length, 2);
+  assert.deepEqual(pdf.pages[0].headings, ['Getting started']);
+  assert.match(pdf.pages[0].markdown, /^## Getting started\n\nInstall the package and run it\.$/);
+  assert.equal(pdf.pages[1].number, 2);
+  assert.equal(pdf.pages[1].text, 'Second page body.');
+});
+
+test('rejects a file that is not a PDF', async () => {
+  await assert.rejects(extractPdfText(Buffer.from('<html>not a pdf</html>')), PdfError);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RobotsTxt } from '../src/robots.js';
+
+const USER_AGENT = 'mcpbook/1.0 (+https://github.com/tcsenpai/mcpbook)';
+
+test('a group naming the exact product token applies, whatever its case', () => {
+  const robots = RobotsTxt.parse([
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: MCPBook',
+    'Disallow: /private',
+  ].join('\n'));
+
+  assert.equal(robots.isAllowed('/guide', USER_AGENT), true);
+  assert.equal(robots.isAllowed('/private/keys', USER_AGENT), false);
+});
+
+test('a group naming part of the product token does not apply', () => {
+  const robots = RobotsTxt.parse([
+    'User-agent: book',
+    'Disallow: /',
+    'Crawl-delay: 30',
+    '',
+    'User-agent: *',
+    'Disallow: /admin',
+  ].join('\n'));
+
+  assert.equal(robots.isAllowed('/guide', USER_AGENT), true);
+  assert.equal(robots.isAllowed('/admin', USER_AGENT), false);
+  assert.equal(robots.getCrawlDelay(USER_AGENT), undefined);
+});
+
+test('the longest matching rule wins and Allow wins ties', () => {
+  const robots = RobotsTxt.parse([
+    'User-agent: *',
+    'Disallow: /docs',
+    'Allow: /docs/public',
+    'Disallow: /*.pdf$',
+    'Allow: /same',
+    'Disallow: /same',
+  ].join('\n'));
+
+  assert.equal(robots.isAllowed('/docs/internal', USER_AGENT), false);
+  assert.equal(robots.isAllowed('/docs/public/intro', USER_AGENT), true);
+  assert.equal(robots.isAllowed('/files/guide.pdf', USER_AGENT), false);
+  assert.equal(robots.isAllowed('/files/guide.pdf?download=1', USER_AGENT), true);
+  assert.equal(robots.isAllowed('/same', USER_AGENT), true);
+});
@@ -0,0 +1,204 @@
+import { test, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { GitBookScraper } from '../src/scraper.js';
+import { SQLiteStore } from '../src/sqliteStore.js';
+import { gitBookConfig } from '../src/config.js';
+import { syncStoreFromScraper } from '../src/contentSource.js';
+
+// path -> HTML served for it; anything else is a 404
+let pages = new Map<string, string>();
+let textFiles = new Map<string, string>(); // path -> plain text body, e.g. llms-full.txt
+let redirects = new Map<string, string>(); // path -> path it redirects to
+let hits: string[] = [];                   // Page paths requested, in order
+let onPage: ((path: string) => void) | undefined;
+let server: http.Server;
+let baseUrl: string;
+let tmpDir: string;
+
+function page(title: string, links: string[] = [], canonical?: string): string {
+  const anchors = links.map(link => `<li><a href="${link}">${link}</a></li>`).join('');
+  const canonicalLink = canonical ? `<link rel="canonical" href="${canonical}">` : '';
+  return `<html><head><title>${title}</title>${canonicalLink}</head><body><main><h1>${title}</h1>` +
+    `<p>${title} ${'is documented here. '.repeat(80)}</p><ul>${anchors}</ul></main></body></html>`;
+}
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpbook-scraper-'));
+  process.env.XDG_CONFIG_HOME = tmpDir;
+  Object.assign(gitBookConfig, {
+    cacheTtlHours: 0,        // Every crawl is a full crawl
+    scrapingDelayMs: 0,
+    maxRetries: 0,
+    useLlmsTxt: false,
+    stalePageMissLimit: 3,
+  });
+
+  server = http.createServer((req, res) => {
+    const pagePath = req.url!.replace(/\/$/, '') || '/';
+    const location = redirects.get(pagePath);
+    if (location) {
+      res.writeHead(301, { Location: location });
+      res.end();
+      return;
+    }
+    const html = pages.get(pagePath);
+    if (html) {
+      hits.push(pagePath);
+      onPage?.(pagePath);
+    }
+    const text = textFiles.get(pagePath);
+    if (text) {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end(text);
+      return;
+    }
+    res.writeHead(html ? 200 : 404, { 'Content-Type': 'text/html' });
+    res.end(html ?? 'Not found');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await fs.rm(path.join(tmpDir, 'mcpbooks'), { recursive: true, force: true });
+  await fs.mkdir(path.join(tmpDir, 'mcpbooks'), { recursive: true });
+  hits = [];
+  onPage = undefined;
+  textFiles = new Map();
+  redirects = new Map();
+  pages = new Map([
+    ['/', page('Home', ['/guide', '/faq'])],
+    ['/guide', page('Guide')],
+    ['/faq', page('FAQ')],
+  ]);
+});
+
+test('a full crawl drops a page that now answers 404 even though it is still linked', async () => {
+  await new GitBookScraper(baseUrl).scrapeAll();
+
+  pages.delete('/faq');
+  const scraper = new GitBookScraper(baseUrl);
+  await scraper.scrapeAll();
+
+  assert.equal(scraper.getContent()['/faq'], undefined);
+  assert.deepEqual(scraper.getCrawlReport().removed, [{ path: '/faq', reason: 'HTTP 404' }]);
+  assert.ok(scraper.getContent()['/guide']);
+});
+
+test('a broken link to a page that was never indexed is not reported as removed', async () => {
+  pages.set('/', page('Home', ['/guide', '/faq', '/missing']));
+  const scraper = new GitBookScraper(baseUrl);
+  await scraper.scrapeAll();
+
+  assert.deepEqual(scraper.getCrawlReport().removed, []);
+});
+
+test('a full crawl fetches each page once', async () => {
+  await new GitBookScraper(baseUrl).scrapeAll();
+
+  assert.deepEqual([...hits].sort(), ['/', '/faq', '/guide']);
+});
+
+test('a crawl stopped during discovery saves its frontier and resumes without refetching', async () => {
+  const chapters = Array.from({ length: 12 }, (_, i) => `/chapter-${i}`);
+  pages.set('/', page('Home', chapters));
+  chapters.forEach(chapter => pages.set(chapter, page(`Chapter ${chapter}`)));
+
+  const store = new SQLiteStore(baseUrl);
+  try {
+    const controller = new AbortController();
+    onPage = pagePath => {
+      if (pagePath === '/chapter-4') controller.abort(new Error('stopped by test'));
+    };
+    const first = new GitBookScraper(baseUrl);
+    first.setCrawlStateStore(store);
+    await first.scrapeAll(controller.signal);
+    assert.ok(first.getCrawlReport().aborted);
+
+    const saved = await store.loadFrontier();
+    assert.equal(saved.discoveryComplete, false);
+    const fetched = saved.entries.filter(entry => entry.state === 'fetched').map(entry => entry.path);
+    assert.ok(fetched.includes('/'));
+    // Links found before the stop are queued, not forgotten
+    const queued = saved.entries.filter(entry => entry.state === 'queued').map(entry => entry.path);
+    assert.ok(queued.length > 0);
+
+    hits = [];
+    onPage = undefined;
+    const second = new GitBookScraper(baseUrl);
+    second.setCrawlStateStore(store);
+    await second.scrapeAll();
+
+    assert.equal(second.getCrawlReport().resumed, true);
+    assert.deepEqual(Object.keys(second.getContent()).sort(), ['/', ...chapters].sort());
+    for (const path of fetched) {
+      assert.ok(!hits.includes(path), `${path} was fetched again`);
+    }
+    assert.equal(new Set(hits).size, hits.length);
+  } finally {
+    store.close();
+  }
+});
+
+test('llms-full.txt pages are not fetched but the links in them are still crawled', async () => {
+  pages.set('/guide', page('Guide', ['/guide/advanced']));
+  pages.set('/guide/advanced', page('Advanced'));
+  textFiles.set('/llms-full.txt', [
+    '# Home',
+    `Source: ${baseUrl}/`,
+    '',
+    'Read the [guide](/guide) and the [FAQ](faq).',
+    '',
+    '# Guide',
+    `Source: ${baseUrl}/guide`,
+    '',
+    'See [advanced usage](/guide/advanced).',
+  ].join('\n'));
+
+  gitBookConfig.useLlmsTxt = true;
+  try {
+    const scraper = new GitBookScraper(baseUrl);
+    await scraper.scrapeAll();
+    const content = scraper.getContent();
+
+    assert.equal(content['/guide'].source, 'llms-full');
+    assert.equal(content['/guide/advanced'].source, 'html');
+    assert.equal(content['/faq'].source, 'html');
+    assert.deepEqual([...hits].sort(), ['/faq', '/guide/advanced']);
+  } finally {
+    gitBookConfig.useLlmsTxt = false;
+  }
+});
+
+test('redirected and canonical duplicates are stored once and resolve through their aliases', async () => {
+  pages.set('/', page('Home', ['/guide', '/old-guide', '/print/guide']));
+  redirects.set('/old-guide', '/guide');
+  pages.set('/print/guide', page('Guide', [], '/guide'));
+
+  const scraper = new GitBookScraper(baseUrl);
+  await scraper.scrapeAll();
+
+  assert.deepEqual(Object.keys(scraper.getContent()).sort(), ['/', '/guide']);
+  assert.deepEqual(scraper.getAliases(), { '/old-guide': '/guide', '/print/guide': '/guide' });
+
+  const store = new SQLiteStore(baseUrl);
+  try {
+    await syncStoreFromScraper(store, scraper);
+    assert.equal((await store.getPage('/old-guide'))?.path, '/guide');
+    assert.equal((await store.getPage(`${baseUrl}/print/guide/`))?.path, '/guide');
+    assert.equal(await store.getPageCount(), 2);
+  } finally {
+    store.close();
+  }
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { SiteProfiles, SitePlatform } from '../src/siteProfiles.js';
+
+// One page per platform: its markers, a sidebar, chrome inside the content and the article itself
+const FIXTURES: Record<Exclude<SitePlatform, 'generic'>, { html: string; body: string }> = {
+  docusaurus: { body: 'Docusaurus body.', html: `<div id="__docusaurus">
+    <nav class="menu"><a href="/docs/intro">Intro</a></nav>
+    <main><article>
+      <nav class="theme-doc-breadcrumbs"><ul><li class="breadcrumbs__item">Guides</li><li class="breadcrumbs__item">Install</li></ul></nav>
+      <div class="theme-doc-markdown markdown"><h1>Install</h1><p>Docusaurus body.</p></div>
+      <footer class="theme-doc-footer"><a class="theme-edit-this-page">Edit this page</a></footer>
+    </article></main></div>` },
+  mkdocs: { body: 'MkDocs body.', html: `<div class="md-container">
+    <nav class="md-nav"><a href="/intro/">Intro</a></nav>
+    <article class="md-content__inner"><a class="md-content__button">Edit</a><h1>Install</h1><p>MkDocs body.</p></article>
+    <nav class="md-path"><ol><li class="md-path__item">Guides</li></ol></nav></div>` },
+  sphinx: { body: 'Sphinx body.', html: `<div class="sphinxsidebar"><ul><li><a href="intro.html">Intro</a></li></ul></div>
+    <div class="body" role="main"><section><h1>Install<a class="headerlink" href="#install">¶</a></h1><p>Sphinx body.</p></section></div>` },
+  mintlify: { body: 'Mintlify body.', html: `<div id="sidebar"><a href="/intro">Intro</a></div>
+    <div id="header"><div class="eyebrow">Guides</div><h1 id="page-title">Install</h1></div>
+    <div id="content-area"><div class="prose"><p>Mintlify body.</p></div><div id="pagination">Next</div></div>` },
+  gitbook: { body: 'GitBook body.', html: `<div class="gitbook-root"><aside data-testid="table-of-contents"><nav><a href="/intro">Intro</a></nav></aside>
+    <main><header><h1>Install</h1></header><div class="page-body"><p>GitBook body.</p></div>
+    <div data-testid="page.footer">Last updated</div></main></div>` },
+};
+
+function load(body: string, head: string = ''): cheerio.CheerioAPI {
+  return cheerio.load(`<html><head><title>Install | Example Docs</title>${head}</head><body>${body}</body></html>`);
+}
+
+for (const [platform, { html, body }] of Object.entries(FIXTURES)) {
+  test(`${platform}: detected from its markup and read with its own selectors`, () => {
+    const $ = load(html);
+    const profile = SiteProfiles.detect($);
+    assert.equal(profile.platform, platform);
+
+    const content = SiteProfiles.findContent($, profile)!;
+    content.find(SiteProfiles.chromeSelectors(profile)).remove();
+    const text = content.text().replace(/\s+/g, ' ').trim();
+
+    assert.ok(text.includes(body), text);
+    assert.doesNotMatch(text, /Edit|Next|Last updated|¶|Intro/);
+    assert.equal(SiteProfiles.extractTitle($, profile), 'Install');
+  });
+}
+
+test('the generator meta tag wins over markers of another platform', () => {
+  const $ = load(FIXTURES.mkdocs.html, '<meta name="generator" content="Docusaurus v3.1.0">');
+
+  assert.equal(SiteProfiles.detect($).platform, 'docusaurus');
+});
+
+test('breadcrumbs come from the platform trail without the page itself', () => {
+  const $ = load(FIXTURES.docusaurus.html);
+
+  assert.deepEqual(SiteProfiles.extractBreadcrumbs($, SiteProfiles.detect($), 'Install'), ['Guides']);
+});
+
+test('an unknown site falls back to the generic selectors', () => {
+  const $ = load('<nav><a href="/a">A</a></nav><main><h1>Plain</h1><p>Generic body.</p></main>');
+  const profile = SiteProfiles.detect($);
+
+  assert.equal(profile.platform, 'generic');
+  assert.equal(SiteProfiles.findContent($, profile)!.find('p').text(), 'Generic body.');
+  assert.equal(SiteProfiles.extractTitle($, profile), undefined);
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { gzipSync } from 'zlib';
+import { SitemapParser } from '../src/sitemap.js';
+
+function urlset(urls: string[]): string {
+  return `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">` +
+    urls.map(url => `<url><loc>${url}</loc><lastmod>2024-05-01</lastmod></url>`).join('') + '</urlset>';
+}
+
+function fetcherFor(bodies: Record<string, Buffer | string>) {
+  return async (url: string) => bodies[url] !== undefined
+    ? new Response(bodies[url], { status: 200 })
+    : new Response('Not found', { status: 404 });
+}
+
+test('reads plain and gzipped sitemaps from a sitemap index', async () => {
+  const parser = new SitemapParser(fetcherFor({
+    'https://docs.example.com/sitemap.xml':
+      '<sitemapindex><sitemap><loc>https://docs.example.com/guides.xml.gz</loc></sitemap></sitemapindex>',
+    'https://docs.example.com/guides.xml.gz': gzipSync(urlset(['https://docs.example.com/guide'])),
+  }));
+
+  const entries = await parser.discover('https://docs.example.com');
+
+  assert.deepEqual(entries, [{ url: 'https://docs.example.com/guide', lastmod: '2024-05-01' }]);
+});
+
+test('skips a gzipped sitemap that inflates past the 50 MB limit', async () => {
+  const bomb = gzipSync(Buffer.alloc(51 * 1024 * 1024, ' '));
+  const parser = new SitemapParser(fetcherFor({
+    'https://docs.example.com/sitemap.xml': bomb,
+    'https://docs.example.com/docs/sitemap.xml': urlset(['https://docs.example.com/docs/intro']),
+  }));
+
+  const entries = await parser.discover('https://docs.example.com/docs');
+
+  assert.deepEqual(entries.map(entry => entry.url), ['https://docs.example.com/docs/intro']);
+});
@@ -0,0 +1,74 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteStore } from '../src/sqliteStore.js';
+import { TextProcessor } from '../src/textProcessor.js';
+import type { GitBookPage } from '../src/scraper.js';
+
+const BASE_URL = 'https://docs.example.com';
+let tmpDir: string;
+let store: SQLiteStore;
+
+function makePage(pagePath: string, title: string, content: string, locale?: string): GitBookPage {
+  return {
+    path: pagePath,
+    title,
+    content,
+    rawHtml: '',
+    markdown: content,
+    codeBlocks: [],
+    section: 'Guides',
+    url: `${BASE_URL}${pagePath}`,
+    lastUpdated: new Date(),
+    contentHash: pagePath,
+    lastChecked: new Date(),
+    searchableText: new TextProcessor().createSearchableText(title, content, 'Guides', undefined, locale),
+    locale,
+  };
+}
+
+before(async () => {
+  // search() schedules cache expiry timers that would keep the test process alive
+  mock.timers.enable({ apis: ['setTimeout'] });
+  mock.method(console, 'log', () => {});
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpbook-store-'));
+  process.env.XDG_CONFIG_HOME = tmpDir;
+  await fs.mkdir(path.join(tmpDir, 'mcpbooks'), { recursive: true });
+  store = new SQLiteStore(BASE_URL);
+  await store.updateContent({
+    '/server': makePage('/server', 'Server setup', 'The server stored its settings on disk.'),
+    '/fr/connexion': makePage('/fr/connexion', 'Connexion', 'Les paramètres de connexion sont enregistrés localement.', 'fr'),
+  });
+});
+
+after(async () => {
+  store.close();
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+test('query terms match other forms of the same word', async () => {
+  const results = await store.search('storing');
+
+  assert.deepEqual(results.map(result => result.page.path), ['/server']);
+});
+
+test('query terms are stemmed in the requested locale', async () => {
+  const results = await store.search('paramètre', 20, 0, { locale: 'fr' });
+
+  assert.deepEqual(results.map(result => result.page.path), ['/fr/connexion']);
+  assert.equal(await store.searchContentCount('paramètre', { locale: 'fr' }), 1);
+});
+
+test('exact words still match unstemmed fields like the title', async () => {
+  const results = await store.search('setup');
+
+  assert.deepEqual(results.map(result => result.page.path), ['/server']);
+});
+
+test('a blank query finds nothing instead of failing', async () => {
+  assert.deepEqual(await store.search(''), []);
+  assert.deepEqual(await store.search('   '), []);
+  assert.equal(await store.searchContentCount(' '), 0);
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { PageTables } from '../src/tables.js';
+
+function fromHtml(body: string) {
+  const $ = cheerio.load(`<html><body><main>${body}</main></body></html>`);
+  return PageTables.fromHtml($, $('main'));
+}
+
+test('colspan and rowspan cells are repeated and stacked headers merged', () => {
+  const [table] = fromHtml(`
+    <h2>Rate limits</h2>
+    <table>
+      <caption>Requests per plan</caption>
+      <thead>
+        <tr><th rowspan="2">Plan</th><th colspan="2">Limits</th></tr>
+        <tr><th>Sustained</th><th>Burst</th></tr>
+      </thead>
+      <tbody>
+        <tr><td>Free</td><td colspan="2">10/s</td></tr>
+        <tr><td rowspan="2">Pro</td><td>100/s</td><td>500/s</td></tr>
+        <tr><td>200/s</td><td>1000/s<br>per region</td></tr>
+      </tbody>
+    </table>`);
+
+  assert.deepEqual(table, {
+    caption: 'Requests per plan',
+    heading: 'Rate limits',
+    headers: ['Plan', 'Limits / Sustained', 'Limits / Burst'],
+    rows: [
+      ['Free', '10/s', '10/s'],
+      ['Pro', '100/s', '500/s'],
+      ['Pro', '200/s', '1000/s per region'],
+    ],
+  });
+});
+
+test('a table without header cells uses its first row; layout tables are skipped', () => {
+  const tables = fromHtml(`
+    <table><tr><td><table><tr><td>Key</td><td>Value</td></tr><tr><td>a</td><td>1</td></tr></table></td></tr></table>`);
+
+  assert.deepEqual(tables, [{ caption: undefined, heading: undefined, headers: ['Key', 'Value'], rows: [['a', '1']] }]);
+});
+
+test('ARIA grids are read like tables and take a figure caption', () => {
+  const [table] = fromHtml(`
+    <figure><div role="table">
+      <div role="row"><div role="columnheader">Option</div><div role="columnheader">Default</div></div>
+      <div role="row"><div role="cell"><p>timeout</p></div><div role="cell">30</div></div>
+    </div><figcaption>Client options</figcaption></figure>`);
+
+  assert.deepEqual(table, { caption: 'Client options', heading: undefined, headers: ['Option', 'Default'], rows: [['timeout', '30']] });
+});
+
+test('GFM tables keep escaped pipes and pipes in code spans inside their cell', () => {
+  const tables = PageTables.fromMarkdown([
+    '## Operators',
+    '',
+    '| Operator | Meaning | Example |',
+    '|:---------|:-------:|--------:|',
+    '| `a || b` | logical **or** | `x \\| y` |',
+    '| \\| | pipe | [docs](/ops)<br>more |',
+    '| short |',
+    '',
+    '```',
+    '| not | a table |',
+    '|-----|---------|',
+    '```',
+  ].join('\n'));
+
+  assert.deepEqual(tables, [{
+    heading: 'Operators',
+    headers: ['Operator', 'Meaning', 'Example'],
+    rows: [
+      ['a || b', 'logical or', 'x | y'],
+      ['|', 'pipe', 'docs more'],
+      ['short', '', ''],
+    ],
+  }]);
+});
+
+test('markdown output escapes pipes and turns line breaks into <br>', () => {
+  const markdown = PageTables.toMarkdown({ headers: ['Flag', 'Notes'], rows: [['-a|-b', 'first\nsecond']] });
+
+  assert.equal(markdown, '| Flag | Notes |\n| --- | --- |\n| -a\\|-b | first<br>second |');
+});
+
+test('tables are filtered on caption, heading and column names', () => {
+  const tables = [
+    { heading: 'Rate limits', headers: ['Plan', 'Burst'], rows: [] },
+    { caption: 'Regions', headers: ['Name', 'Latency'], rows: [] },
+  ];
+
+  assert.deepEqual(PageTables.filter(tables, 'rate burst').map(table => table.heading), ['Rate limits']);
+  assert.deepEqual(PageTables.filter(tables, 'LATENCY').map(table => table.caption), ['Regions']);
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { SiteProfiles } from '../src/siteProfiles.js';
+import { TocParser, TocEntry } from '../src/toc.js';
+
+const BASE_URL = 'https://docs.example.com';
+
+// Docs live under /docs; anything else (the blog, other hosts) is out of scope
+function resolve(href: string): string | null {
+  const url = new URL(href, `${BASE_URL}/docs/intro`);
+  return url.origin === BASE_URL && url.pathname.startsWith('/docs') ? url.pathname.replace(/\/$/, '') : null;
+}
+
+// A Docusaurus sidebar: a nested category, the current page marked active and a collapsed category
+const DOCUSAURUS_SIDEBAR = `<html><body><div id="__docusaurus">
+  <aside class="theme-doc-sidebar-container"><nav class="menu"><ul class="menu__list">
+    <li class="menu__list-item"><a class="menu__link" href="/docs/intro">Introduction</a></li>
+    <li class="menu__list-item"><a class="menu__link menu__link--sublist" href="/docs/guides">Guides</a>
+      <ul class="menu__list">
+        <li class="menu__list-item"><a class="menu__link menu__link--active" aria-current="page" href="/docs/guides/install">Install</a></li>
+        <li class="menu__list-item"><a class="menu__link" href="/docs/guides/deploy/">Deploy</a>
+          <ul class="menu__list"><li class="menu__list-item"><a class="menu__link" href="/docs/guides/deploy/docker">Docker</a></li></ul>
+        </li>
+      </ul>
+    </li>
+    <li class="menu__list-item menu__list-item--collapsed"><a class="menu__link menu__link--sublist" href="/docs/api">API</a>
+      <ul class="menu__list" style="display: none"><li class="menu__list-item"><a class="menu__link" href="/docs/api/rest">REST</a></li></ul>
+    </li>
+    <li class="menu__list-item"><a class="menu__link" href="https://github.com/example/project">GitHub</a></li>
+    <li class="menu__list-item"><a class="menu__link" href="/blog">Blog</a></li>
+  </ul></nav></aside>
+  <main><article><div class="theme-doc-markdown"><h1>Install</h1></div></article></main>
+</div></body></html>`;
+
+function parse(html: string): TocEntry[] {
+  const $ = cheerio.load(html);
+  return TocParser.parse($, SiteProfiles.detect($), resolve);
+}
+
+test('nested sidebar lists become parent/child entries in order', () => {
+  const entries = parse(DOCUSAURUS_SIDEBAR);
+
+  assert.deepEqual(TocParser.buildTree(entries), [
+    { title: 'Introduction', path: '/docs/intro', children: [] },
+    { title: 'Guides', path: '/docs/guides', children: [
+      { title: 'Install', path: '/docs/guides/install', children: [] },
+      { title: 'Deploy', path: '/docs/guides/deploy', children: [
+        { title: 'Docker', path: '/docs/guides/deploy/docker', children: [] },
+      ] },
+    ] },
+    { title: 'API', path: '/docs/api', children: [
+      { title: 'REST', path: '/docs/api/rest', children: [] },
+    ] },
+  ]);
+});
+
+test('the active item is an ordinary entry and collapsed categories keep their children', () => {
+  const entries = parse(DOCUSAURUS_SIDEBAR);
+  const byPath = new Map(entries.map(entry => [entry.key, entry]));
+
+  assert.equal(entries.filter(entry => entry.path === '/docs/guides/install').length, 1);
+  assert.equal(byPath.get('/docs/api/rest')?.parentKey, '/docs/api');
+  assert.deepEqual(TocParser.trail(byPath, '/docs/guides/deploy/docker'), ['Guides', 'Deploy', 'Docker']);
+});
+
+test('links leaving the docs are left out of the tree', () => {
+  const titles = parse(DOCUSAURUS_SIDEBAR).map(entry => entry.title);
+
+  assert.ok(!titles.includes('GitHub'));
+  assert.ok(!titles.includes('Blog'));
+});
+
+test('Sphinx captions become group labels without a page', () => {
+  const entries = parse(`<html><body><div class="sphinxsidebar">
+    <p class="caption"><span>User Guide</span></p>
+    <ul><li><a href="/docs/quickstart.html">Quickstart</a></li><li><a href="/docs/config.html">Configuration</a></li></ul>
+    <p class="caption">Reference</p>
+    <ul><li><a href="/docs/cli.html">CLI</a></li></ul>
+  </div><div class="body" role="main"><h1>Quickstart</h1></div></body></html>`);
+
+  assert.deepEqual(TocParser.buildTree(entries, undefined, 2), [
+    { title: 'User Guide', path: undefined, children: [
+      { title: 'Quickstart', path: '/docs/quickstart.html', children: [] },
+      { title: 'Configuration', path: '/docs/config.html', children: [] },
+    ] },
+    { title: 'Reference', path: undefined, children: [
+      { title: 'CLI', path: '/docs/cli.html', children: [] },
+    ] },
+  ]);
+});
+
+test('a subtree is looked up by path or title and cut at maxDepth', () => {
+  const entries = parse(DOCUSAURUS_SIDEBAR);
+
+  assert.deepEqual(TocParser.buildTree(entries, 'guides', 2), [
+    { title: 'Guides', path: '/docs/guides', children: [
+      { title: 'Install', path: '/docs/guides/install', children: [] },
+      { title: 'Deploy', path: '/docs/guides/deploy', children: [] },
+    ] },
+  ]);
+  assert.equal(TocParser.buildTree(entries, '/docs/missing'), null);
+});
+
+test('a page without a sidebar has no entries', () => {
+  assert.deepEqual(parse('<html><body><main><a href="/docs/intro">Only one link</a></main></body></html>'), []);
+});
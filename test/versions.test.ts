@@ -0,0 +1,125 @@
+import { test, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DocVersions } from '../src/versions.js';
+import { SQLiteStore } from '../src/sqliteStore.js';
+import { TextProcessor } from '../src/textProcessor.js';
+import { gitBookConfig } from '../src/config.js';
+import type { GitBookPage } from '../src/scraper.js';
+
+const BASE_URL = 'https://docs.example.com';
+let tmpDir: string;
+let store: SQLiteStore;
+
+function makePage(pagePath: string, title: string, content: string): GitBookPage {
+  return {
+    path: pagePath,
+    title,
+    content,
+    rawHtml: '',
+    markdown: content,
+    codeBlocks: [],
+    section: 'Guides',
+    url: `${BASE_URL}${pagePath}`,
+    lastUpdated: new Date(),
+    contentHash: pagePath,
+    lastChecked: new Date(),
+    searchableText: new TextProcessor().createSearchableText(title, content, 'Guides'),
+    version: DocVersions.fromPath(pagePath),
+  };
+}
+
+before(async () => {
+  // search() schedules cache expiry timers that would keep the test process alive
+  mock.timers.enable({ apis: ['setTimeout'] });
+  mock.method(console, 'log', () => {});
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcpbook-versions-'));
+  process.env.XDG_CONFIG_HOME = tmpDir;
+  await fs.mkdir(path.join(tmpDir, 'mcpbooks'), { recursive: true });
+  store = new SQLiteStore(BASE_URL);
+  await store.updateContent({
+    '/v1.9/deploy': makePage('/v1.9/deploy', 'Deploy', 'Deploy the widget with the legacy installer.'),
+    '/v1.10/deploy': makePage('/v1.10/deploy', 'Deploy', 'Deploy the widget with the new installer.'),
+    '/v2.0/deploy': makePage('/v2.0/deploy', 'Deploy', 'Deploy the widget from the dashboard.'),
+    '/faq': makePage('/faq', 'FAQ', 'Can I deploy the widget offline? Yes.'),
+  });
+});
+
+after(async () => {
+  store.close();
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  gitBookConfig.defaultVersion = '';
+  gitBookConfig.versionPattern = '';
+});
+
+async function searchPaths(filters: { version?: string } = {}): Promise<string[]> {
+  const results = await store.search('widget', 20, 0, filters);
+  return results.map(result => result.page.path).sort();
+}
+
+test('searches default to the newest release and still include unversioned pages', async () => {
+  assert.deepEqual(await searchPaths(), ['/faq', '/v2.0/deploy']);
+  assert.equal(await store.searchContentCount('widget'), 2);
+});
+
+test('a requested version replaces the default', async () => {
+  assert.deepEqual(await searchPaths({ version: 'v1.10' }), ['/faq', '/v1.10/deploy']);
+});
+
+test("version 'all' lifts the filter", async () => {
+  assert.deepEqual(await searchPaths({ version: 'all' }), ['/faq', '/v1.10/deploy', '/v1.9/deploy', '/v2.0/deploy']);
+  assert.equal(await store.searchContentCount('widget', { version: 'all' }), 4);
+});
+
+test('DEFAULT_VERSION overrides the newest release', async () => {
+  gitBookConfig.defaultVersion = 'v1.9';
+
+  assert.deepEqual(await searchPaths(), ['/faq', '/v1.9/deploy']);
+});
+
+test('versions are listed newest first with the default flagged', async () => {
+  assert.deepEqual(await store.listVersions(), [
+    { version: 'v2.0', pages: 1, isDefault: true },
+    { version: 'v1.10', pages: 1, isDefault: false },
+    { version: 'v1.9', pages: 1, isDefault: false },
+  ]);
+  assert.equal(await store.getUnversionedPageCount(), 1);
+});
+
+test('a page is fetched in another version by swapping its version segment', async () => {
+  assert.equal((await store.getPage('/v2.0/deploy', { version: 'v1.9' }))?.path, '/v1.9/deploy');
+  assert.equal((await store.getPage('/faq', { version: 'v1.9' }))?.path, '/faq');
+});
+
+test('the version is read from the path near the root, then from the generator markup', () => {
+  const empty = cheerio.load('<html></html>');
+  assert.equal(DocVersions.detect(empty, '/docs/1.4.x/intro'), '1.4.x');
+  assert.equal(DocVersions.detect(empty, '/next/guide'), 'next');
+  // Deep segments are page names, not versions
+  assert.equal(DocVersions.detect(empty, '/docs/guides/api/v2'), undefined);
+
+  const docusaurus = cheerio.load('<html class="docs-version-3.2 plugin-docs"><body></body></html>');
+  assert.equal(DocVersions.detect(docusaurus, '/docs/intro'), '3.2');
+  const mkdocs = cheerio.load('<html><body><span class="md-version__current">0.9</span></body></html>');
+  assert.equal(DocVersions.detect(mkdocs, '/intro'), '0.9');
+});
+
+test('VERSION_PATTERN replaces the built-in path detection', () => {
+  gitBookConfig.versionPattern = '^/release-([^/]+)/';
+
+  assert.equal(DocVersions.fromPath('/release-7/intro'), '7');
+  assert.equal(DocVersions.fromPath('/v2/intro'), undefined);
+});
+
+test('the default prefers a latest/stable label, then the highest numbered release', () => {
+  assert.equal(DocVersions.pickDefault(['v1.9', 'stable', 'v3']), 'stable');
+  assert.equal(DocVersions.pickDefault(['1.9', '1.10', '1.x']), '1.x');
+  assert.equal(DocVersions.pickDefault(['next']), 'next');
+  assert.equal(DocVersions.pickDefault([]), undefined);
+});